@@ -1,11 +1,34 @@
 import React, { useState } from 'react';
+import InboxTab from './components/InboxTab';
 import InvoiceTab from './components/InvoiceTab';
 import BusinessCardTab from './components/BusinessCardTab';
+import DashboardTab from './components/DashboardTab';
+import CustomDocumentTab from './components/CustomDocumentTab';
+import SettingsPanel from './components/SettingsPanel';
+import { AppSettings, loadSettings, saveSettings } from './services/settings';
+import { InboxDestination, RoutedFile } from './services/inbox';
 
-type Tab = 'invoices' | 'cards';
+type Tab = 'inbox' | 'invoices' | 'cards' | 'documents' | 'dashboard';
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<Tab>('invoices');
+  const [activeTab, setActiveTab] = useState<Tab>('inbox');
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  // Files the inbox has sorted, waiting for their tab to queue them
+  const [routed, setRouted] = useState<Record<InboxDestination, RoutedFile[]>>({ invoices: [], cards: [] });
+
+  const handleSettingsChange = (updated: AppSettings) => {
+    setSettings(updated);
+    saveSettings(updated);
+  };
+
+  const handleRoute = (files: Record<InboxDestination, RoutedFile[]>) => {
+    setRouted(prev => ({ invoices: [...prev.invoices, ...files.invoices], cards: [...prev.cards, ...files.cards] }));
+  };
+
+  const takeRouted = (destination: InboxDestination) => {
+    setRouted(prev => ({ ...prev, [destination]: [] }));
+  };
 
   return (
     <div className="min-h-screen bg-gray-50 text-gray-800 font-sans selection:bg-blue-100 selection:text-blue-900">
@@ -28,6 +51,15 @@ const App: React.FC = () => {
                 A prototype for small businesses. Upload invoices or business cards, and we'll use <strong>Gemini 3</strong> to extract structured data for your records.
               </p>
             </div>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="self-start md:self-center px-3 py-2 rounded-lg text-sm font-medium text-gray-600 border border-gray-200 hover:bg-gray-50 flex items-center gap-2"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 11-3 0m3 0a1.5 1.5 0 10-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-9.75 0h9.75" />
+              </svg>
+              Settings
+            </button>
           </div>
         </div>
       </header>
@@ -37,6 +69,22 @@ const App: React.FC = () => {
         {/* Navigation Tabs */}
         <div className="border-b border-gray-200 mb-8">
           <nav className="-mb-px flex space-x-8" aria-label="Tabs">
+            <button
+              onClick={() => setActiveTab('inbox')}
+              className={`
+                whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2
+                ${activeTab === 'inbox'
+                  ? 'border-gray-800 text-gray-900'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }
+              `}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 13.5h3.86a2.25 2.25 0 012.012 1.244l.256.512a2.25 2.25 0 002.013 1.244h3.218a2.25 2.25 0 002.013-1.244l.256-.512a2.25 2.25 0 012.013-1.244h3.859m-19.5.338V18a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18v-4.162c0-.224-.034-.447-.1-.661L19.24 5.338a2.25 2.25 0 00-2.15-1.588H6.911a2.25 2.25 0 00-2.15 1.588L2.35 13.177a2.25 2.25 0 00-.1.661z" />
+              </svg>
+              Inbox
+            </button>
+
             <button
               onClick={() => setActiveTab('invoices')}
               className={`
@@ -68,15 +116,63 @@ const App: React.FC = () => {
               </svg>
               Business Cards
             </button>
+
+            <button
+              onClick={() => setActiveTab('documents')}
+              className={`
+                whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2
+                ${activeTab === 'documents'
+                  ? 'border-teal-500 text-teal-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }
+              `}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 17.25v3.375c0 .621-.504 1.125-1.125 1.125h-9.75a1.125 1.125 0 01-1.125-1.125V7.875c0-.621.504-1.125 1.125-1.125H6.75a9.06 9.06 0 011.5.124m7.5 10.376h3.375c.621 0 1.125-.504 1.125-1.125V11.25c0-4.46-3.243-8.161-7.5-8.876a9.06 9.06 0 00-1.5-.124H9.375c-.621 0-1.125.504-1.125 1.125v3.5m7.5 10.375H9.375a1.125 1.125 0 01-1.125-1.125v-9.25m12 6.625v-1.875a3.375 3.375 0 00-3.375-3.375h-1.5a1.125 1.125 0 01-1.125-1.125v-1.5a3.375 3.375 0 00-3.375-3.375H9.75" />
+              </svg>
+              Other Documents
+            </button>
+
+            <button
+              onClick={() => setActiveTab('dashboard')}
+              className={`
+                whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center gap-2
+                ${activeTab === 'dashboard'
+                  ? 'border-green-500 text-green-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }
+              `}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 013 19.875v-6.75zM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V8.625zM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V4.125z" />
+              </svg>
+              Dashboard
+            </button>
           </nav>
         </div>
 
-        {/* Content Area */}
-        <div className="animate-fade-in">
-          {activeTab === 'invoices' ? <InvoiceTab /> : <BusinessCardTab />}
+        {/* Content Area: tabs stay mounted so switching keeps their state */}
+        <div className={activeTab === 'inbox' ? 'animate-fade-in' : 'hidden'}>
+          <InboxTab settings={settings} onRoute={handleRoute} />
+        </div>
+        <div className={activeTab === 'invoices' ? 'animate-fade-in' : 'hidden'}>
+          <InvoiceTab settings={settings} incoming={routed.invoices} onIncomingTaken={() => takeRouted('invoices')} />
+        </div>
+        <div className={activeTab === 'cards' ? 'animate-fade-in' : 'hidden'}>
+          <BusinessCardTab settings={settings} incoming={routed.cards} onIncomingTaken={() => takeRouted('cards')} />
+        </div>
+        <div className={activeTab === 'documents' ? 'animate-fade-in' : 'hidden'}>
+          <CustomDocumentTab settings={settings} onSettingsChange={handleSettingsChange} />
+        </div>
+        <div className={activeTab === 'dashboard' ? 'animate-fade-in' : 'hidden'}>
+          <DashboardTab settings={settings} active={activeTab === 'dashboard'} />
         </div>
 
       </main>
+
+      {showSettings && (
+        <SettingsPanel settings={settings} onChange={handleSettingsChange} onClose={() => setShowSettings(false)} />
+      )}
     </div>
   );
 };
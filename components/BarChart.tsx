@@ -0,0 +1,69 @@
+import React from 'react';
+import { SpendBucket } from '../services/spendAnalytics';
+import { formatMoney } from '../services/currency';
+
+interface BarChartProps {
+  buckets: SpendBucket[];
+  currency: string;
+  layout: 'rows' | 'columns'; // Rows for ranked groups, columns for time series
+  limit?: number; // Rows beyond this are summed into "Other"
+}
+
+// Plain CSS bars; enough for a handful of groups without a charting library
+const BarChart: React.FC<BarChartProps> = ({ buckets, currency, layout, limit }) => {
+  if (buckets.length === 0) return <p className="text-sm text-gray-500">No data for these filters.</p>;
+
+  let shown = buckets;
+  if (limit && buckets.length > limit) {
+    const rest = buckets.slice(limit);
+    shown = [
+      ...buckets.slice(0, limit),
+      {
+        key: 'other',
+        label: `Other (${rest.length})`,
+        total: rest.reduce((sum, b) => sum + b.total, 0),
+        tax: rest.reduce((sum, b) => sum + b.tax, 0),
+        count: rest.reduce((sum, b) => sum + b.count, 0),
+      },
+    ];
+  }
+  const max = Math.max(...shown.map(b => Math.abs(b.total)), 1);
+
+  if (layout === 'columns') {
+    return (
+      <div className="flex items-end gap-1 h-40">
+        {shown.map(bucket => (
+          <div
+            key={bucket.key}
+            className="flex-1 min-w-0 flex flex-col items-center justify-end h-full"
+            title={`${bucket.label}: ${formatMoney(bucket.total, currency)} (${bucket.count} invoice${bucket.count === 1 ? '' : 's'})`}
+          >
+            <div
+              className="w-full max-w-[2.5rem] bg-blue-500 rounded-t hover:bg-blue-600"
+              style={{ height: `${(Math.abs(bucket.total) / max) * 100}%` }}
+            />
+            <span className="mt-1 text-[10px] text-gray-500 truncate w-full text-center">{bucket.label}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {shown.map(bucket => (
+        <li key={bucket.key} className="text-sm">
+          <div className="flex justify-between gap-2">
+            <span className="truncate text-gray-700" title={bucket.label}>{bucket.label}</span>
+            <span className="font-mono text-gray-900 whitespace-nowrap">{formatMoney(bucket.total, currency)}</span>
+          </div>
+          <div className="mt-1 h-2 bg-gray-100 rounded">
+            <div className="h-2 bg-blue-500 rounded" style={{ width: `${(Math.abs(bucket.total) / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default BarChart;
@@ -1,80 +1,202 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import UploadArea from './UploadArea';
-import { extractBusinessCardData } from '../services/geminiService';
-import { BusinessCardData, ExtractionStatus } from '../types';
+import QueueProgress from './QueueProgress';
+import DocumentPreview from './DocumentPreview';
+import ContactMergePanel from './ContactMergePanel';
+import CompanyGroups from './CompanyGroups';
+import { extractBusinessCardData } from '../services/extractionService';
+import { createExtractionQueue, ExtractionQueue } from '../services/extractionQueue';
+import { AppSettings } from '../services/settings';
+import { exportContacts, CONTACT_EXPORT_FORMATS, ContactExportFormat } from '../services/contactExport';
+import { downloadFile } from '../services/download';
+import { isLowConfidence, formatConfidence } from '../services/fieldSources';
+import { findContactDuplicates, mergeContacts, MergeChoices } from '../services/contactDedup';
+import { cleanCardDetails, formatAddress, formatCardField, phoneTypeLabel, emailTypeLabel, socialNetworkLabel, withE164 } from '../services/contactDetails';
+import { loadCards, saveCards, deleteCard, clearCards, saveSourceFile, loadSourceFile } from '../services/storage';
+import { RoutedFile } from '../services/inbox';
+import { BusinessCardData, BusinessCardField, ContactMatch, ExtractionJob } from '../types';
 
-const BusinessCardTab: React.FC = () => {
+interface BusinessCardTabProps {
+  settings: AppSettings;
+  incoming: RoutedFile[]; // Sent over from the inbox
+  onIncomingTaken: () => void;
+}
+
+const BusinessCardTab: React.FC<BusinessCardTabProps> = ({ settings, incoming, onIncomingTaken }) => {
   const [files, setFiles] = useState<File[]>([]);
   const [cards, setCards] = useState<BusinessCardData[]>([]);
-  const [status, setStatus] = useState<ExtractionStatus>('idle');
+  const [jobs, setJobs] = useState<ExtractionJob[]>([]);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [copyFeedback, setCopyFeedback] = useState(false);
+  // Card whose scan is shown, with the clicked field outlined
+  const [preview, setPreview] = useState<{ cardId: string; field: BusinessCardField } | null>(null);
+  const [previewFile, setPreviewFile] = useState<Blob | null>(null);
+  const [view, setView] = useState<'contacts' | 'companies'>('contacts');
+
+  // Restore contacts scanned in earlier sessions
+  useEffect(() => {
+    loadCards()
+      .then(stored => setCards(prev => [...stored, ...prev.filter(c => !stored.some(s => s.id === c.id))]))
+      .catch(err => {
+        console.error("Failed to load saved contacts", err);
+        setErrorMsg("Could not load saved contacts from this browser.");
+      });
+  }, []);
 
+  // Adds to what is already waiting, so camera captures and picks can be mixed
   const handleFilesSelected = (selectedFiles: File[]) => {
-    setFiles(selectedFiles);
+    setFiles(prev => [...prev, ...selectedFiles]);
     setErrorMsg(null);
   };
 
-  const processFiles = async () => {
+  useEffect(() => {
+    setPreviewFile(null);
+    if (!preview) return;
+    let cancelled = false;
+    loadSourceFile(preview.cardId)
+      .then(file => { if (!cancelled) setPreviewFile(file); })
+      .catch(err => console.error("Failed to load source file", err));
+    return () => { cancelled = true; };
+  }, [preview?.cardId]);
+
+  // Read through a ref so queued jobs use the settings as they are when the job runs
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  const persist = (changed: BusinessCardData[]) => {
+    saveCards(changed).catch(err => {
+      console.error("Failed to save contacts", err);
+      setErrorMsg("Could not save contacts in this browser. They will be lost on refresh.");
+    });
+  };
+
+  // Extracts one card; failures are thrown so the queue can retry them
+  const extractFile = async (file: File, signal: AbortSignal) => {
+    const data = await extractBusinessCardData(file, signal);
+
+    const card: BusinessCardData = {
+      id: Math.random().toString(36).substr(2, 9),
+      fileName: file.name,
+      extracted_at: new Date().toISOString(),
+      full_name: data.full_name ?? "Unknown",
+      company: data.company ?? null,
+      job_title: data.job_title ?? null,
+      website: data.website ?? null,
+      ...cleanCardDetails(data, settingsRef.current.default_phone_country),
+      field_sources: data.field_sources ?? {},
+      dismissed_duplicates: [],
+    };
+
+    setCards(prev => [...prev, card]);
+    persist([card]);
+    await saveSourceFile(card.id, file).catch(err => console.error("Failed to save source file", err));
+  };
+
+  const queueRef = useRef<ExtractionQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createExtractionQueue(extractFile, setJobs);
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    queue.updateOptions({
+      concurrency: settings.extraction_concurrency,
+      maxRetries: settings.extraction_max_retries,
+    });
+  }, [queue, settings.extraction_concurrency, settings.extraction_max_retries]);
+
+  useEffect(() => {
+    if (incoming.length === 0) return;
+    queue.enqueue(incoming.map(routed => routed.file));
+    onIncomingTaken();
+  }, [queue, incoming]);
+
+  const isProcessing = jobs.some(job => job.status === 'queued' || job.status === 'processing');
+
+  const processFiles = () => {
     if (files.length === 0) {
       setErrorMsg("Please upload at least one business card.");
       return;
     }
 
-    setStatus('processing');
     setErrorMsg(null);
+    queue.enqueue(files);
+    setFiles([]);
+  };
 
-    const newCards: BusinessCardData[] = [];
+  const handleDelete = (id: string) => {
+    setCards(prev => prev.filter(c => c.id !== id));
+    if (preview?.cardId === id) setPreview(null);
+    deleteCard(id).catch(err => console.error("Failed to delete contact", err));
+  };
 
-    for (const file of files) {
-      try {
-        const data = await extractBusinessCardData(file);
-        
-        const card: BusinessCardData = {
-          id: Math.random().toString(36).substr(2, 9),
-          fileName: file.name,
-          full_name: data.full_name ?? "Unknown",
-          company: data.company ?? null,
-          job_title: data.job_title ?? null,
-          email: data.email ?? null,
-          phone: data.phone ?? null,
-          website: data.website ?? null,
-          address: data.address ?? null,
-        };
-        newCards.push(card);
-      } catch (err) {
-        console.error(`Error processing ${file.name}:`, err);
-        newCards.push({
-            id: Math.random().toString(36).substr(2, 9),
-            fileName: file.name,
-            full_name: "Extraction Failed",
-            company: null,
-            job_title: null,
-            email: null,
-            phone: null,
-            website: null,
-            address: null,
-        });
-      }
-    }
+  const handleClearAll = () => {
+    if (!window.confirm("Remove all contacts and their scanned cards from this browser?")) return;
+    setCards([]);
+    clearCards().catch(err => console.error("Failed to clear contacts", err));
+  };
+
+  // Numbers read before a default country was set get their E.164 form once there is one
+  useEffect(() => {
+    const country = settings.default_phone_country;
+    if (!country) return;
+    const updated = cards.flatMap(card => {
+      const phones = withE164(card.phones, country);
+      return phones.some((p, i) => p.e164 !== card.phones[i].e164) ? [{ ...card, phones }] : [];
+    });
+    if (updated.length === 0) return;
+    setCards(prev => prev.map(c => updated.find(u => u.id === c.id) ?? c));
+    persist(updated);
+  }, [settings.default_phone_country, cards]);
 
-    setCards(prev => [...prev, ...newCards]);
-    setFiles([]); 
-    setStatus('success');
+  const duplicates = useMemo(
+    () => findContactDuplicates(cards, settings.default_phone_country),
+    [cards, settings.default_phone_country],
+  );
+
+  // The earlier card keeps its id and scan; the later one is removed
+  const handleMergeContacts = (match: ContactMatch, choices: MergeChoices) => {
+    const original = cards.find(c => c.id === match.originalId);
+    const duplicate = cards.find(c => c.id === match.duplicateId);
+    if (!original || !duplicate) return;
+    const merged = mergeContacts(original, duplicate, choices);
+    setCards(prev => prev.map(c => (c.id === merged.id ? merged : c)));
+    persist([merged]);
+    handleDelete(duplicate.id);
+  };
+
+  const handleKeepBoth = (match: ContactMatch) => {
+    const updated = cards
+      .filter(c => c.id === match.originalId || c.id === match.duplicateId)
+      .map(c => ({
+        ...c,
+        dismissed_duplicates: [...c.dismissed_duplicates, c.id === match.originalId ? match.duplicateId : match.originalId],
+      }));
+    setCards(prev => prev.map(c => updated.find(u => u.id === c.id) ?? c));
+    persist(updated);
   };
 
-  const getGoogleContactsText = () => {
-    if (cards.length === 0) return "";
-    // Header format helps user understand, but often plain text copy is best with just delimiters
-    // Format: Full Name; Company; Job Title; Email; Phone; Website; Address
-    return cards.map(c => {
-      return `${c.full_name || ''}; ${c.company || ''}; ${c.job_title || ''}; ${c.email || ''}; ${c.phone || ''}; ${c.website || ''}; ${c.address || ''}`;
-    }).join('\n');
+  const previewCard = preview ? cards.find(c => c.id === preview.cardId) ?? null : null;
+
+  const fieldProps = (card: BusinessCardData, field: BusinessCardField) => {
+    const source = card.field_sources[field];
+    return {
+      onClick: () => setPreview({ cardId: card.id, field }),
+      title: formatConfidence(source) || undefined,
+      className: `cursor-pointer hover:underline ${
+        isLowConfidence(source) ? 'bg-amber-100 rounded px-1 -mx-1 underline decoration-dotted decoration-amber-600' : ''
+      }`,
+    };
+  };
+
+  const handleExport = (format: ContactExportFormat) => {
+    const { content, fileName, mimeType } = exportContacts(format, cards);
+    downloadFile(content, fileName, mimeType);
   };
 
   const handleCopyToClipboard = () => {
-    const text = getGoogleContactsText();
-    navigator.clipboard.writeText(text).then(() => {
+    const { content } = exportContacts('vcard3', cards);
+    navigator.clipboard.writeText(content).then(() => {
       setCopyFeedback(true);
       setTimeout(() => setCopyFeedback(false), 2000);
     });
@@ -89,29 +211,35 @@ const BusinessCardTab: React.FC = () => {
         <UploadArea 
           label="Drop business card images here" 
           onFilesSelected={handleFilesSelected}
-          disabled={status === 'processing'}
+          preprocessing={settings.image_preprocessing}
+          pending={files}
+          onRemove={(file) => setFiles(prev => prev.filter(f => f !== file))}
+          maxFileMb={settings.max_upload_mb}
+          camera="card"
         />
         
         {files.length > 0 && (
             <div className="mt-4 flex items-center justify-between">
                 <span className="text-sm text-gray-600">
                     {files.length} file{files.length > 1 ? 's' : ''} ready to process.
+                    <button onClick={() => setFiles([])} className="ml-2 text-gray-400 hover:text-red-600">Clear</button>
                 </span>
                 <button
                     onClick={processFiles}
-                    disabled={status === 'processing'}
-                    className={`
-                        px-6 py-2 rounded-lg font-medium text-white shadow-sm transition-all
-                        ${status === 'processing' 
-                            ? 'bg-purple-400 cursor-wait' 
-                            : 'bg-purple-600 hover:bg-purple-700 hover:shadow'
-                        }
-                    `}
+                    className="px-6 py-2 rounded-lg font-medium text-white shadow-sm transition-all bg-purple-600 hover:bg-purple-700 hover:shadow"
                 >
-                    {status === 'processing' ? 'Reading Cards...' : 'Extract Data'}
+                    {isProcessing ? 'Add to Queue' : 'Extract Data'}
                 </button>
             </div>
         )}
+
+        <QueueProgress
+          jobs={jobs}
+          onCancel={queue.cancel}
+          onRetry={queue.retry}
+          onRetryFailed={queue.retryFailed}
+          onClearFinished={queue.clearFinished}
+        />
          {errorMsg && (
             <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md text-sm border border-red-200">
                 {errorMsg}
@@ -119,15 +247,71 @@ const BusinessCardTab: React.FC = () => {
         )}
       </div>
 
+      <ContactMergePanel
+        matches={duplicates}
+        cards={cards}
+        onMerge={handleMergeContacts}
+        onKeepBoth={handleKeepBoth}
+      />
+
+      {/* Scan Preview */}
+      {previewCard && preview && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+                <div>
+                    <h3 className="font-semibold text-gray-800">{previewCard.full_name}</h3>
+                    <p className="text-xs text-gray-500">
+                        {preview.field.replace('_', ' ')}: {formatCardField(previewCard, preview.field) || '-'}
+                        {previewCard.field_sources[preview.field] && ` · ${formatConfidence(previewCard.field_sources[preview.field])}`}
+                    </p>
+                </div>
+                <button onClick={() => setPreview(null)} className="text-sm text-gray-500 hover:text-gray-800 font-medium">
+                    Close
+                </button>
+            </div>
+            <div className="p-4 max-w-2xl mx-auto">
+                <DocumentPreview
+                    file={previewFile}
+                    fileName={previewCard.fileName}
+                    highlight={previewCard.field_sources[preview.field] ?? null}
+                />
+            </div>
+        </div>
+      )}
+
       {/* Results Section */}
       {cards.length > 0 && (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             
             {/* Table View */}
             <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden flex flex-col">
-                 <div className="p-4 border-b border-gray-100 bg-gray-50">
+                 <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center">
                     <h3 className="font-semibold text-gray-800">Extracted Contacts</h3>
+                    <div className="flex items-center gap-4">
+                        <div className="flex rounded-md border border-gray-200 overflow-hidden text-xs font-medium">
+                            {(['contacts', 'companies'] as const).map(v => (
+                                <button
+                                    key={v}
+                                    onClick={() => setView(v)}
+                                    className={`px-3 py-1 capitalize ${view === v ? 'bg-purple-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+                                >
+                                    {v}
+                                </button>
+                            ))}
+                        </div>
+                        <button
+                            onClick={handleClearAll}
+                            className="text-sm text-gray-500 hover:text-red-600 font-medium"
+                        >
+                            Clear all
+                        </button>
+                    </div>
                 </div>
+                {view === 'companies' ? (
+                    <div className="flex-grow">
+                        <CompanyGroups cards={cards} onDelete={handleDelete} />
+                    </div>
+                ) : (
                 <div className="overflow-x-auto flex-grow">
                     <table className="min-w-full divide-y divide-gray-200">
                         <thead className="bg-gray-50">
@@ -135,51 +319,95 @@ const BusinessCardTab: React.FC = () => {
                                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
                                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Company</th>
                                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                                <th className="px-4 py-3"></th>
                             </tr>
                         </thead>
                         <tbody className="bg-white divide-y divide-gray-200">
                             {cards.map((c) => (
                                 <tr key={c.id} className="hover:bg-gray-50">
                                     <td className="px-4 py-3">
-                                        <div className="text-sm font-medium text-gray-900">{c.full_name}</div>
-                                        <div className="text-xs text-gray-500">{c.job_title}</div>
+                                        <div className="text-sm font-medium text-gray-900"><span {...fieldProps(c, 'full_name')}>{c.full_name}</span></div>
+                                        <div className="text-xs text-gray-500"><span {...fieldProps(c, 'job_title')}>{c.job_title}</span></div>
                                     </td>
                                     <td className="px-4 py-3 text-sm text-gray-500">
-                                        {c.company || '-'}
+                                        <span {...fieldProps(c, 'company')}>{c.company || '-'}</span>
+                                        {c.address && (
+                                            <div className="text-xs text-gray-400 mt-1"><span {...fieldProps(c, 'address')}>{formatAddress(c.address)}</span></div>
+                                        )}
                                     </td>
                                     <td className="px-4 py-3 text-sm text-gray-500">
-                                        <div className="text-blue-600">{c.email}</div>
-                                        <div>{c.phone}</div>
+                                        <div {...fieldProps(c, 'emails')}>
+                                            {c.emails.map(email => (
+                                                <div key={email.address} className="text-blue-600" title={emailTypeLabel(email.type)}>{email.address}</div>
+                                            ))}
+                                        </div>
+                                        <div {...fieldProps(c, 'phones')}>
+                                            {c.phones.map((phone, i) => (
+                                                <div key={i} title={phone.e164 ?? 'Country unknown'}>
+                                                    <span className="text-xs text-gray-400">{phoneTypeLabel(phone.type)}</span> {phone.number}
+                                                </div>
+                                            ))}
+                                        </div>
+                                        {c.social_profiles.length > 0 && (
+                                            <div className="flex flex-wrap gap-2 mt-1">
+                                                {c.social_profiles.map(profile => (
+                                                    <a
+                                                        key={profile.url}
+                                                        href={profile.url}
+                                                        target="_blank"
+                                                        rel="noreferrer"
+                                                        className="text-xs text-purple-600 hover:underline"
+                                                    >
+                                                        {socialNetworkLabel(profile.network)}
+                                                    </a>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 text-right">
+                                        <button
+                                            onClick={() => handleDelete(c.id)}
+                                            className="text-gray-400 hover:text-red-600"
+                                            title="Delete contact"
+                                        >
+                                            ✕
+                                        </button>
                                     </td>
                                 </tr>
                             ))}
                         </tbody>
                     </table>
                 </div>
+                )}
             </div>
 
-            {/* Copy Action Panel */}
+            {/* Export Panel */}
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 flex flex-col h-full">
-                <h3 className="font-semibold text-gray-800 mb-2">Google Contacts Format</h3>
+                <h3 className="font-semibold text-gray-800 mb-2">Export Contacts</h3>
                 <p className="text-xs text-gray-500 mb-3">
-                    Copy and paste the text below. One line per contact.
-                    <br />
-                    <span className="italic">Name; Company; Title; Email; Phone; Website; Address</span>
+                    Download all {cards.length} contact{cards.length > 1 ? 's' : ''} as a file your address book can import.
                 </p>
-                <textarea 
-                    readOnly
-                    value={getGoogleContactsText()}
-                    className="w-full flex-grow p-3 text-xs font-mono bg-gray-50 border border-gray-200 rounded-md mb-3 focus:outline-none resize-none h-48"
-                />
+                <div className="space-y-2 flex-grow">
+                    {CONTACT_EXPORT_FORMATS.map(format => (
+                        <button
+                            key={format.id}
+                            onClick={() => handleExport(format.id)}
+                            className="w-full text-left px-3 py-2 rounded-lg border border-gray-200 hover:border-purple-300 hover:bg-purple-50 transition-colors"
+                        >
+                            <div className="text-sm font-medium text-gray-800">{format.label}</div>
+                            <div className="text-xs text-gray-500">{format.description}</div>
+                        </button>
+                    ))}
+                </div>
                 <button
                     onClick={handleCopyToClipboard}
-                    className={`w-full py-2 rounded-lg font-medium text-sm transition-all ${
+                    className={`w-full mt-3 py-2 rounded-lg font-medium text-sm transition-all ${
                         copyFeedback 
                         ? 'bg-green-100 text-green-700 border border-green-200' 
                         : 'bg-gray-800 text-white hover:bg-gray-900'
                     }`}
                 >
-                    {copyFeedback ? 'Copied!' : 'Copy to Clipboard'}
+                    {copyFeedback ? 'Copied!' : 'Copy as vCard'}
                 </button>
             </div>
 
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  CaptureTarget, guideRect, sampleRegion, frameDifference, regionContrast, captureRegion, stitchSides, canvasToFile,
+} from '../services/cameraCapture';
+
+interface CameraCaptureProps {
+  target: CaptureTarget;
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+const SAMPLE_INTERVAL_MS = 200;
+const STEADY_SAMPLES = 5; // About a second without movement
+const STEADY_THRESHOLD = 3; // Mean gray-level change between samples
+const MOTION_THRESHOLD = 12; // Change that counts as the card being swapped
+const MIN_CONTRAST = 18; // Below this the guide shows an empty surface
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ target, onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [doubleSided, setDoubleSided] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [inFrame, setInFrame] = useState(false);
+  const [captured, setCaptured] = useState(0);
+  const [flash, setFlash] = useState(false);
+  const [frontPending, setFrontPending] = useState(false);
+
+  // The sampling loop reads these through refs so toggling options doesn't restart it
+  const frontRef = useRef<HTMLCanvasElement | null>(null);
+  const optionsRef = useRef({ autoCapture, doubleSided, onCapture });
+  optionsRef.current = { autoCapture, doubleSided, onCapture };
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('Camera access is not available in this browser. It needs a secure (https) connection.');
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = media;
+          video.play().catch(err => console.error("Could not start camera preview", err));
+        }
+      })
+      .catch(err => {
+        console.error("Camera access failed", err);
+        setError(err?.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in the browser settings to capture documents.'
+          : 'Could not start the camera.');
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video || video.readyState < 2) return;
+    const frame = captureRegion(video, guideRect(target, video.videoWidth, video.videoHeight));
+    setFlash(true);
+    setTimeout(() => setFlash(false), 150);
+
+    let image = frame;
+    if (target === 'card' && optionsRef.current.doubleSided) {
+      if (!frontRef.current) {
+        frontRef.current = frame;
+        setFrontPending(true);
+        return;
+      }
+      image = stitchSides(frontRef.current, frame);
+      frontRef.current = null;
+      setFrontPending(false);
+    }
+
+    try {
+      optionsRef.current.onCapture(await canvasToFile(image, target));
+      setCaptured(count => count + 1);
+    } catch (err) {
+      console.error("Failed to save captured frame", err);
+      setError('Could not save the captured image.');
+    }
+  };
+
+  // Watches the guide region and fires once the document has been held still;
+  // after a capture it waits for the next document to be put in place
+  useEffect(() => {
+    let previous: Uint8Array | null = null;
+    let steadyCount = 0;
+    let armed = true;
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+      if (!sampleCanvasRef.current) sampleCanvasRef.current = document.createElement('canvas');
+
+      const sample = sampleRegion(video, guideRect(target, video.videoWidth, video.videoHeight), sampleCanvasRef.current);
+      const difference = previous ? frameDifference(previous, sample) : 255;
+      previous = sample;
+      const hasDocument = regionContrast(sample) >= MIN_CONTRAST;
+      setInFrame(hasDocument);
+
+      if (!armed) {
+        if (difference > MOTION_THRESHOLD || !hasDocument) armed = true;
+        return;
+      }
+
+      steadyCount = hasDocument && difference < STEADY_THRESHOLD ? steadyCount + 1 : 0;
+      setProgress(optionsRef.current.autoCapture ? Math.min(1, steadyCount / STEADY_SAMPLES) : 0);
+      if (optionsRef.current.autoCapture && steadyCount >= STEADY_SAMPLES) {
+        steadyCount = 0;
+        armed = false;
+        setProgress(0);
+        capture();
+      }
+    }, SAMPLE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [target]);
+
+  const guide = videoSize ? guideRect(target, videoSize.width, videoSize.height) : null;
+  const outline = progress >= 1 || flash ? 'border-green-400' : inFrame ? 'border-amber-300' : 'border-white/70';
+  const hint =
+    frontPending ? 'Front captured. Flip the card and hold it in the frame.' :
+    !inFrame ? `Place the ${target === 'card' ? 'card' : 'receipt'} inside the frame` :
+    autoCapture ? 'Hold still…' :
+    'Press the shutter to capture';
+
+  return (
+    <div className="fixed inset-0 z-30 flex flex-col items-center justify-center bg-black/90 p-4">
+      <div className="w-full max-w-3xl flex justify-between items-center mb-3 text-white">
+        <span className="text-sm">{captured} captured</span>
+        <button onClick={onClose} className="text-sm font-medium hover:text-gray-300">Done</button>
+      </div>
+
+      {error ? (
+        <div className="w-full max-w-3xl p-4 rounded-lg bg-red-50 text-red-700 text-sm border border-red-200">{error}</div>
+      ) : (
+        <div className="relative w-full max-w-3xl">
+          <video
+            ref={videoRef}
+            playsInline
+            muted
+            onLoadedMetadata={(e) => setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
+            className="w-full h-auto rounded-lg bg-black"
+          />
+          {guide && (
+            <div
+              className={`absolute border-4 rounded-lg pointer-events-none transition-colors ${outline} ${flash ? 'bg-white/40' : ''}`}
+              style={{
+                left: `${guide.x * 100}%`,
+                top: `${guide.y * 100}%`,
+                width: `${guide.width * 100}%`,
+                height: `${guide.height * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.35)',
+              }}
+            >
+              {progress > 0 && (
+                <div className="absolute bottom-0 left-0 h-1 bg-green-400 transition-all" style={{ width: `${progress * 100}%` }} />
+              )}
+            </div>
+          )}
+          <p className="absolute top-3 inset-x-0 text-center text-sm text-white drop-shadow">{hint}</p>
+        </div>
+      )}
+
+      <div className="w-full max-w-3xl mt-4 flex items-center justify-between text-white text-sm">
+        <div className="flex flex-col gap-1">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={autoCapture} onChange={(e) => setAutoCapture(e.target.checked)} />
+            Capture automatically
+          </label>
+          {target === 'card' && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={doubleSided}
+                onChange={(e) => {
+                  setDoubleSided(e.target.checked);
+                  frontRef.current = null;
+                  setFrontPending(false);
+                }}
+              />
+              Double-sided cards
+            </label>
+          )}
+        </div>
+        <button
+          onClick={capture}
+          disabled={!!error}
+          className="w-16 h-16 rounded-full border-4 border-white bg-white/20 hover:bg-white/40 disabled:opacity-40"
+          title={frontPending ? 'Capture back' : 'Capture'}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,196 @@
+import React from 'react';
+import { AppSettings } from '../services/settings';
+import { ruleProblem } from '../services/categorization';
+import { CategoryRule, CategoryRuleTarget, ExpenseCategory, LedgerAccount } from '../types';
+
+interface CategorySettingsProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+// Chart of accounts, expense categories and the rules that assign them
+const CategorySettings: React.FC<CategorySettingsProps> = ({ settings, onChange }) => {
+  const { ledger_accounts: accounts, expense_categories: categories, category_rules: rules } = settings;
+
+  const updateAccount = (index: number, patch: Partial<LedgerAccount>) => {
+    const previous = accounts[index];
+    onChange({
+      ...settings,
+      ledger_accounts: accounts.map((account, i) => (i === index ? { ...account, ...patch } : account)),
+      // Categories follow their account when its code is edited
+      expense_categories: patch.code === undefined ? categories : categories.map(c =>
+        c.account_code === previous.code ? { ...c, account_code: patch.code ?? null } : c,
+      ),
+    });
+  };
+
+  const updateCategory = (index: number, patch: Partial<ExpenseCategory>) => {
+    const previous = categories[index];
+    onChange({
+      ...settings,
+      expense_categories: categories.map((category, i) => (i === index ? { ...category, ...patch } : category)),
+      // Renaming a category keeps the rules that assign it
+      category_rules: patch.name === undefined ? rules : rules.map(rule =>
+        rule.category === previous.name ? { ...rule, category: patch.name ?? '' } : rule,
+      ),
+    });
+  };
+
+  const updateRule = (index: number, patch: Partial<CategoryRule>) => {
+    onChange({ ...settings, category_rules: rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+  };
+
+  const addRule = () => {
+    onChange({
+      ...settings,
+      category_rules: [...rules, { target: 'description', pattern: '', is_regex: false, category: categories[0]?.name ?? '' }],
+    });
+  };
+
+  return (
+    <section>
+      <h4 className="text-sm font-semibold text-gray-700">Categories and accounts</h4>
+      <p className="text-xs text-gray-500 mb-3">
+        Line items are categorized by the first matching rule, then by the supplier's default category.
+        Each category is exported with the ledger account it maps to.
+      </p>
+
+      <h5 className="text-xs font-medium text-gray-600 mb-1">Chart of accounts</h5>
+      <div className="space-y-2">
+        {accounts.map((account, idx) => (
+          <div key={idx} className="flex items-center gap-2">
+            <input
+              value={account.code}
+              onChange={(e) => updateAccount(idx, { code: e.target.value })}
+              placeholder="Code"
+              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm font-mono"
+            />
+            <input
+              value={account.name}
+              onChange={(e) => updateAccount(idx, { name: e.target.value })}
+              placeholder="Account name"
+              className="flex-grow px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            <button
+              onClick={() => onChange({ ...settings, ledger_accounts: accounts.filter((_, i) => i !== idx) })}
+              className="text-gray-400 hover:text-red-600"
+              title="Remove account"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => onChange({ ...settings, ledger_accounts: [...accounts, { code: '', name: '' }] })}
+        className="mt-2 text-xs text-blue-600 hover:text-blue-800 font-medium"
+      >
+        + Add account
+      </button>
+
+      <h5 className="text-xs font-medium text-gray-600 mt-4 mb-1">Categories</h5>
+      <div className="space-y-2">
+        {categories.map((category, idx) => (
+          <div key={idx} className="flex items-center gap-2">
+            <input
+              value={category.name}
+              onChange={(e) => updateCategory(idx, { name: e.target.value })}
+              className="flex-grow px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            <select
+              value={category.account_code ?? ''}
+              onChange={(e) => updateCategory(idx, { account_code: e.target.value || null })}
+              className="w-48 px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              <option value="">No account</option>
+              {accounts.map(account => (
+                <option key={account.code} value={account.code}>{account.code} {account.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange({ ...settings, expense_categories: categories.filter((_, i) => i !== idx) })}
+              className="text-gray-400 hover:text-red-600"
+              title="Remove category"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => onChange({ ...settings, expense_categories: [...categories, { name: 'New category', account_code: null }] })}
+        className="mt-2 text-xs text-blue-600 hover:text-blue-800 font-medium"
+      >
+        + Add category
+      </button>
+
+      <h5 className="text-xs font-medium text-gray-600 mt-4 mb-1">Rules</h5>
+      <div className="space-y-2">
+        {rules.map((rule, idx) => {
+          const problem = ruleProblem(rule);
+          return (
+            <div key={idx} className="flex items-center gap-2">
+              <select
+                value={rule.target}
+                onChange={(e) => updateRule(idx, { target: e.target.value as CategoryRuleTarget })}
+                className="w-28 px-1 py-1 border border-gray-300 rounded text-sm bg-white"
+              >
+                <option value="description">Description</option>
+                <option value="supplier">Supplier</option>
+              </select>
+              <input
+                value={rule.pattern}
+                onChange={(e) => updateRule(idx, { pattern: e.target.value })}
+                placeholder={rule.is_regex ? 'Regular expression' : 'Keyword'}
+                title={problem ?? undefined}
+                className={`flex-grow min-w-0 px-2 py-1 border rounded text-sm font-mono ${problem ? 'border-red-300 bg-red-50' : 'border-gray-300'}`}
+              />
+              <label className="flex items-center gap-1 text-xs text-gray-500" title="Treat the pattern as a regular expression">
+                <input
+                  type="checkbox"
+                  checked={rule.is_regex}
+                  onChange={(e) => updateRule(idx, { is_regex: e.target.checked })}
+                />
+                .*
+              </label>
+              <span className="text-xs text-gray-400">→</span>
+              <select
+                value={rule.category}
+                onChange={(e) => updateRule(idx, { category: e.target.value })}
+                className="w-32 px-1 py-1 border border-gray-300 rounded text-sm bg-white"
+              >
+                {categories.map(category => <option key={category.name} value={category.name}>{category.name}</option>)}
+                {!categories.some(c => c.name === rule.category) && <option value={rule.category}>{rule.category || '-'}</option>}
+              </select>
+              <button
+                onClick={() => onChange({ ...settings, category_rules: rules.filter((_, i) => i !== idx) })}
+                className="text-gray-400 hover:text-red-600"
+                title="Remove rule"
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <button onClick={addRule} className="mt-2 text-xs text-blue-600 hover:text-blue-800 font-medium">+ Add rule</button>
+
+      <label className="mt-3 flex items-start gap-2 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={settings.suggest_categories}
+          onChange={(e) => onChange({ ...settings, suggest_categories: e.target.checked })}
+          className="mt-0.5"
+        />
+        <span>
+          <span className="font-medium">Suggest categories with the model</span>
+          <span className="block text-gray-500">
+            Lines no rule covers are sent to the model after extraction. Suggestions are highlighted for review.
+          </span>
+        </span>
+      </label>
+    </section>
+  );
+};
+
+export default CategorySettings;
@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { BusinessCardData } from '../types';
+import { groupByCompany } from '../services/contactDedup';
+import { primaryEmail, primaryPhone } from '../services/contactDetails';
+
+interface CompanyGroupsProps {
+  cards: BusinessCardData[];
+  onDelete: (id: string) => void;
+}
+
+// Contacts grouped under the company they work for
+const CompanyGroups: React.FC<CompanyGroupsProps> = ({ cards, onDelete }) => {
+  const groups = useMemo(() => groupByCompany(cards), [cards]);
+
+  return (
+    <div className="divide-y divide-gray-200">
+      {groups.map(group => (
+        <div key={group.key}>
+          <div className="px-4 py-2 bg-gray-50 flex justify-between items-baseline">
+            <span className={`text-sm font-semibold ${group.key ? 'text-gray-800' : 'text-gray-500 italic'}`}>{group.name}</span>
+            <span className="text-xs text-gray-500">
+              {group.contacts.length} contact{group.contacts.length === 1 ? '' : 's'}
+            </span>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {group.contacts.map(c => (
+              <li key={c.id} className="px-4 py-2 flex items-center justify-between gap-3 hover:bg-gray-50">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">
+                    {c.full_name}
+                    {c.job_title && <span className="ml-2 text-xs font-normal text-gray-500">{c.job_title}</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {[primaryEmail(c), primaryPhone(c)?.number].filter(Boolean).join(' · ')}
+                  </div>
+                </div>
+                <button onClick={() => onDelete(c.id)} className="text-gray-400 hover:text-red-600" title="Delete contact">
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CompanyGroups;
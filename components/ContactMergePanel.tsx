@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { BusinessCardData, ContactMatch } from '../types';
+import { CONTACT_FIELDS, LIST_FIELDS, defaultMergeChoices, MergeChoices } from '../services/contactDedup';
+import { formatCardField, primaryEmail, primaryPhone } from '../services/contactDetails';
+
+interface ContactMergePanelProps {
+  matches: ContactMatch[];
+  cards: BusinessCardData[];
+  onMerge: (match: ContactMatch, choices: MergeChoices) => void;
+  onKeepBoth: (match: ContactMatch) => void;
+}
+
+const describe = (card: BusinessCardData | undefined) =>
+  card ? [card.full_name || 'Unknown', card.company, primaryEmail(card) || primaryPhone(card)?.number].filter(Boolean).join(' · ') : '';
+
+const ContactMergePanel: React.FC<ContactMergePanelProps> = ({ matches, cards, onMerge, onKeepBoth }) => {
+  // The pair being merged and which card each field is taken from
+  const [open, setOpen] = useState<{ key: string; choices: MergeChoices } | null>(null);
+
+  if (matches.length === 0) return null;
+
+  const byId = (id: string) => cards.find(c => c.id === id);
+  const keyOf = (match: ContactMatch) => `${match.originalId}-${match.duplicateId}`;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-orange-200 overflow-hidden">
+      <div className="p-4 border-b border-orange-100 bg-orange-50">
+        <h3 className="font-semibold text-orange-800">Possible Duplicate Contacts ({matches.length})</h3>
+        <p className="text-xs text-orange-700 mt-1">
+          Merge cards for the same person so the address book gets a single entry.
+        </p>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {matches.map(match => {
+          const original = byId(match.originalId);
+          const duplicate = byId(match.duplicateId);
+          if (!original || !duplicate) return null;
+          const isOpen = open?.key === keyOf(match);
+          return (
+            <li key={keyOf(match)} className="p-4">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div className="text-sm min-w-0">
+                  <div className="font-medium text-gray-900 truncate">
+                    {describe(duplicate)}
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-700">
+                      {Math.round(match.score * 100)}% match
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 truncate mt-1">
+                    Matches <span className="font-medium text-gray-700">{describe(original)}</span> ({match.reasons.join(', ')})
+                  </div>
+                </div>
+                {!isOpen && (
+                  <div className="flex items-center gap-3 shrink-0 text-xs font-medium">
+                    <button
+                      onClick={() => setOpen({ key: keyOf(match), choices: defaultMergeChoices(original, duplicate) })}
+                      className="text-blue-600 hover:text-blue-800"
+                      title="Choose which card each field is kept from"
+                    >
+                      Merge…
+                    </button>
+                    <button onClick={() => onKeepBoth(match)} className="text-gray-600 hover:text-gray-900" title="These are different people">
+                      Keep both
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {isOpen && (
+                <div className="mt-3 border border-gray-200 rounded-lg overflow-hidden">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr className="text-xs text-gray-500 uppercase">
+                        <th className="px-3 py-2 text-left font-medium">Field</th>
+                        <th className="px-3 py-2 text-left font-medium truncate" title={original.fileName}>{original.fileName}</th>
+                        <th className="px-3 py-2 text-left font-medium truncate" title={duplicate.fileName}>{duplicate.fileName}</th>
+                        <th className="px-3 py-2 text-left font-medium">Combine</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {CONTACT_FIELDS.filter(field => formatCardField(original, field) || formatCardField(duplicate, field)).map(field => (
+                        <tr key={field}>
+                          <td className="px-3 py-2 text-xs text-gray-500 capitalize">{field.replace('_', ' ')}</td>
+                          {(['primary', 'secondary'] as const).map(side => {
+                            const value = formatCardField(side === 'primary' ? original : duplicate, field);
+                            return (
+                              <td key={side} className="px-3 py-2">
+                                <label className="flex items-start gap-2 cursor-pointer">
+                                  <input
+                                    type="radio"
+                                    name={`${keyOf(match)}-${field}`}
+                                    checked={open.choices[field] === side}
+                                    onChange={() => setOpen({ ...open, choices: { ...open.choices, [field]: side } })}
+                                    className="mt-0.5 text-blue-600 focus:ring-blue-500"
+                                  />
+                                  <span className={`break-all ${value ? 'text-gray-800' : 'text-gray-400 italic'}`}>{value || 'empty'}</span>
+                                </label>
+                              </td>
+                            );
+                          })}
+                          <td className="px-3 py-2">
+                            {(LIST_FIELDS as readonly string[]).includes(field) && (
+                              <input
+                                type="radio"
+                                name={`${keyOf(match)}-${field}`}
+                                checked={open.choices[field] === 'both'}
+                                onChange={() => setOpen({ ...open, choices: { ...open.choices, [field]: 'both' } })}
+                                className="text-blue-600 focus:ring-blue-500"
+                                title="Keep the entries from both cards"
+                              />
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="p-3 bg-gray-50 flex justify-end gap-3 text-xs font-medium">
+                    <button onClick={() => setOpen(null)} className="text-gray-500 hover:text-gray-800">
+                      Cancel
+                    </button>
+                    <button onClick={() => { onKeepBoth(match); setOpen(null); }} className="text-gray-600 hover:text-gray-900">
+                      Keep both
+                    </button>
+                    <button
+                      onClick={() => { onMerge(match, open.choices); setOpen(null); }}
+                      className="px-3 py-1.5 rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                    >
+                      Merge into one contact
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ContactMergePanel;
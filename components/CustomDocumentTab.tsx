@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import UploadArea from './UploadArea';
+import QueueProgress from './QueueProgress';
+import ExportMenu from './ExportMenu';
+import DocumentTypeBuilder from './DocumentTypeBuilder';
+import { extractCustomDocument } from '../services/extractionService';
+import { createExtractionQueue, ExtractionQueue } from '../services/extractionQueue';
+import { AppSettings } from '../services/settings';
+import {
+  documentExportFormats, exportDocuments, formatValue, missingRequired, invalidDates, definitionProblems, DocumentExportFormat,
+} from '../services/documentTypes';
+import { downloadFile } from '../services/download';
+import { loadDocuments, saveDocuments, deleteDocuments, saveSourceFile } from '../services/storage';
+import { CustomDocument, CustomScalarValue, DocumentTypeDefinition, ExtractionJob } from '../types';
+
+interface CustomDocumentTabProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+}
+
+// Extraction for document types the user defines themselves
+const CustomDocumentTab: React.FC<CustomDocumentTabProps> = ({ settings, onSettingsChange }) => {
+  const types = settings.document_types;
+  const [typeId, setTypeId] = useState<string | null>(types[0]?.id ?? null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [documents, setDocuments] = useState<CustomDocument[]>([]);
+  const [jobs, setJobs] = useState<ExtractionJob[]>([]);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [showBuilder, setShowBuilder] = useState(types.length === 0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const definition = types.find(t => t.id === typeId) ?? null;
+
+  // Keep a valid selection when types are added or deleted
+  useEffect(() => {
+    if (!definition && types.length > 0) setTypeId(types[0].id);
+  }, [definition, types]);
+
+  useEffect(() => {
+    loadDocuments()
+      .then(stored => setDocuments(prev => [...stored, ...prev.filter(d => !stored.some(s => s.id === d.id))]))
+      .catch(err => {
+        console.error("Failed to load saved documents", err);
+        setErrorMsg("Could not load saved documents from this browser.");
+      });
+  }, []);
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // The type chosen when each file was queued, so switching types doesn't affect waiting jobs
+  const queuedTypes = useRef(new WeakMap<File, string>());
+
+  const extractFile = async (file: File, signal: AbortSignal) => {
+    const queuedType = settingsRef.current.document_types.find(t => t.id === queuedTypes.current.get(file));
+    if (!queuedType) throw new Error("The document type for this file was deleted");
+    const values = await extractCustomDocument(file, queuedType, signal);
+
+    const doc: CustomDocument = {
+      id: Math.random().toString(36).substr(2, 9),
+      fileName: file.name,
+      extracted_at: new Date().toISOString(),
+      type_id: queuedType.id,
+      values,
+    };
+
+    setDocuments(prev => [...prev, doc]);
+    saveDocuments([doc]).catch(err => {
+      console.error("Failed to save document", err);
+      setErrorMsg("Could not save documents in this browser. They will be lost on refresh.");
+    });
+    await saveSourceFile(doc.id, file).catch(err => console.error("Failed to save source file", err));
+  };
+
+  const queueRef = useRef<ExtractionQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createExtractionQueue(extractFile, setJobs);
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    queue.updateOptions({
+      concurrency: settings.extraction_concurrency,
+      maxRetries: settings.extraction_max_retries,
+    });
+  }, [queue, settings.extraction_concurrency, settings.extraction_max_retries]);
+
+  const isProcessing = jobs.some(job => job.status === 'queued' || job.status === 'processing');
+
+  const processFiles = () => {
+    if (!definition) {
+      setErrorMsg("Create a document type first.");
+      return;
+    }
+    const problems = definitionProblems(definition);
+    if (problems.length > 0) {
+      setErrorMsg(`Fix the "${definition.name}" document type first: ${problems[0]}`);
+      return;
+    }
+    if (files.length === 0) {
+      setErrorMsg("Please upload at least one document.");
+      return;
+    }
+    setErrorMsg(null);
+    files.forEach(file => queuedTypes.current.set(file, definition.id));
+    queue.enqueue(files);
+    setFiles([]);
+  };
+
+  const handleTypesChange = (updated: DocumentTypeDefinition[]) => {
+    onSettingsChange({ ...settings, document_types: updated });
+  };
+
+  const typeDocuments = useMemo(
+    () => documents.filter(d => d.type_id === typeId),
+    [documents, typeId],
+  );
+
+  const handleDelete = (ids: string[]) => {
+    setDocuments(prev => prev.filter(d => !ids.includes(d.id)));
+    deleteDocuments(ids).catch(err => console.error("Failed to delete documents", err));
+  };
+
+  const handleClearAll = () => {
+    if (!definition || !window.confirm(`Remove all ${definition.name} documents and their files from this browser?`)) return;
+    handleDelete(typeDocuments.map(d => d.id));
+  };
+
+  const handleExport = (format: DocumentExportFormat) => {
+    if (!definition) return;
+    const { content, fileName, mimeType } = exportDocuments(format, definition, typeDocuments);
+    downloadFile(content, fileName, mimeType);
+  };
+
+  const scalarFields = definition?.fields.filter(f => f.type !== 'array') ?? [];
+  const listFields = definition?.fields.filter(f => f.type === 'array') ?? [];
+
+  return (
+    <div className="space-y-6">
+
+      {showBuilder && (
+        <DocumentTypeBuilder
+          types={types}
+          selectedId={typeId}
+          onSelect={setTypeId}
+          onChange={handleTypesChange}
+          onClose={() => setShowBuilder(false)}
+        />
+      )}
+
+      {/* Upload Section */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className="text-lg font-semibold text-gray-800">Upload Other Documents</h2>
+          <div className="flex items-center gap-3">
+            <select
+              value={typeId ?? ''}
+              onChange={(e) => setTypeId(e.target.value || null)}
+              disabled={types.length === 0}
+              className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              {types.length === 0 && <option value="">No document types yet</option>}
+              {types.map(t => (
+                <option key={t.id} value={t.id}>{t.name || 'Untitled'}</option>
+              ))}
+            </select>
+            {!showBuilder && (
+              <button onClick={() => setShowBuilder(true)} className="text-sm text-teal-600 hover:text-teal-800 font-medium">
+                Edit types
+              </button>
+            )}
+          </div>
+        </div>
+        <UploadArea
+          label={definition ? `Drop ${definition.name} files here` : 'Drop documents here'}
+          onFilesSelected={(selected) => { setFiles(prev => [...prev, ...selected]); setErrorMsg(null); }}
+          preprocessing={settings.image_preprocessing}
+          pending={files}
+          onRemove={(file) => setFiles(prev => prev.filter(f => f !== file))}
+          maxFileMb={settings.max_upload_mb}
+        />
+
+        {files.length > 0 && (
+            <div className="mt-4 flex items-center justify-between">
+                <span className="text-sm text-gray-600">
+                    {files.length} file{files.length > 1 ? 's' : ''} ready to process.
+                    <button onClick={() => setFiles([])} className="ml-2 text-gray-400 hover:text-red-600">Clear</button>
+                </span>
+                <button
+                    onClick={processFiles}
+                    className="px-6 py-2 rounded-lg font-medium text-white shadow-sm transition-all bg-teal-600 hover:bg-teal-700 hover:shadow"
+                >
+                    {isProcessing ? 'Add to Queue' : 'Extract Data'}
+                </button>
+            </div>
+        )}
+
+        <QueueProgress
+          jobs={jobs}
+          onCancel={queue.cancel}
+          onRetry={queue.retry}
+          onRetryFailed={queue.retryFailed}
+          onClearFinished={queue.clearFinished}
+        />
+        {errorMsg && (
+            <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md text-sm border border-red-200">
+                {errorMsg}
+            </div>
+        )}
+      </div>
+
+      {/* Results Section */}
+      {definition && typeDocuments.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center">
+                <h3 className="font-semibold text-gray-800">{definition.name} ({typeDocuments.length})</h3>
+                <div className="flex items-center gap-4">
+                    <ExportMenu
+                        options={documentExportFormats(definition)}
+                        onExport={handleExport}
+                        label="Export"
+                        accent="teal"
+                    />
+                    <button onClick={handleClearAll} className="text-sm text-gray-500 hover:text-red-600 font-medium">
+                        Clear all
+                    </button>
+                </div>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                            {[...scalarFields, ...listFields].map(f => (
+                                <th key={f.key} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                                    {f.label}{f.required && <span className="text-red-400">*</span>}
+                                </th>
+                            ))}
+                            <th className="px-4 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {typeDocuments.map(doc => {
+                            const missing = missingRequired(definition, doc.values);
+                            const badDates = invalidDates(definition, doc.values);
+                            const openList = expanded?.startsWith(`${doc.id}:`) ? expanded.slice(doc.id.length + 1) : null;
+                            const openField = listFields.find(f => f.key === openList);
+                            const items = openField ? (doc.values[openField.key] ?? []) as Record<string, CustomScalarValue>[] : [];
+                            return (
+                                <React.Fragment key={doc.id}>
+                                    <tr className="hover:bg-gray-50 align-top">
+                                        <td className="px-4 py-3 text-sm text-gray-700">
+                                            <div className="max-w-[12rem] truncate" title={doc.fileName}>{doc.fileName}</div>
+                                            {missing.length > 0 && (
+                                                <div className="text-xs text-red-600">Missing: {missing.join(', ')}</div>
+                                            )}
+                                            {badDates.length > 0 && (
+                                                <div className="text-xs text-amber-600">Unreadable date: {badDates.join(', ')}</div>
+                                            )}
+                                        </td>
+                                        {scalarFields.map(f => (
+                                            <td key={f.key} className={`px-4 py-3 text-sm text-gray-700 ${f.type === 'number' || f.type === 'integer' ? 'text-right tabular-nums' : ''}`}>
+                                                {formatValue(doc.values[f.key]) || <span className="text-gray-300">-</span>}
+                                            </td>
+                                        ))}
+                                        {listFields.map(f => (
+                                            <td key={f.key} className="px-4 py-3 text-sm">
+                                                <button
+                                                    onClick={() => setExpanded(openList === f.key ? null : `${doc.id}:${f.key}`)}
+                                                    className="text-teal-600 hover:text-teal-800 whitespace-nowrap"
+                                                >
+                                                    {formatValue(doc.values[f.key] ?? [])} {openList === f.key ? '▴' : '▾'}
+                                                </button>
+                                            </td>
+                                        ))}
+                                        <td className="px-4 py-3 text-right">
+                                            <button onClick={() => handleDelete([doc.id])} className="text-gray-400 hover:text-red-600" title="Delete document">
+                                                ✕
+                                            </button>
+                                        </td>
+                                    </tr>
+                                    {openField && (
+                                        <tr>
+                                            <td colSpan={scalarFields.length + listFields.length + 2} className="px-4 py-3 bg-gray-50">
+                                                {items.length === 0 ? (
+                                                    <p className="text-xs text-gray-500">No {openField.label.toLowerCase()} found.</p>
+                                                ) : (
+                                                    <table className="min-w-full text-xs">
+                                                        <thead>
+                                                            <tr>
+                                                                {openField.fields.map(item => (
+                                                                    <th key={item.key} className="px-2 py-1 text-left font-medium text-gray-500">{item.label}</th>
+                                                                ))}
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody className="divide-y divide-gray-200">
+                                                            {items.map((item, i) => (
+                                                                <tr key={i}>
+                                                                    {openField.fields.map(itemField => (
+                                                                        <td key={itemField.key} className="px-2 py-1 text-gray-700">{formatValue(item[itemField.key])}</td>
+                                                                    ))}
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomDocumentTab;
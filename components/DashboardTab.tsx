@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import BarChart from './BarChart';
+import { AppSettings } from '../services/settings';
+import { loadInvoices, loadSuppliers } from '../services/storage';
+import { buildSpendSummary, spendSummaryCsv, supplierKey, supplierLabel, SpendBucket, SpendFilters } from '../services/spendAnalytics';
+import { FxSettings } from '../services/fxRates';
+import { formatMoney } from '../services/currency';
+import { downloadFile } from '../services/download';
+import { InvoiceData, Supplier } from '../types';
+
+interface DashboardTabProps {
+  settings: AppSettings;
+  active: boolean; // Data is reloaded each time the tab is opened
+}
+
+const EMPTY_FILTERS: SpendFilters = { from: null, to: null, supplier: null, approvedOnly: false };
+
+const DashboardTab: React.FC<DashboardTabProps> = ({ settings, active }) => {
+  const [invoices, setInvoices] = useState<InvoiceData[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [filters, setFilters] = useState<SpendFilters>(EMPTY_FILTERS);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  // The invoice tab saves every change, so storage is the shared source of truth
+  useEffect(() => {
+    if (!active) return;
+    Promise.all([loadInvoices(), loadSuppliers()])
+      .then(([storedInvoices, storedSuppliers]) => {
+        setInvoices(storedInvoices);
+        setSuppliers(storedSuppliers);
+        setErrorMsg(null);
+      })
+      .catch(err => {
+        console.error("Failed to load dashboard data", err);
+        setErrorMsg("Could not load saved invoices from this browser.");
+      });
+  }, [active]);
+
+  const fx: FxSettings = useMemo(
+    () => ({ base_currency: settings.base_currency, fx_rates: settings.fx_rates }),
+    [settings.base_currency, settings.fx_rates],
+  );
+
+  const summary = useMemo(() => buildSpendSummary(invoices, suppliers, filters, fx), [invoices, suppliers, filters, fx]);
+
+  const supplierOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    invoices.forEach(inv => options.set(supplierKey(inv), supplierLabel(inv, suppliers)));
+    return [...options.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [invoices, suppliers]);
+
+  const money = (amount: number) => formatMoney(amount, summary.currency);
+
+  const handleDownload = () => {
+    downloadFile(spendSummaryCsv(summary, filters), 'spend_summary.csv', 'text/csv;charset=utf-8');
+  };
+
+  const renderTable = (buckets: SpendBucket[], heading: string) => (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-xs text-gray-500 uppercase border-b border-gray-100">
+          <th className="text-left font-medium py-2">{heading}</th>
+          <th className="text-right font-medium py-2">Invoices</th>
+          <th className="text-right font-medium py-2">Net</th>
+          <th className="text-right font-medium py-2">Tax</th>
+          <th className="text-right font-medium py-2">Total</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {buckets.map(bucket => (
+          <tr key={bucket.key}>
+            <td className="py-2 text-gray-800">{bucket.label}</td>
+            <td className="py-2 text-right text-gray-500">{bucket.count}</td>
+            <td className="py-2 text-right font-mono">{money(bucket.total - bucket.tax)}</td>
+            <td className="py-2 text-right font-mono">{money(bucket.tax)}</td>
+            <td className="py-2 text-right font-mono">{money(bucket.total)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const card = (title: string, content: React.ReactNode) => (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+      <h3 className="font-semibold text-gray-800 mb-3">{title}</h3>
+      {content}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 flex flex-wrap items-end gap-4 text-sm text-gray-600">
+        <label className="flex flex-col text-xs font-medium">
+          From
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value || null }))}
+            className="mt-1 px-2 py-1 border border-gray-300 rounded-md text-sm font-normal"
+          />
+        </label>
+        <label className="flex flex-col text-xs font-medium">
+          To
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value || null }))}
+            className="mt-1 px-2 py-1 border border-gray-300 rounded-md text-sm font-normal"
+          />
+        </label>
+        <label className="flex flex-col text-xs font-medium">
+          Supplier
+          <select
+            value={filters.supplier ?? ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, supplier: e.target.value || null }))}
+            className="mt-1 w-48 px-2 py-1 border border-gray-300 rounded-md text-sm font-normal bg-white"
+          >
+            <option value="">All suppliers</option>
+            {supplierOptions.map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer select-none pb-1">
+          <input
+            type="checkbox"
+            checked={filters.approvedOnly}
+            onChange={(e) => setFilters(prev => ({ ...prev, approvedOnly: e.target.checked }))}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Approved only
+        </label>
+        <div className="flex-grow" />
+        <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-sm text-gray-500 hover:text-gray-800 font-medium pb-1">
+          Reset
+        </button>
+        <button
+          onClick={handleDownload}
+          disabled={summary.invoice_count === 0}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-white shadow-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          Download CSV
+        </button>
+      </div>
+
+      {errorMsg && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm border border-red-200">{errorMsg}</div>
+      )}
+
+      {/* Headline figures */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Invoices', value: String(summary.invoice_count) },
+          { label: 'Total spend', value: money(summary.total) },
+          { label: 'Tax', value: money(summary.tax) },
+          { label: 'Suppliers', value: String(summary.by_supplier.length) },
+        ].map(({ label, value }) => (
+          <div key={label} className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+            <p className="text-xs text-gray-500 uppercase tracking-wider">{label}</p>
+            <p className="mt-1 text-xl font-semibold text-gray-900 font-mono">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      {summary.unconverted.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800">
+          {summary.unconverted.length} invoice{summary.unconverted.length === 1 ? ' is' : 's are'} left out because
+          there is no exchange rate into {summary.currency}. Import rates in Settings to include them.
+        </div>
+      )}
+
+      {card('Spend by month', <BarChart buckets={summary.by_month} currency={summary.currency} layout="columns" />)}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {card('By supplier', <BarChart buckets={summary.by_supplier} currency={summary.currency} layout="rows" limit={8} />)}
+        {card('By category', <BarChart buckets={summary.by_category} currency={summary.currency} layout="rows" limit={8} />)}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {card('Tax by quarter', summary.tax_by_quarter.length > 0
+          ? renderTable(summary.tax_by_quarter, 'Quarter')
+          : <p className="text-sm text-gray-500">No dated invoices.</p>)}
+        {card('By currency', (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase border-b border-gray-100">
+                <th className="text-left font-medium py-2">Currency</th>
+                <th className="text-right font-medium py-2">Invoices</th>
+                <th className="text-right font-medium py-2">Amount</th>
+                <th className="text-right font-medium py-2">In {summary.currency}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {summary.by_currency.map(bucket => (
+                <tr key={bucket.key}>
+                  <td className="py-2 text-gray-800">{bucket.label}</td>
+                  <td className="py-2 text-right text-gray-500">{bucket.count}</td>
+                  <td className="py-2 text-right font-mono">{formatMoney(bucket.native_total, bucket.key)}</td>
+                  <td className="py-2 text-right font-mono">{money(bucket.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+      </div>
+
+      {card('Top line items', summary.top_items.length === 0 ? (
+        <p className="text-sm text-gray-500">No line items for these filters.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase border-b border-gray-100">
+              <th className="text-left font-medium py-2">Item</th>
+              <th className="text-left font-medium py-2">Suppliers</th>
+              <th className="text-right font-medium py-2">Qty</th>
+              <th className="text-right font-medium py-2">Spend</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {summary.top_items.map(item => (
+              <tr key={item.description}>
+                <td className="py-2 text-gray-800">{item.description}</td>
+                <td className="py-2 text-gray-500 text-xs">{item.suppliers.join(', ')}</td>
+                <td className="py-2 text-right text-gray-500">{item.quantity}</td>
+                <td className="py-2 text-right font-mono">{money(item.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ))}
+    </div>
+  );
+};
+
+export default DashboardTab;
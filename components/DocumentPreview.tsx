@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FieldSource } from '../types';
+
+interface DocumentPreviewProps {
+  file: Blob | null;
+  fileName: string;
+  highlight?: FieldSource | null; // Region to outline, e.g. where a clicked field was read
+  initialPage?: number | null; // PDF page shown when nothing is highlighted
+}
+
+const DocumentPreview: React.FC<DocumentPreviewProps> = ({ file, fileName, highlight, initialPage }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlight]);
+
+  if (!file || !url) {
+    return (
+      <div className="h-full min-h-[300px] flex items-center justify-center bg-gray-100 rounded-lg text-sm text-gray-400">
+        Original document not available
+      </div>
+    );
+  }
+
+  if (file.type === 'application/pdf') {
+    // The browser's PDF viewer can't be drawn over reliably, so jump to the page instead
+    const page = highlight?.page ?? null;
+    const shownPage = page ?? initialPage ?? null;
+    return (
+      <div className="h-full flex flex-col gap-2">
+        <iframe
+          key={shownPage ?? 0}
+          src={shownPage ? `${url}#page=${shownPage}` : url}
+          title={fileName}
+          className="w-full flex-grow min-h-[600px] rounded-lg border border-gray-200 bg-gray-100"
+        />
+        {page && <p className="text-xs text-amber-700">Selected field was read from page {page}.</p>}
+      </div>
+    );
+  }
+
+  const box = highlight?.box && (highlight.page ?? 1) === 1 ? highlight.box : null;
+
+  return (
+    <div className="h-full min-h-[300px] overflow-auto rounded-lg border border-gray-200 bg-gray-100">
+      <div className="relative">
+        <img src={url} alt={fileName} className="w-full h-auto" />
+        {box && (
+          <div
+            ref={highlightRef}
+            className="absolute border-2 border-amber-500 bg-amber-300/30 rounded-sm pointer-events-none"
+            style={{
+              top: `${box[0] / 10}%`,
+              left: `${box[1] / 10}%`,
+              height: `${(box[2] - box[0]) / 10}%`,
+              width: `${(box[3] - box[1]) / 10}%`,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentPreview;
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import {
+  FIELD_TYPES, DOCUMENT_TYPE_TEMPLATES, createDocumentType, createField, fromTemplate, fieldKey, definitionProblems,
+  documentTypesJson, importDocumentTypesJson,
+} from '../services/documentTypes';
+import { downloadFile } from '../services/download';
+import { CustomFieldDefinition, CustomFieldType, DocumentTypeDefinition } from '../types';
+
+interface FieldListProps {
+  fields: CustomFieldDefinition[];
+  onChange: (fields: CustomFieldDefinition[]) => void;
+  nested?: boolean; // Item fields of a list, which can't be lists themselves
+}
+
+const FieldList: React.FC<FieldListProps> = ({ fields, onChange, nested = false }) => {
+  const update = (index: number, patch: Partial<CustomFieldDefinition>) => {
+    onChange(fields.map((f, i) => {
+      if (i !== index) return f;
+      const next = { ...f, ...patch };
+      // Keys follow the label until they are edited by hand
+      if (patch.label !== undefined && f.key === fieldKey(f.label)) next.key = fieldKey(patch.label);
+      if (patch.type === 'array' && next.fields.length === 0) next.fields = [createField('Description')];
+      return next;
+    }));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= fields.length) return;
+    const next = [...fields];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const types = nested ? FIELD_TYPES.filter(t => t.id !== 'array') : FIELD_TYPES;
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, idx) => (
+        <div key={idx} className={`rounded-lg border p-2 ${nested ? 'border-gray-100 bg-gray-50' : 'border-gray-200'}`}>
+          <div className="flex items-center gap-2">
+            <input
+              value={field.label}
+              onChange={(e) => update(idx, { label: e.target.value })}
+              placeholder="Label"
+              className="flex-grow px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            <input
+              value={field.key}
+              onChange={(e) => update(idx, { key: e.target.value })}
+              placeholder="key"
+              title="Key used in the schema and exports"
+              className="w-36 px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+            />
+            <select
+              value={field.type}
+              onChange={(e) => update(idx, { type: e.target.value as CustomFieldType })}
+              className="w-32 px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              {types.map(t => (
+                <option key={t.id} value={t.id}>{t.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-xs text-gray-600" title="Flag documents that come back without it">
+              <input
+                type="checkbox"
+                checked={field.required}
+                onChange={(e) => update(idx, { required: e.target.checked })}
+              />
+              Required
+            </label>
+            <button onClick={() => move(idx, -1)} disabled={idx === 0} className="text-gray-400 hover:text-gray-700 disabled:text-gray-200" title="Move up">
+              ↑
+            </button>
+            <button onClick={() => move(idx, 1)} disabled={idx === fields.length - 1} className="text-gray-400 hover:text-gray-700 disabled:text-gray-200" title="Move down">
+              ↓
+            </button>
+            <button onClick={() => onChange(fields.filter((_, i) => i !== idx))} className="text-gray-400 hover:text-red-600" title="Remove field">
+              ✕
+            </button>
+          </div>
+          <input
+            value={field.description}
+            onChange={(e) => update(idx, { description: e.target.value })}
+            placeholder="Description for the model (where to find it, format, examples)"
+            className="mt-1 w-full px-2 py-1 border border-gray-200 rounded text-xs text-gray-600"
+          />
+          {field.type === 'array' && (
+            <div className="mt-2 ml-4">
+              <div className="text-xs font-medium text-gray-500 mb-1">Each item has</div>
+              <FieldList fields={field.fields} onChange={(itemFields) => update(idx, { fields: itemFields })} nested />
+            </div>
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...fields, createField(nested ? 'Item field' : 'New field')])}
+        className="text-xs text-teal-600 hover:text-teal-800 font-medium"
+      >
+        + Add {nested ? 'item field' : 'field'}
+      </button>
+    </div>
+  );
+};
+
+interface DocumentTypeBuilderProps {
+  types: DocumentTypeDefinition[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (types: DocumentTypeDefinition[]) => void;
+  onClose: () => void;
+}
+
+// Defines the document types the Other Documents tab can extract
+const DocumentTypeBuilder: React.FC<DocumentTypeBuilderProps> = ({ types, selectedId, onSelect, onChange, onClose }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const selected = types.find(t => t.id === selectedId) ?? null;
+  const problems = selected ? definitionProblems(selected) : [];
+
+  const add = (definition: DocumentTypeDefinition) => {
+    onChange([...types, definition]);
+    onSelect(definition.id);
+  };
+
+  const update = (patch: Partial<DocumentTypeDefinition>) => {
+    if (!selected) return;
+    onChange(types.map(t => (t.id === selected.id ? { ...t, ...patch } : t)));
+  };
+
+  const remove = () => {
+    if (!selected || !window.confirm(`Delete the "${selected.name}" document type? Documents already extracted are kept.`)) return;
+    onChange(types.filter(t => t.id !== selected.id));
+    onSelect(null);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const { types: imported, added, updated, errors } = importDocumentTypesJson(await file.text(), types);
+    onChange(imported);
+    setMessage(
+      `Added ${added} and updated ${updated} document type${added + updated === 1 ? '' : 's'}` +
+      (errors.length > 0 ? `; skipped ${errors.length}: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '…' : ''}` : '.'),
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+        <h3 className="font-semibold text-gray-800">Document types ({types.length})</h3>
+        <div className="flex items-center gap-4">
+          <label className="text-sm text-teal-600 hover:text-teal-800 font-medium cursor-pointer">
+            Import JSON
+            <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={() => downloadFile(documentTypesJson(types), 'document_types.json', 'application/json')}
+            disabled={types.length === 0}
+            className="text-sm text-teal-600 hover:text-teal-800 font-medium disabled:text-gray-300"
+          >
+            Download JSON
+          </button>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-800 font-medium">
+            Close
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className="px-4 py-2 text-xs text-gray-600 bg-teal-50 border-b border-teal-100">{message}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4">
+        <div className="p-4 border-b md:border-b-0 md:border-r border-gray-100 space-y-1">
+          {types.map(t => (
+            <button
+              key={t.id}
+              onClick={() => onSelect(t.id)}
+              className={`w-full text-left px-2 py-1 rounded text-sm truncate ${
+                t.id === selectedId ? 'bg-teal-50 text-teal-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {t.name || 'Untitled'}
+              {definitionProblems(t).length > 0 && <span className="ml-1 text-amber-600" title="Needs attention">•</span>}
+            </button>
+          ))}
+          <button
+            onClick={() => add(createDocumentType('New document type'))}
+            className="w-full text-left px-2 py-1 text-xs text-teal-600 hover:text-teal-800 font-medium"
+          >
+            + Blank type
+          </button>
+          <div className="pt-2 text-xs text-gray-500">From a template</div>
+          {DOCUMENT_TYPE_TEMPLATES.map(template => (
+            <button
+              key={template.name}
+              onClick={() => add(fromTemplate(template))}
+              className="w-full text-left px-2 py-1 text-xs text-gray-600 hover:text-teal-700"
+            >
+              + {template.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 md:col-span-3">
+          {!selected ? (
+            <p className="text-sm text-gray-500">
+              Pick a document type to edit, or start one from a template. Each field becomes part of the schema the
+              model fills in, and a column in the results table and exports.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  value={selected.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  placeholder="Name, e.g. Delivery note"
+                  className="flex-grow px-2 py-1 border border-gray-300 rounded text-sm font-medium"
+                />
+                <button onClick={remove} className="text-sm text-gray-500 hover:text-red-600 font-medium">
+                  Delete type
+                </button>
+              </div>
+              <textarea
+                value={selected.description}
+                onChange={(e) => update({ description: e.target.value })}
+                placeholder="What the document is; this goes into the prompt"
+                rows={2}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+              <FieldList fields={selected.fields} onChange={(fields) => update({ fields })} />
+              {problems.length > 0 && (
+                <ul className="p-3 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800 list-disc list-inside">
+                  {problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentTypeBuilder;
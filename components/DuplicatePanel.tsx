@@ -0,0 +1,70 @@
+import React from 'react';
+import { DuplicateMatch, InvoiceData } from '../types';
+import { formatMoney } from '../services/currency';
+
+interface DuplicatePanelProps {
+  matches: DuplicateMatch[];
+  invoices: InvoiceData[];
+  onMerge: (match: DuplicateMatch) => void;
+  onKeepBoth: (match: DuplicateMatch) => void;
+  onDiscard: (match: DuplicateMatch) => void;
+}
+
+const describe = (inv: InvoiceData | undefined) =>
+  inv
+    ? `${inv.supplier_name || 'Unknown supplier'} · ${inv.invoice_number || 'no number'} · ${formatMoney(inv.total_amount, inv.currency)}`
+    : '';
+
+const DuplicatePanel: React.FC<DuplicatePanelProps> = ({ matches, invoices, onMerge, onKeepBoth, onDiscard }) => {
+  if (matches.length === 0) return null;
+
+  const byId = (id: string) => invoices.find(inv => inv.id === id);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-orange-200 overflow-hidden">
+      <div className="p-4 border-b border-orange-100 bg-orange-50">
+        <h3 className="font-semibold text-orange-800">Possible Duplicates ({matches.length})</h3>
+        <p className="text-xs text-orange-700 mt-1">
+          Resolve these before exporting so the same bill isn't paid twice.
+        </p>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {matches.map(match => {
+          const original = byId(match.originalId);
+          const duplicate = byId(match.duplicateId);
+          return (
+            <li key={`${match.originalId}-${match.duplicateId}`} className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div className="text-sm min-w-0">
+                <div className="font-medium text-gray-900 truncate" title={duplicate?.fileName}>
+                  {duplicate?.fileName}
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                    match.exactFile ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'
+                  }`}>
+                    {match.exactFile ? 'Same file' : `${Math.round(match.score * 100)}% match`}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 truncate">{describe(duplicate)}</div>
+                <div className="text-xs text-gray-500 truncate mt-1">
+                  Matches <span className="font-medium text-gray-700">{original?.fileName}</span> ({match.reasons.join(', ')})
+                </div>
+              </div>
+              <div className="flex items-center gap-3 shrink-0 text-xs font-medium">
+                <button onClick={() => onMerge(match)} className="text-blue-600 hover:text-blue-800" title="Fill gaps in the original from this copy, then remove the copy">
+                  Merge
+                </button>
+                <button onClick={() => onKeepBoth(match)} className="text-gray-600 hover:text-gray-900" title="These are different invoices">
+                  Keep both
+                </button>
+                <button onClick={() => onDiscard(match)} className="text-red-600 hover:text-red-800" title="Remove the later copy">
+                  Discard copy
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default DuplicatePanel;
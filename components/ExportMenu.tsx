@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+
+export interface ExportOption<T extends string> {
+  id: T;
+  label: string;
+  description: string;
+}
+
+interface ExportMenuProps<T extends string> {
+  options: ExportOption<T>[];
+  onExport: (format: T) => void;
+  label: string;
+  disabledReason?: string | null;
+  accent?: 'blue' | 'purple' | 'teal';
+}
+
+const ExportMenu = <T extends string>({ options, onExport, label, disabledReason, accent = 'blue' }: ExportMenuProps<T>) => {
+  const [open, setOpen] = useState(false);
+  const disabled = Boolean(disabledReason);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={disabled}
+        title={disabledReason ?? undefined}
+        className={`text-sm font-medium flex items-center gap-1 ${
+          disabled
+            ? 'text-gray-400 cursor-not-allowed'
+            : accent === 'purple' ? 'text-purple-600 hover:text-purple-800'
+            : accent === 'teal' ? 'text-teal-600 hover:text-teal-800' : 'text-blue-600 hover:text-blue-800'
+        }`}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M7.5 12L12 16.5m0 0L16.5 12M12 16.5V3" />
+        </svg>
+        {label}
+        <span className="text-xs">▾</span>
+      </button>
+      {open && !disabled && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <ul className="absolute right-0 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-xl z-20 py-1">
+            {options.map(option => (
+              <li key={option.id}>
+                <button
+                  onClick={() => {
+                    setOpen(false);
+                    onExport(option.id);
+                  }}
+                  className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                >
+                  <div className="text-sm font-medium text-gray-800">{option.label}</div>
+                  <div className="text-xs text-gray-500">{option.description}</div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import UploadArea from './UploadArea';
+import QueueProgress from './QueueProgress';
+import { classifyDocument } from '../services/extractionService';
+import { createExtractionQueue, ExtractionQueue } from '../services/extractionQueue';
+import { AppSettings } from '../services/settings';
+import {
+  DOCUMENT_CLASSES, DESTINATION_LABELS, InboxDestination, InboxItem, RoutedFile, destinationFor, documentClassLabel, effectiveClass,
+  needsConfirmation, routeItems,
+} from '../services/inbox';
+import { DocumentClass, ExtractionJob } from '../types';
+
+interface InboxTabProps {
+  settings: AppSettings;
+  onRoute: (routed: Record<InboxDestination, RoutedFile[]>) => void;
+}
+
+// One upload for everything: each file is classified, then sent to the tab that extracts it
+const InboxTab: React.FC<InboxTabProps> = ({ settings, onRoute }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [items, setItems] = useState<InboxItem[]>([]);
+  const [jobs, setJobs] = useState<ExtractionJob[]>([]);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [sentMsg, setSentMsg] = useState<string | null>(null);
+
+  // Classification failures are thrown so the queue can retry them
+  const classifyFile = async (file: File, signal: AbortSignal) => {
+    const classification = await classifyDocument(file, signal);
+    setItems(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), file, classification, override: null }]);
+  };
+
+  const queueRef = useRef<ExtractionQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createExtractionQueue(classifyFile, setJobs);
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    queue.updateOptions({
+      concurrency: settings.extraction_concurrency,
+      maxRetries: settings.extraction_max_retries,
+    });
+  }, [queue, settings.extraction_concurrency, settings.extraction_max_retries]);
+
+  const isProcessing = jobs.some(job => job.status === 'queued' || job.status === 'processing');
+
+  const processFiles = () => {
+    if (files.length === 0) {
+      setErrorMsg("Please upload at least one document.");
+      return;
+    }
+    setErrorMsg(null);
+    setSentMsg(null);
+    queue.enqueue(files);
+    setFiles([]);
+  };
+
+  const setOverride = (id: string, override: DocumentClass) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, override } : item)));
+  };
+
+  const remove = (ids: string[]) => setItems(prev => prev.filter(item => !ids.includes(item.id)));
+
+  const accepted = items.filter(item => destinationFor(effectiveClass(item)) !== null);
+  const rejected = items.filter(item => destinationFor(effectiveClass(item)) === null);
+  const unconfirmed = accepted.filter(needsConfirmation);
+  const ready = accepted.filter(item => !needsConfirmation(item));
+
+  const handleSend = () => {
+    const routed = routeItems(ready);
+    onRoute(routed);
+    remove(ready.map(item => item.id));
+    setSentMsg(
+      'Sent ' +
+      (Object.keys(routed) as InboxDestination[])
+        .filter(d => routed[d].length > 0)
+        .map(d => `${routed[d].length} to ${DESTINATION_LABELS[d]}`)
+        .join(' and ') +
+      '. Extraction runs in those tabs.',
+    );
+  };
+
+  const renderItem = (item: InboxItem) => {
+    const detected = item.classification.document_class;
+    const uncertain = needsConfirmation(item);
+    const destination = destinationFor(effectiveClass(item));
+    return (
+      <li key={item.id} className={`px-4 py-3 flex items-center gap-3 ${uncertain ? 'bg-amber-50' : ''}`}>
+        <div className="min-w-0 flex-grow">
+          <div className="text-sm font-medium text-gray-900 truncate" title={item.file.name}>{item.file.name}</div>
+          <div className="text-xs text-gray-500">
+            Detected {documentClassLabel(detected).toLowerCase()} ({Math.round(item.classification.confidence * 100)}% confidence)
+            {item.classification.reason && <> · {item.classification.reason}</>}
+          </div>
+        </div>
+        <select
+          value={effectiveClass(item)}
+          onChange={(e) => setOverride(item.id, e.target.value as DocumentClass)}
+          className="w-44 px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+          title="Change the type if the detection is wrong"
+        >
+          {DOCUMENT_CLASSES.map(c => (
+            <option key={c.id} value={c.id}>{c.label}</option>
+          ))}
+        </select>
+        <span className="w-28 text-xs text-gray-500">
+          {destination ? `→ ${DESTINATION_LABELS[destination]}` : 'Not extracted'}
+        </span>
+        {uncertain && (
+          <button
+            onClick={() => setOverride(item.id, detected)}
+            className="text-xs font-medium text-amber-700 hover:text-amber-900"
+          >
+            Confirm
+          </button>
+        )}
+        <button onClick={() => remove([item.id])} className="text-gray-400 hover:text-red-600" title="Remove from inbox">
+          ✕
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+
+      {/* Upload Section */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-1">Inbox</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Drop invoices, credit notes, receipts and business cards together. Each file is recognised and sent to the right tab.
+        </p>
+        <UploadArea
+          label="Drop any documents here"
+          onFilesSelected={(selected) => { setFiles(prev => [...prev, ...selected]); setErrorMsg(null); }}
+          preprocessing={settings.image_preprocessing}
+          pending={files}
+          onRemove={(file) => setFiles(prev => prev.filter(f => f !== file))}
+          maxFileMb={settings.max_upload_mb}
+        />
+
+        {files.length > 0 && (
+            <div className="mt-4 flex items-center justify-between">
+                <span className="text-sm text-gray-600">
+                    {files.length} file{files.length > 1 ? 's' : ''} ready to sort.
+                    <button onClick={() => setFiles([])} className="ml-2 text-gray-400 hover:text-red-600">Clear</button>
+                </span>
+                <button
+                    onClick={processFiles}
+                    className="px-6 py-2 rounded-lg font-medium text-white shadow-sm transition-all bg-gray-800 hover:bg-gray-900 hover:shadow"
+                >
+                    {isProcessing ? 'Add to Queue' : 'Sort Documents'}
+                </button>
+            </div>
+        )}
+
+        <QueueProgress
+          jobs={jobs}
+          onCancel={queue.cancel}
+          onRetry={queue.retry}
+          onRetryFailed={queue.retryFailed}
+          onClearFinished={queue.clearFinished}
+        />
+        {errorMsg && (
+            <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md text-sm border border-red-200">
+                {errorMsg}
+            </div>
+        )}
+        {sentMsg && (
+            <div className="mt-4 p-3 bg-green-50 text-green-700 rounded-md text-sm border border-green-200">
+                {sentMsg}
+            </div>
+        )}
+      </div>
+
+      {accepted.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center">
+                <div>
+                    <h3 className="font-semibold text-gray-800">Sorted ({accepted.length})</h3>
+                    {unconfirmed.length > 0 && (
+                        <p className="text-xs text-amber-700">
+                            Confirm or correct the type of {unconfirmed.length} uncertain file{unconfirmed.length === 1 ? '' : 's'} before sending {unconfirmed.length === 1 ? 'it' : 'them'}.
+                        </p>
+                    )}
+                </div>
+                <button
+                    onClick={handleSend}
+                    disabled={ready.length === 0}
+                    className="px-4 py-2 rounded-lg font-medium text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300"
+                >
+                    Send {ready.length} for extraction
+                </button>
+            </div>
+            <ul className="divide-y divide-gray-100">
+                {accepted.map(renderItem)}
+            </ul>
+        </div>
+      )}
+
+      {rejected.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-red-200 overflow-hidden">
+            <div className="p-4 border-b border-red-100 bg-red-50 flex justify-between items-center">
+                <div>
+                    <h3 className="font-semibold text-red-800">Rejected ({rejected.length})</h3>
+                    <p className="text-xs text-red-700">
+                        These don't look like invoices, credit notes, receipts or business cards. Change the type to send one anyway.
+                    </p>
+                </div>
+                <button onClick={() => remove(rejected.map(item => item.id))} className="text-sm text-red-700 hover:text-red-900 font-medium">
+                    Discard all
+                </button>
+            </div>
+            <ul className="divide-y divide-gray-100">
+                {rejected.map(renderItem)}
+            </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InboxTab;
@@ -0,0 +1,635 @@
+import React, { useEffect, useState } from 'react';
+import DocumentPreview from './DocumentPreview';
+import {
+  BankDetails, InvoiceData, InvoiceDocumentType, InvoiceField, LineItem, PayableStatus, Supplier, TaxLine, TaxType, ValidationIssue,
+} from '../types';
+import { isLowConfidence, formatConfidence } from '../services/fieldSources';
+import { TAX_TYPE_LABELS } from '../services/taxReport';
+import { applySupplier } from '../services/supplierRegistry';
+import { accountFor, categorizeInvoice, LedgerSettings } from '../services/categorization';
+import { INVOICE_DOCUMENT_TYPES, setDocumentType } from '../services/invoiceTypes';
+import { emptyBankDetails, isEmptyBankDetails } from '../services/bankDetails';
+import { PAYABLE_STATUSES, dueDateFor, setPayableStatus } from '../services/payables';
+
+interface InvoiceReviewProps {
+  invoice: InvoiceData;
+  issues: ValidationIssue[];
+  suppliers: Supplier[];
+  ledger: LedgerSettings;
+  file: Blob | null;
+  focusField?: InvoiceField | null; // Field whose source region is highlighted first
+  onChange: (invoice: InvoiceData) => void;
+  onClose: () => void;
+}
+
+type ScalarField = Exclude<InvoiceField, 'line_items' | 'tax_lines' | 'document_type' | 'supplier_bank'>;
+
+type ScalarFieldDefinition = { key: ScalarField; label: string; type: 'text' | 'number' | 'date' };
+
+const SCALAR_FIELDS: ScalarFieldDefinition[] = [
+  { key: 'supplier_name', label: 'Supplier', type: 'text' },
+  { key: 'supplier_tax_id', label: 'Supplier Tax ID', type: 'text' },
+  { key: 'invoice_number', label: 'Invoice #', type: 'text' },
+  { key: 'invoice_date', label: 'Invoice Date', type: 'date' },
+  { key: 'currency', label: 'Currency', type: 'text' },
+  { key: 'net_amount', label: 'Net', type: 'number' },
+  { key: 'tax_amount', label: 'Tax', type: 'number' },
+  { key: 'total_amount', label: 'Total', type: 'number' },
+];
+
+const CREDIT_NOTE_FIELDS: ScalarFieldDefinition[] = [
+  { key: 'original_invoice_number', label: 'Original Invoice #', type: 'text' },
+];
+
+const PAYMENT_FIELDS: ScalarFieldDefinition[] = [
+  { key: 'due_date', label: 'Due Date', type: 'date' },
+  { key: 'payment_terms', label: 'Payment Terms', type: 'text' },
+  { key: 'payment_method', label: 'Payment Method', type: 'text' },
+  { key: 'amount_paid', label: 'Amount Paid', type: 'number' },
+  { key: 'balance_due', label: 'Balance Due', type: 'number' },
+];
+
+const BANK_FIELDS: { key: keyof BankDetails; label: string }[] = [
+  { key: 'bank_name', label: 'Bank' },
+  { key: 'iban', label: 'IBAN' },
+  { key: 'bic', label: 'BIC / SWIFT' },
+  { key: 'account_number', label: 'Account #' },
+  { key: 'routing_code', label: 'Sort / Routing Code' },
+];
+
+const headerFields = (invoice: InvoiceData): ScalarFieldDefinition[] =>
+  invoice.document_type === 'credit_note' ? [...SCALAR_FIELDS, ...CREDIT_NOTE_FIELDS] : SCALAR_FIELDS;
+
+// The original invoice reference only needs a look on credit notes
+export const reviewableFields = (invoice: InvoiceData): InvoiceField[] => [
+  'document_type',
+  ...headerFields(invoice).map(f => f.key),
+  'tax_lines',
+  'line_items',
+  ...PAYMENT_FIELDS.map(f => f.key),
+  'supplier_bank',
+];
+
+const parseNumber = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const InvoiceReview: React.FC<InvoiceReviewProps> = ({ invoice, issues, suppliers, ledger, file, focusField, onChange, onClose }) => {
+  const { reviewed_fields, approved } = invoice.review;
+  const reviewable = reviewableFields(invoice);
+  const allReviewed = reviewable.every(f => reviewed_fields.includes(f));
+  const [activeField, setActiveField] = useState<InvoiceField | null>(focusField ?? null);
+
+  useEffect(() => {
+    setActiveField(focusField ?? null);
+  }, [invoice.id, focusField]);
+
+  const fieldClass = (field: InvoiceField) =>
+    field === activeField ? 'border-amber-400 ring-2 ring-amber-300' :
+    reviewed_fields.includes(field) ? 'border-green-300 bg-green-50' :
+    isLowConfidence(invoice.field_sources[field]) ? 'border-amber-300 bg-amber-50' :
+    'border-gray-300';
+
+  // Any edit counts as reviewing that field, but withdraws a previous approval
+  const update = (field: InvoiceField, patch: Partial<InvoiceData>) => {
+    onChange({
+      ...invoice,
+      ...patch,
+      review: {
+        reviewed_fields: reviewed_fields.includes(field) ? reviewed_fields : [...reviewed_fields, field],
+        approved: false,
+      },
+    });
+  };
+
+  const toggleReviewed = (field: InvoiceField) => {
+    const isReviewed = reviewed_fields.includes(field);
+    onChange({
+      ...invoice,
+      review: {
+        reviewed_fields: isReviewed ? reviewed_fields.filter(f => f !== field) : [...reviewed_fields, field],
+        approved: isReviewed ? false : approved,
+      },
+    });
+  };
+
+  const markAllReviewed = () => {
+    onChange({ ...invoice, review: { reviewed_fields: reviewable, approved } });
+  };
+
+  const setApproved = (value: boolean) => {
+    onChange({ ...invoice, review: { reviewed_fields, approved: value } });
+  };
+
+  const updateScalar = (field: ScalarField, type: string, value: string) => {
+    const parsed = type === 'number' ? parseNumber(value) : (value.trim() === '' ? null : value);
+    update(field, { [field]: parsed } as Partial<InvoiceData>);
+  };
+
+  // Amounts change sign along with a switch to or from a credit note
+  const updateDocumentType = (type: InvoiceDocumentType) => {
+    update('document_type', setDocumentType(invoice, type));
+  };
+
+  // Kept as typed; spacing in IBANs is ignored when they are checked
+  const updateBank = (key: keyof BankDetails, value: string) => {
+    const bank = { ...(invoice.supplier_bank ?? emptyBankDetails()), [key]: value === '' ? null : value };
+    update('supplier_bank', { supplier_bank: isEmptyBankDetails(bank) ? null : bank });
+  };
+
+  // Payment status is bookkeeping rather than extracted data, so it neither
+  // needs reviewing nor withdraws an approval
+  const updatePayment = (patch: Partial<InvoiceData>) => onChange({ ...invoice, ...patch });
+
+  // Linking to a registered supplier takes its canonical name and default
+  // category; unlinking keeps the name as is
+  const linkSupplier = (id: string) => {
+    const supplier = suppliers.find(s => s.id === id) ?? null;
+    const unapproved = { ...invoice, review: { ...invoice.review, approved: false } };
+    const linked = supplier ? categorizeInvoice(applySupplier(unapproved, supplier), supplier, ledger) : { ...invoice, supplier_id: null };
+    update('supplier_name', {
+      supplier_id: linked.supplier_id,
+      supplier_name: linked.supplier_name,
+      supplier_tax_id: linked.supplier_tax_id,
+      line_items: linked.line_items,
+      category: linked.category,
+      category_source: linked.category_source,
+    });
+  };
+
+  // Categories aren't reviewed fields of their own, but changing one still withdraws approval
+  const setInvoiceCategory = (category: string) => {
+    onChange({ ...invoice, category: category || null, category_source: 'manual', review: { reviewed_fields, approved: false } });
+  };
+
+  const applyCategoryRules = () => {
+    const supplier = suppliers.find(s => s.id === invoice.supplier_id) ?? null;
+    onChange({ ...categorizeInvoice(invoice, supplier, ledger), review: { reviewed_fields, approved: false } });
+  };
+
+  const categoryLabel = (name: string) => {
+    const account = accountFor(name, ledger);
+    return account ? `${name} (${account.code})` : name;
+  };
+
+  // Model suggestions are highlighted until someone picks a category by hand
+  const categoryClass = (source: string | null | undefined) =>
+    source === 'model' ? 'border-amber-300 bg-amber-50' : 'border-gray-300';
+
+  const renderCategoryOptions = (current: string | null | undefined) => (
+    <>
+      <option value="">Uncategorized</option>
+      {ledger.expense_categories.map(c => <option key={c.name} value={c.name}>{categoryLabel(c.name)}</option>)}
+      {/* Keep a category that has since been removed from the list selectable */}
+      {current && !ledger.expense_categories.some(c => c.name === current) && <option value={current}>{current}</option>}
+    </>
+  );
+
+  const updateLineItem = (index: number, patch: Partial<LineItem>) => {
+    const line_items = invoice.line_items.map((item, i) => (i === index ? { ...item, ...patch } : item));
+    update('line_items', { line_items });
+  };
+
+  const addLineItem = () => {
+    update('line_items', {
+      line_items: [...invoice.line_items, { description: '', quantity: 1, unit_price: 0, line_total: 0 }],
+    });
+  };
+
+  const removeLineItem = (index: number) => {
+    update('line_items', { line_items: invoice.line_items.filter((_, i) => i !== index) });
+  };
+
+  const updateTaxLine = (index: number, patch: Partial<TaxLine>) => {
+    const tax_lines = invoice.tax_lines.map((line, i) => (i === index ? { ...line, ...patch } : line));
+    update('tax_lines', { tax_lines });
+  };
+
+  const addTaxLine = () => {
+    update('tax_lines', {
+      tax_lines: [...invoice.tax_lines, { tax_type: 'vat', rate: null, taxable_base: null, tax_amount: 0 }],
+    });
+  };
+
+  const removeTaxLine = (index: number) => {
+    update('tax_lines', { tax_lines: invoice.tax_lines.filter((_, i) => i !== index) });
+  };
+
+  // Tax treatment flags don't have a reviewed toggle of their own; they belong to the tax summary
+  const updateTaxTreatment = (patch: Partial<InvoiceData>) => update('tax_lines', patch);
+
+  const renderScalarField = ({ key, label, type }: ScalarFieldDefinition) => (
+    <div key={key}>
+      <div className="flex items-center justify-between mb-1">
+        <label className="text-xs font-medium text-gray-600">
+          {label}
+          {isLowConfidence(invoice.field_sources[key]) && (
+            <span className="ml-1 text-amber-700" title={formatConfidence(invoice.field_sources[key])}>
+              ({Math.round(invoice.field_sources[key]!.confidence * 100)}%)
+            </span>
+          )}
+        </label>
+        {renderReviewedToggle(key)}
+      </div>
+      <input
+        type={type}
+        step={type === 'number' ? '0.01' : undefined}
+        value={invoice[key] ?? ''}
+        onChange={(e) => updateScalar(key, type, e.target.value)}
+        onFocus={() => setActiveField(key)}
+        className={`w-full px-3 py-2 text-sm border rounded-md focus:outline-none ${fieldClass(key)}`}
+      />
+    </div>
+  );
+
+  const renderReviewedToggle = (field: InvoiceField) => (
+    <label className="flex items-center gap-1 text-xs text-gray-500 cursor-pointer select-none">
+      <input
+        type="checkbox"
+        checked={reviewed_fields.includes(field)}
+        onChange={() => toggleReviewed(field)}
+        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+      />
+      Reviewed
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+        <div>
+          <h3 className="font-semibold text-gray-800">Review Invoice</h3>
+          <p className="text-xs text-gray-500 truncate max-w-md" title={invoice.fileName}>{invoice.fileName}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-gray-500">
+            {reviewable.filter(f => reviewed_fields.includes(f)).length}/{reviewable.length} fields reviewed
+          </span>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-800 font-medium">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4">
+        {/* Original Document */}
+        <DocumentPreview
+          file={file}
+          fileName={invoice.fileName}
+          initialPage={invoice.page_range?.start}
+          highlight={activeField ? invoice.field_sources[activeField] ?? null : null}
+        />
+
+        {/* Editable Fields */}
+        <div className="space-y-4">
+          {issues.length > 0 && (
+            <ul className="space-y-1 text-xs">
+              {issues.map((issue, idx) => (
+                <li
+                  key={idx}
+                  className={`px-3 py-2 rounded-md border ${
+                    issue.severity === 'error'
+                      ? 'bg-red-50 text-red-700 border-red-200'
+                      : 'bg-yellow-50 text-yellow-800 border-yellow-200'
+                  }`}
+                >
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4">
+            {suppliers.length > 0 && (
+              <label className="flex flex-1 items-center gap-2 text-xs font-medium text-gray-600">
+                Registered supplier
+                <select
+                  value={invoice.supplier_id ?? ''}
+                  onChange={(e) => linkSupplier(e.target.value)}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm font-normal"
+                >
+                  <option value="">Not linked</option>
+                  {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </label>
+            )}
+            <label className="flex flex-1 items-center gap-2 text-xs font-medium text-gray-600">
+              Category
+              <select
+                value={invoice.category ?? ''}
+                onChange={(e) => setInvoiceCategory(e.target.value)}
+                title="Used for lines without a category of their own"
+                className={`flex-1 px-2 py-1 border rounded-md text-sm font-normal ${categoryClass(invoice.category_source)}`}
+              >
+                {renderCategoryOptions(invoice.category)}
+              </select>
+            </label>
+            <button onClick={applyCategoryRules} className="text-xs text-blue-600 hover:text-blue-800 font-medium">
+              Apply category rules
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs font-medium text-gray-600">Document Type</label>
+              {renderReviewedToggle('document_type')}
+            </div>
+            <select
+              value={invoice.document_type}
+              onChange={(e) => updateDocumentType(e.target.value as InvoiceDocumentType)}
+              onFocus={() => setActiveField('document_type')}
+              title="Switching to or from a credit note flips the sign of every amount"
+              className={`w-full px-3 py-2 text-sm border rounded-md focus:outline-none ${fieldClass('document_type')}`}
+            >
+              {INVOICE_DOCUMENT_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {headerFields(invoice).map(renderScalarField)}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <button
+                onClick={() => setActiveField('tax_lines')}
+                className={`text-sm font-semibold ${
+                  isLowConfidence(invoice.field_sources.tax_lines) ? 'text-amber-700' : 'text-gray-700'
+                }`}
+                title={formatConfidence(invoice.field_sources.tax_lines) || undefined}
+              >
+                Tax Summary
+              </button>
+              {renderReviewedToggle('tax_lines')}
+            </div>
+            <div className="flex flex-wrap items-center gap-4 mb-2 text-xs text-gray-600">
+              <label className="flex items-center gap-1">
+                Prices
+                <select
+                  value={invoice.prices_include_tax === null ? '' : invoice.prices_include_tax ? 'gross' : 'net'}
+                  onChange={(e) => updateTaxTreatment({
+                    prices_include_tax: e.target.value === '' ? null : e.target.value === 'gross',
+                  })}
+                  className="px-1 py-0.5 border border-gray-300 rounded text-xs"
+                >
+                  <option value="">Not stated</option>
+                  <option value="net">Exclude tax</option>
+                  <option value="gross">Include tax</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-1 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={invoice.reverse_charge}
+                  onChange={(e) => updateTaxTreatment({ reverse_charge: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Reverse charge
+              </label>
+            </div>
+            {invoice.tax_lines.length > 0 && (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase">
+                    <th className="text-left font-medium pb-1">Type</th>
+                    <th className="text-right font-medium pb-1 w-20">Rate %</th>
+                    <th className="text-right font-medium pb-1 w-24">Base</th>
+                    <th className="text-right font-medium pb-1 w-24">Tax</th>
+                    <th className="w-6"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoice.tax_lines.map((line, idx) => (
+                    <tr key={idx}>
+                      <td className="pr-1 py-1">
+                        <select
+                          value={line.tax_type}
+                          onChange={(e) => updateTaxLine(idx, { tax_type: e.target.value as TaxType })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                        >
+                          {(Object.keys(TAX_TYPE_LABELS) as TaxType[]).map(type => (
+                            <option key={type} value={type}>{TAX_TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      {(['rate', 'taxable_base'] as const).map(numField => (
+                        <td key={numField} className="px-1 py-1">
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={line[numField] ?? ''}
+                            onChange={(e) => updateTaxLine(idx, { [numField]: parseNumber(e.target.value) })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-right font-mono"
+                          />
+                        </td>
+                      ))}
+                      <td className="px-1 py-1">
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={line.tax_amount}
+                          onChange={(e) => updateTaxLine(idx, { tax_amount: parseNumber(e.target.value) ?? 0 })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-right font-mono"
+                        />
+                      </td>
+                      <td className="pl-1 py-1 text-right">
+                        <button
+                          onClick={() => removeTaxLine(idx)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Remove tax line"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <button onClick={addTaxLine} className="mt-2 text-xs text-blue-600 hover:text-blue-800 font-medium">
+              + Add tax rate
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <button
+                onClick={() => setActiveField('line_items')}
+                className={`text-sm font-semibold ${
+                  isLowConfidence(invoice.field_sources.line_items) ? 'text-amber-700' : 'text-gray-700'
+                }`}
+                title={formatConfidence(invoice.field_sources.line_items) || undefined}
+              >
+                Line Items
+              </button>
+              {renderReviewedToggle('line_items')}
+            </div>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="text-left font-medium pb-1">Description</th>
+                  <th className="text-right font-medium pb-1 w-16">Qty</th>
+                  <th className="text-right font-medium pb-1 w-24">Unit</th>
+                  <th className="text-right font-medium pb-1 w-16">Tax %</th>
+                  <th className="text-right font-medium pb-1 w-24">Total</th>
+                  <th className="text-left font-medium pb-1 pl-1 w-36">Category</th>
+                  <th className="w-6"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoice.line_items.map((item, idx) => (
+                  <tr key={idx}>
+                    <td className="pr-1 py-1">
+                      <input
+                        value={item.description}
+                        onChange={(e) => updateLineItem(idx, { description: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </td>
+                    {(['quantity', 'unit_price', 'tax_rate', 'line_total'] as const).map(numField => (
+                      <td key={numField} className="px-1 py-1">
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={item[numField] ?? ''}
+                          onChange={(e) => updateLineItem(idx, {
+                            // An empty rate means "not printed"; the other columns fall back to 0
+                            [numField]: numField === 'tax_rate' ? parseNumber(e.target.value) : parseNumber(e.target.value) ?? 0,
+                          })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-right font-mono"
+                        />
+                      </td>
+                    ))}
+                    <td className="px-1 py-1">
+                      <select
+                        value={item.category ?? ''}
+                        onChange={(e) => updateLineItem(idx, { category: e.target.value || null, category_source: 'manual' })}
+                        title={item.category_source === 'model' ? 'Suggested by the model' : undefined}
+                        className={`w-full px-1 py-1 border rounded text-sm ${categoryClass(item.category_source)}`}
+                      >
+                        {renderCategoryOptions(item.category)}
+                      </select>
+                    </td>
+                    <td className="pl-1 py-1 text-right">
+                      <button
+                        onClick={() => removeLineItem(idx)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove line item"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button onClick={addLineItem} className="mt-2 text-xs text-blue-600 hover:text-blue-800 font-medium">
+              + Add line item
+            </button>
+          </div>
+
+          <div>
+            <div className="text-sm font-semibold text-gray-700 mb-2">Payment</div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {PAYMENT_FIELDS.map(renderScalarField)}
+            </div>
+            {!invoice.due_date && dueDateFor(invoice) && (
+              <p className="mt-1 text-xs text-gray-500">
+                Due {dueDateFor(invoice)!.date} going by the payment terms.
+              </p>
+            )}
+            <div className="flex items-center justify-between mt-4 mb-1">
+              <button
+                onClick={() => setActiveField('supplier_bank')}
+                className={`text-xs font-medium ${
+                  isLowConfidence(invoice.field_sources.supplier_bank) ? 'text-amber-700' : 'text-gray-600'
+                }`}
+                title={formatConfidence(invoice.field_sources.supplier_bank) || undefined}
+              >
+                Supplier Bank Details
+              </button>
+              {renderReviewedToggle('supplier_bank')}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {BANK_FIELDS.map(({ key, label }) => (
+                <input
+                  key={key}
+                  value={invoice.supplier_bank?.[key] ?? ''}
+                  onChange={(e) => updateBank(key, e.target.value)}
+                  onFocus={() => setActiveField('supplier_bank')}
+                  placeholder={label}
+                  title={label}
+                  className={`w-full px-2 py-1 text-sm border rounded-md focus:outline-none ${key === 'iban' ? 'font-mono' : ''} ${fieldClass('supplier_bank')}`}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs font-medium text-gray-600">
+            <label className="flex items-center gap-2">
+              Status
+              <select
+                value={invoice.payable_status}
+                onChange={(e) => updatePayment(setPayableStatus(invoice, e.target.value as PayableStatus))}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm font-normal"
+              >
+                {PAYABLE_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+              </select>
+            </label>
+            {(invoice.payable_status === 'paid' || invoice.payable_status === 'scheduled') && (
+              <>
+                <label className="flex items-center gap-2">
+                  {invoice.payable_status === 'paid' ? 'Paid on' : 'Pay on'}
+                  <input
+                    type="date"
+                    value={invoice.payment_date ?? ''}
+                    onChange={(e) => updatePayment({ payment_date: e.target.value || null })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm font-normal"
+                  />
+                </label>
+                <label className="flex flex-1 items-center gap-2">
+                  Reference
+                  <input
+                    value={invoice.payment_reference ?? ''}
+                    onChange={(e) => updatePayment({ payment_reference: e.target.value || null })}
+                    placeholder="Bank or remittance reference"
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm font-normal"
+                  />
+                </label>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between pt-4 border-t border-gray-100">
+            <button onClick={markAllReviewed} className="text-sm text-gray-600 hover:text-gray-900 font-medium">
+              Mark all reviewed
+            </button>
+            {approved ? (
+              <button
+                onClick={() => setApproved(false)}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-green-100 text-green-700 border border-green-200 hover:bg-green-200"
+              >
+                Approved — click to reopen
+              </button>
+            ) : (
+              <button
+                onClick={() => setApproved(true)}
+                disabled={!allReviewed}
+                title={allReviewed ? undefined : 'Review every field before approving'}
+                className={`px-4 py-2 rounded-lg text-sm font-medium text-white shadow-sm ${
+                  allReviewed ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-300 cursor-not-allowed'
+                }`}
+              >
+                Approve for Export
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceReview;
@@ -1,114 +1,401 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import UploadArea from './UploadArea';
-import { extractInvoiceData } from '../services/geminiService';
-import { InvoiceData, ExtractionStatus } from '../types';
+import InvoiceReview from './InvoiceReview';
+import ValidationBadges from './ValidationBadges';
+import QueueProgress from './QueueProgress';
+import DuplicatePanel from './DuplicatePanel';
+import ExportMenu from './ExportMenu';
+import VatReport from './VatReport';
+import PayablesReport from './PayablesReport';
+import SupplierRegistry from './SupplierRegistry';
+import { extractInvoiceData, extractInvoiceDocuments, suggestCategories } from '../services/extractionService';
+import { validateInvoice } from '../services/invoiceValidation';
+import { exportInvoices, INVOICE_EXPORT_FORMATS, InvoiceExportFormat } from '../services/invoiceExport';
+import { downloadFile } from '../services/download';
+import { findDuplicates, mergeInvoices } from '../services/duplicateDetection';
+import { hashFile } from '../services/fileHash';
+import { createExtractionQueue, ExtractionQueue } from '../services/extractionQueue';
+import { AppSettings } from '../services/settings';
+import {
+  loadInvoices, saveInvoices, deleteInvoice, clearInvoices, saveSourceFile, loadSourceFile,
+  loadSuppliers, saveSuppliers, deleteSupplier,
+} from '../services/storage';
+import { isLowConfidence, formatConfidence } from '../services/fieldSources';
+import { formatPageRange } from '../services/documentSplitting';
+import { formatMoney, normalizeCurrency } from '../services/currency';
+import { convertInvoice, validateCurrency, FxSettings } from '../services/fxRates';
+import { matchSupplier, applySupplier, learnAliases, linkInvoices, supplierFromInvoice, UNKNOWN_SUPPLIER } from '../services/supplierRegistry';
+import { categorizeInvoice, uncategorizedLines, applySuggestions } from '../services/categorization';
+import { documentTypeLabel, withDocumentSign } from '../services/invoiceTypes';
+import { PAYABLE_STATUSES, daysOverdue, dueDateFor, initialPayableStatus, setPayableStatus } from '../services/payables';
+import { RoutedFile, routedDocumentType } from '../services/inbox';
+import { InvoiceData, InvoiceField, ExtractionJob, ValidationIssue, DuplicateMatch, Supplier, PayableStatus, DocumentClass } from '../types';
 
-const InvoiceTab: React.FC = () => {
+const PAYABLE_STATUS_STYLES: Record<PayableStatus, string> = {
+  unpaid: 'border-gray-300 bg-white text-gray-700',
+  scheduled: 'border-blue-200 bg-blue-50 text-blue-700',
+  paid: 'border-green-200 bg-green-50 text-green-700',
+  disputed: 'border-red-200 bg-red-50 text-red-700',
+};
+
+interface InvoiceTabProps {
+  settings: AppSettings;
+  incoming: RoutedFile[]; // Sent over from the inbox
+  onIncomingTaken: () => void;
+}
+
+const InvoiceTab: React.FC<InvoiceTabProps> = ({ settings, incoming, onIncomingTaken }) => {
   const [files, setFiles] = useState<File[]>([]);
   const [invoices, setInvoices] = useState<InvoiceData[]>([]);
-  const [status, setStatus] = useState<ExtractionStatus>('idle');
+  const [jobs, setJobs] = useState<ExtractionJob[]>([]);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [reviewFocus, setReviewFocus] = useState<InvoiceField | null>(null);
+  // Original upload of the invoice under review, read back from storage
+  const [reviewFile, setReviewFile] = useState<Blob | null>(null);
+  const [showVatReport, setShowVatReport] = useState(false);
+  const [showPayables, setShowPayables] = useState(false);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [showSuppliers, setShowSuppliers] = useState(false);
 
+  // Restore invoices extracted in earlier sessions
+  useEffect(() => {
+    loadInvoices()
+      .then(stored => setInvoices(prev => [...stored, ...prev.filter(inv => !stored.some(s => s.id === inv.id))]))
+      .catch(err => {
+        console.error("Failed to load saved invoices", err);
+        setErrorMsg("Could not load saved invoices from this browser.");
+      });
+    loadSuppliers()
+      .then(setSuppliers)
+      .catch(err => console.error("Failed to load suppliers", err));
+  }, []);
+
+  useEffect(() => {
+    setReviewFile(null);
+    if (!reviewingId) return;
+    let cancelled = false;
+    loadSourceFile(reviewingId)
+      .then(file => { if (!cancelled) setReviewFile(file); })
+      .catch(err => console.error("Failed to load source file", err));
+    return () => { cancelled = true; };
+  }, [reviewingId]);
+
+  const persist = (records: InvoiceData[]) => {
+    saveInvoices(records).catch(err => {
+      console.error("Failed to save invoices", err);
+      setErrorMsg("Could not save invoices in this browser. They will be lost on refresh.");
+    });
+  };
+
+  // Adds to what is already waiting, so camera captures and picks can be mixed
   const handleFilesSelected = (selectedFiles: File[]) => {
-    setFiles(selectedFiles);
+    setFiles(prev => [...prev, ...selectedFiles]);
     setErrorMsg(null);
   };
 
-  const processFiles = async () => {
+  // Read through refs so queued jobs pick up settings and suppliers as they are when the job runs
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const suppliersRef = useRef(suppliers);
+  suppliersRef.current = suppliers;
+
+  const persistSuppliers = (records: Supplier[]) => {
+    saveSuppliers(records).catch(err => console.error("Failed to save suppliers", err));
+  };
+
+  // Replaces changed suppliers in place and appends new ones
+  const upsertSuppliers = (prev: Supplier[], changed: Supplier[]) => [
+    ...prev.map(s => changed.find(c => c.id === s.id) ?? s),
+    ...changed.filter(c => !prev.some(s => s.id === c.id)),
+  ];
+
+  // The inbox's classification of each file it sent, kept for retries too
+  const routedClasses = useRef(new WeakMap<File, DocumentClass>());
+
+  // Extracts one file; failures are thrown so the queue can retry them
+  const extractFile = async (file: File, signal: AbortSignal) => {
+    const documentClass = routedClasses.current.get(file);
+    const extract = settingsRef.current.split_multi_invoice_documents
+      ? extractInvoiceDocuments(file, signal)
+      : extractInvoiceData(file, signal).then(data => [data]);
+    const [records, fileHash] = await Promise.all([extract, hashFile(file)]);
+    if (records.length === 0) throw new Error("No invoices found in document");
+
+    const registry = suppliersRef.current;
+    const names: { supplierId: string; name: string }[] = [];
+    const categorized = records.map(extracted => {
+      const data = documentClass ? { ...extracted, document_type: routedDocumentType(documentClass, extracted.document_type) } : extracted;
+      const match = matchSupplier(registry, data.supplier_name, data.supplier_tax_id);
+      if (match && data.supplier_name) names.push({ supplierId: match.supplier.id, name: data.supplier_name });
+      const supplier = match?.supplier ?? null;
+      return categorizeInvoice(toInvoice(data, file.name, fileHash, supplier), supplier, settingsRef.current);
+    });
+    const extracted = settingsRef.current.suggest_categories
+      ? await Promise.all(categorized.map(invoice => withSuggestedCategories(invoice, signal)))
+      : categorized;
+    setInvoices(prev => [...prev, ...extracted]);
+    persist(extracted);
+    // New spellings are remembered so the next invoice matches exactly
+    const learned = learnAliases(registry, names);
+    if (learned.length > 0) {
+      setSuppliers(prev => upsertSuppliers(prev, learned));
+      persistSuppliers(learned);
+    }
+    // Each invoice keeps its own copy so deleting one leaves the others' previews intact
+    await Promise.all(extracted.map(invoice =>
+      saveSourceFile(invoice.id, file).catch(err => console.error("Failed to save source file", err)),
+    ));
+  };
+
+  // Asks the model about lines the rules left uncategorized. Suggestions are a
+  // convenience, so a failure leaves the lines for the reviewer instead of failing the job.
+  const withSuggestedCategories = async (invoice: InvoiceData, signal: AbortSignal): Promise<InvoiceData> => {
+    const indexes = uncategorizedLines(invoice);
+    const categories = settingsRef.current.expense_categories;
+    if (indexes.length === 0 || categories.length === 0) return invoice;
+    try {
+      const suggestions = await suggestCategories(
+        indexes.map(idx => ({ description: invoice.line_items[idx].description, supplier_name: invoice.supplier_name })),
+        categories.map(c => c.name),
+        signal,
+      );
+      return applySuggestions(invoice, indexes, suggestions, categories);
+    } catch (err) {
+      if (signal.aborted) throw err;
+      console.error("Failed to suggest categories", err);
+      return invoice;
+    }
+  };
+
+  // Transform partial data to full InvoiceData with safe defaults.
+  // Missing amounts stay null so validation can flag them.
+  const toInvoice = (extracted: Partial<InvoiceData>, fileName: string, fileHash: string, supplier: Supplier | null): InvoiceData => {
+    const data = withDocumentSign({ ...extracted, document_type: extracted.document_type ?? 'invoice' });
+    const invoice: InvoiceData = {
+      id: Math.random().toString(36).substr(2, 9),
+      fileName,
+      extracted_at: new Date().toISOString(),
+      document_type: data.document_type,
+      invoice_number: data.invoice_number ?? null,
+      original_invoice_number: data.original_invoice_number ?? null,
+      invoice_date: data.invoice_date ?? null,
+      supplier_name: data.supplier_name ?? UNKNOWN_SUPPLIER,
+      supplier_tax_id: data.supplier_tax_id ?? null,
+      supplier_id: null,
+      total_amount: data.total_amount ?? null,
+      // Unrecognised currencies are kept as printed so validation can flag them
+      currency: normalizeCurrency(data.currency) ?? data.currency ?? supplier?.default_currency ?? settingsRef.current.base_currency,
+      tax_amount: data.tax_amount ?? null,
+      net_amount: data.net_amount ?? null,
+      tax_lines: data.tax_lines ?? [],
+      prices_include_tax: data.prices_include_tax ?? null,
+      reverse_charge: data.reverse_charge ?? false,
+      line_items: data.line_items ?? [],
+      due_date: data.due_date ?? null,
+      payment_terms: data.payment_terms ?? null,
+      payment_method: data.payment_method ?? null,
+      amount_paid: data.amount_paid ?? null,
+      balance_due: data.balance_due ?? null,
+      supplier_bank: data.supplier_bank ?? null,
+      payable_status: initialPayableStatus({ document_type: data.document_type, balance_due: data.balance_due ?? null }),
+      payment_date: null,
+      payment_reference: null,
+      category: null,
+      category_source: null,
+      review: { reviewed_fields: [], approved: false },
+      file_hash: fileHash,
+      dismissed_duplicates: [],
+      field_sources: data.field_sources ?? {},
+      page_range: data.page_range ?? null,
+    };
+    return supplier ? applySupplier(invoice, supplier) : invoice;
+  };
+
+  const queueRef = useRef<ExtractionQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createExtractionQueue(extractFile, setJobs);
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    queue.updateOptions({
+      concurrency: settings.extraction_concurrency,
+      maxRetries: settings.extraction_max_retries,
+    });
+  }, [queue, settings.extraction_concurrency, settings.extraction_max_retries]);
+
+  // Files the inbox sorted as invoices, credit notes or receipts skip the pending list
+  useEffect(() => {
+    if (incoming.length === 0) return;
+    incoming.forEach(({ file, documentClass }) => routedClasses.current.set(file, documentClass));
+    queue.enqueue(incoming.map(routed => routed.file));
+    onIncomingTaken();
+  }, [queue, incoming]);
+
+  const isProcessing = jobs.some(job => job.status === 'queued' || job.status === 'processing');
+
+  const processFiles = () => {
     if (files.length === 0) {
       setErrorMsg("Please upload at least one invoice file first.");
       return;
     }
 
-    setStatus('processing');
     setErrorMsg(null);
+    queue.enqueue(files);
+    setFiles([]); // Pending files now live in the queue
+  };
 
-    const newInvoices: InvoiceData[] = [];
-    
-    // Process strictly one by one to show progress or handle partial failure gracefully
-    // (Could be parallelized, but sequential feels safer for rate limits in a prototype)
-    for (const file of files) {
-      try {
-        const data = await extractInvoiceData(file);
-        
-        // Transform partial data to full InvoiceData with safe defaults
-        const invoice: InvoiceData = {
-          id: Math.random().toString(36).substr(2, 9),
-          fileName: file.name,
-          invoice_number: data.invoice_number ?? null,
-          invoice_date: data.invoice_date ?? null,
-          supplier_name: data.supplier_name ?? "Unknown Supplier",
-          supplier_tax_id: data.supplier_tax_id ?? null,
-          total_amount: data.total_amount ?? 0,
-          currency: data.currency ?? 'USD',
-          tax_amount: data.tax_amount ?? 0,
-          line_items: data.line_items ?? [],
-        };
-        newInvoices.push(invoice);
-      } catch (err) {
-        console.error(`Error processing ${file.name}:`, err);
-        // Continue processing other files, just alert user at end or show partial error
-        // For simplicity, we just add a "Failed" placeholder or skip.
-        // Let's create a placeholder to show it failed.
-        newInvoices.push({
-            id: Math.random().toString(36).substr(2, 9),
-            fileName: file.name,
-            invoice_number: 'ERROR',
-            invoice_date: null,
-            supplier_name: 'Extraction Failed',
-            supplier_tax_id: null,
-            total_amount: 0,
-            currency: '',
-            tax_amount: 0,
-            line_items: []
-        });
-      }
+  const handleInvoiceChange = (updated: InvoiceData) => {
+    setInvoices(prev => prev.map(inv => (inv.id === updated.id ? updated : inv)));
+    persist([updated]);
+  };
+
+  const handleInvoicesChange = (updated: InvoiceData[]) => {
+    const byId = new Map(updated.map(inv => [inv.id, inv]));
+    setInvoices(prev => prev.map(inv => byId.get(inv.id) ?? inv));
+    persist(updated);
+  };
+
+  const handleDelete = (id: string) => {
+    setInvoices(prev => prev.filter(inv => inv.id !== id));
+    if (reviewingId === id) setReviewingId(null);
+    deleteInvoice(id).catch(err => console.error("Failed to delete invoice", err));
+  };
+
+  const handleClearAll = () => {
+    if (!window.confirm("Remove all invoices and their uploaded files from this browser?")) return;
+    setInvoices([]);
+    setReviewingId(null);
+    clearInvoices().catch(err => console.error("Failed to clear invoices", err));
+  };
+
+  // Saving suppliers also links any unmatched invoices they now cover
+  const handleSaveSuppliers = (changed: Supplier[]) => {
+    const registry = upsertSuppliers(suppliers, changed);
+    const linked = linkInvoices(invoices, registry);
+    // Newly linked invoices pick up their supplier's default category
+    linked.invoices = linked.invoices.map(inv =>
+      inv.review.approved ? inv : categorizeInvoice(inv, registry.find(s => s.id === inv.supplier_id) ?? null, settings),
+    );
+    const saved = upsertSuppliers(changed, linked.suppliers);
+    setSuppliers(upsertSuppliers(registry, linked.suppliers));
+    persistSuppliers(saved);
+    if (linked.invoices.length > 0) {
+      setInvoices(prev => prev.map(inv => linked.invoices.find(l => l.id === inv.id) ?? inv));
+      persist(linked.invoices);
+    }
+  };
+
+  const handleDeleteSupplier = (id: string) => {
+    const unlinked = invoices.filter(inv => inv.supplier_id === id).map(inv => ({ ...inv, supplier_id: null }));
+    setSuppliers(prev => prev.filter(s => s.id !== id));
+    deleteSupplier(id).catch(err => console.error("Failed to delete supplier", err));
+    if (unlinked.length > 0) {
+      setInvoices(prev => prev.map(inv => unlinked.find(u => u.id === inv.id) ?? inv));
+      persist(unlinked);
+    }
+  };
+
+  const fx: FxSettings = useMemo(
+    () => ({ base_currency: settings.base_currency, fx_rates: settings.fx_rates }),
+    [settings.base_currency, settings.fx_rates],
+  );
+
+  const issuesById = useMemo(() => {
+    const result: Record<string, ValidationIssue[]> = {};
+    for (const inv of invoices) {
+      result[inv.id] = [
+        ...validateInvoice(inv, { tax_rate_bands: settings.tax_rate_bands }),
+        ...validateCurrency(inv, fx),
+      ];
     }
+    return result;
+  }, [invoices, settings.tax_rate_bands, fx]);
+
+  const duplicates = useMemo(() => findDuplicates(invoices), [invoices]);
+  const duplicateIds = new Set(duplicates.map(match => match.duplicateId));
 
-    setInvoices(prev => [...prev, ...newInvoices]);
-    setFiles([]); // Clear queue
-    setStatus('success');
-  };
-
-  const handleDownloadCSV = () => {
-    if (invoices.length === 0) return;
-
-    const headers = [
-      "Invoice #",
-      "Date",
-      "Supplier",
-      "Tax ID",
-      "Total",
-      "Currency",
-      "Tax",
-      "Line Items Count"
-    ];
-
-    const rows = invoices.map(inv => [
-      inv.invoice_number || "",
-      inv.invoice_date || "",
-      `"${inv.supplier_name || ""}"`, // Escape commas
-      inv.supplier_tax_id || "",
-      inv.total_amount || 0,
-      inv.currency || "",
-      inv.tax_amount || 0,
-      inv.line_items.length
-    ]);
-
-    const csvContent = [
-      headers.join(","),
-      ...rows.map(e => e.join(","))
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", "extracted_invoices.csv");
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleMergeDuplicate = (match: DuplicateMatch) => {
+    const original = invoices.find(inv => inv.id === match.originalId);
+    const duplicate = invoices.find(inv => inv.id === match.duplicateId);
+    if (!original || !duplicate) return;
+    handleInvoiceChange(mergeInvoices(original, duplicate));
+    handleDelete(duplicate.id);
+  };
+
+  const handleKeepBoth = (match: DuplicateMatch) => {
+    const updated = invoices
+      .filter(inv => inv.id === match.originalId || inv.id === match.duplicateId)
+      .map(inv => ({
+        ...inv,
+        dismissed_duplicates: [...inv.dismissed_duplicates, inv.id === match.originalId ? match.duplicateId : match.originalId],
+      }));
+    setInvoices(prev => prev.map(inv => updated.find(u => u.id === inv.id) ?? inv));
+    persist(updated);
+  };
+
+  const approvedInvoices = invoices.filter(inv => inv.review.approved);
+  // Exporting with unresolved duplicates risks paying a supplier twice
+  const exportBlockedReason =
+    duplicates.length > 0 ? 'Resolve possible duplicates before exporting' :
+    approvedInvoices.length === 0 ? 'Approve at least one invoice to export' :
+    null;
+  const reviewingInvoice = invoices.find(inv => inv.id === reviewingId) ?? null;
+
+  const openReview = (id: string, field: InvoiceField | null = null) => {
+    setReviewingId(id);
+    setReviewFocus(field);
+  };
+
+  // Clicking a value opens the review with its source region highlighted;
+  // values the model was unsure of are marked so they get checked first
+  const fieldCellProps = (inv: InvoiceData, field: InvoiceField) => {
+    const source = inv.field_sources[field];
+    return {
+      onClick: () => openReview(inv.id, field),
+      title: formatConfidence(source) || undefined,
+      className: `cursor-pointer hover:text-blue-700 ${
+        isLowConfidence(source) ? 'px-1 -mx-1 rounded bg-amber-100 underline decoration-dotted decoration-amber-600' : ''
+      }`,
+    };
+  };
+
+  // Base-currency equivalent under the original total, when it differs
+  const renderConverted = (inv: InvoiceData) => {
+    if (inv.currency === fx.base_currency || inv.total_amount === null) return null;
+    const conversion = convertInvoice(inv, fx);
+    return conversion ? (
+      <span className="block text-xs text-gray-400" title={`Rate ${conversion.rate} from ${conversion.rate_date}`}>
+        ≈ {formatMoney(conversion.total_amount, conversion.currency)}
+      </span>
+    ) : (
+      <span className="block text-xs text-amber-600">no {fx.base_currency} rate</span>
+    );
+  };
+
+  // Printed due dates open the review like other fields; ones worked out from the terms say so
+  const renderDue = (inv: InvoiceData) => {
+    const due = dueDateFor(inv);
+    if (!due) return null;
+    const overdue = inv.payable_status === 'paid' ? null : daysOverdue(inv, new Date());
+    return (
+      <span className="block">
+        {due.derived ? (
+          <span title={`From the payment terms "${inv.payment_terms}"`}>Due {due.date}*</span>
+        ) : (
+          <span {...fieldCellProps(inv, 'due_date')}>Due {due.date}</span>
+        )}
+        {overdue !== null && overdue > 0 && <span className="ml-1 font-medium text-red-600">{overdue}d overdue</span>}
+      </span>
+    );
+  };
+
+  const handleExport = (format: InvoiceExportFormat) => {
+    // Only invoices an accountant has signed off on leave the app
+    if (exportBlockedReason) return;
+    const { content, fileName, mimeType } = exportInvoices(format, approvedInvoices, issuesById, fx, settings);
+    downloadFile(content, fileName, mimeType);
   };
 
   return (
@@ -118,31 +405,37 @@ const InvoiceTab: React.FC = () => {
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <h2 className="text-lg font-semibold text-gray-800 mb-4">Upload Invoices</h2>
         <UploadArea 
-          label="Drop invoices here (PDF, JPG, PNG)" 
+          label="Drop invoices here (PDF or photos)" 
           onFilesSelected={handleFilesSelected}
-          disabled={status === 'processing'}
+          preprocessing={settings.image_preprocessing}
+          pending={files}
+          onRemove={(file) => setFiles(prev => prev.filter(f => f !== file))}
+          maxFileMb={settings.max_upload_mb}
+          camera="receipt"
         />
         
         {files.length > 0 && (
             <div className="mt-4 flex items-center justify-between">
                 <span className="text-sm text-gray-600">
                     {files.length} file{files.length > 1 ? 's' : ''} ready to process.
+                    <button onClick={() => setFiles([])} className="ml-2 text-gray-400 hover:text-red-600">Clear</button>
                 </span>
                 <button
                     onClick={processFiles}
-                    disabled={status === 'processing'}
-                    className={`
-                        px-6 py-2 rounded-lg font-medium text-white shadow-sm transition-all
-                        ${status === 'processing' 
-                            ? 'bg-blue-400 cursor-wait' 
-                            : 'bg-blue-600 hover:bg-blue-700 hover:shadow'
-                        }
-                    `}
+                    className="px-6 py-2 rounded-lg font-medium text-white shadow-sm transition-all bg-blue-600 hover:bg-blue-700 hover:shadow"
                 >
-                    {status === 'processing' ? 'Processing with Gemini...' : 'Extract Data'}
+                    {isProcessing ? 'Add to Queue' : 'Extract Data'}
                 </button>
             </div>
         )}
+
+        <QueueProgress
+          jobs={jobs}
+          onCancel={queue.cancel}
+          onRetry={queue.retry}
+          onRetryFailed={queue.retryFailed}
+          onClearFinished={queue.clearFinished}
+        />
         
         {errorMsg && (
             <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md text-sm border border-red-200">
@@ -151,20 +444,91 @@ const InvoiceTab: React.FC = () => {
         )}
       </div>
 
+      {/* Review Workspace */}
+      {reviewingInvoice && (
+        <InvoiceReview
+          invoice={reviewingInvoice}
+          issues={issuesById[reviewingInvoice.id] ?? []}
+          suppliers={suppliers}
+          ledger={settings}
+          file={reviewFile}
+          focusField={reviewFocus}
+          onChange={handleInvoiceChange}
+          onClose={() => setReviewingId(null)}
+        />
+      )}
+
+      {/* Duplicate Resolution */}
+      <DuplicatePanel
+        matches={duplicates}
+        invoices={invoices}
+        onMerge={handleMergeDuplicate}
+        onKeepBoth={handleKeepBoth}
+        onDiscard={(match) => handleDelete(match.duplicateId)}
+      />
+
+      {showVatReport && invoices.length > 0 && (
+        <VatReport invoices={invoices} fx={fx} onClose={() => setShowVatReport(false)} />
+      )}
+
+      {showPayables && invoices.length > 0 && (
+        <PayablesReport
+          invoices={invoices}
+          suppliers={suppliers}
+          fx={fx}
+          onChange={handleInvoicesChange}
+          onClose={() => setShowPayables(false)}
+        />
+      )}
+
+      {showSuppliers && (
+        <SupplierRegistry
+          suppliers={suppliers}
+          ledger={settings}
+          invoices={invoices}
+          onSave={handleSaveSuppliers}
+          onDelete={handleDeleteSupplier}
+          onClose={() => setShowSuppliers(false)}
+        />
+      )}
+
       {/* Results Section */}
       {invoices.length > 0 && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
             <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
                 <h3 className="font-semibold text-gray-800">Extraction Results</h3>
-                <button 
-                    onClick={handleDownloadCSV}
-                    className="text-sm text-blue-600 hover:text-blue-800 font-medium flex items-center gap-1"
-                >
-                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M7.5 12L12 16.5m0 0L16.5 12M12 16.5V3" />
-                    </svg>
-                    Download CSV
-                </button>
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={handleClearAll}
+                        className="text-sm text-gray-500 hover:text-red-600 font-medium"
+                    >
+                        Clear all
+                    </button>
+                    <button
+                        onClick={() => setShowSuppliers(prev => !prev)}
+                        className="text-sm text-gray-600 hover:text-gray-900 font-medium"
+                    >
+                        Suppliers
+                    </button>
+                    <button
+                        onClick={() => setShowVatReport(prev => !prev)}
+                        className="text-sm text-gray-600 hover:text-gray-900 font-medium"
+                    >
+                        VAT report
+                    </button>
+                    <button
+                        onClick={() => setShowPayables(prev => !prev)}
+                        className="text-sm text-gray-600 hover:text-gray-900 font-medium"
+                    >
+                        Payables
+                    </button>
+                    <ExportMenu
+                        options={INVOICE_EXPORT_FORMATS}
+                        onExport={handleExport}
+                        label={`Export (${approvedInvoices.length} approved)`}
+                        disabledReason={exportBlockedReason}
+                    />
+                </div>
             </div>
             <div className="overflow-x-auto">
                 <table className="min-w-full divide-y divide-gray-200">
@@ -175,18 +539,69 @@ const InvoiceTab: React.FC = () => {
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Inv #</th>
                             <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Line Items</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Checks</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                         </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                         {invoices.map((inv) => (
                             <tr key={inv.id} className="hover:bg-gray-50 transition-colors">
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 max-w-[150px] truncate" title={inv.fileName}>{inv.fileName}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{inv.invoice_date || '-'}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{inv.supplier_name}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{inv.invoice_number || '-'}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 max-w-[150px] truncate" title={inv.fileName}>
+                                    {inv.fileName}
+                                    {inv.page_range && <span className="block text-xs text-gray-400">{formatPageRange(inv.page_range)}</span>}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                    <span {...fieldCellProps(inv, 'invoice_date')}>{inv.invoice_date || '-'}</span>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                    <span {...fieldCellProps(inv, 'supplier_name')}>{inv.supplier_name}</span>
+                                    {!inv.supplier_id && inv.supplier_name !== UNKNOWN_SUPPLIER && (
+                                        <button
+                                            onClick={() => handleSaveSuppliers([supplierFromInvoice(inv)])}
+                                            className="block text-xs font-normal text-blue-600 hover:text-blue-800"
+                                            title="Not in the supplier registry"
+                                        >
+                                            + Add supplier
+                                        </button>
+                                    )}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                    <span {...fieldCellProps(inv, 'invoice_number')}>{inv.invoice_number || '-'}</span>
+                                    {inv.document_type !== 'invoice' && (
+                                        <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                                            inv.document_type === 'credit_note' ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-600'
+                                        }`}>
+                                            {documentTypeLabel(inv.document_type)}
+                                        </span>
+                                    )}
+                                    {inv.original_invoice_number && (
+                                        <span className="block text-xs text-gray-400">
+                                            Credits <span {...fieldCellProps(inv, 'original_invoice_number')}>#{inv.original_invoice_number}</span>
+                                        </span>
+                                    )}
+                                </td>
                                 <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-mono text-gray-900">
-                                    {inv.currency} {inv.total_amount?.toFixed(2)}
+                                    <span {...fieldCellProps(inv, 'total_amount')}>{formatMoney(inv.total_amount, inv.currency)}</span>
+                                    {renderConverted(inv)}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-500">
+                                    <select
+                                        value={inv.payable_status}
+                                        onChange={(e) => handleInvoiceChange(setPayableStatus(inv, e.target.value as PayableStatus))}
+                                        title={inv.payment_date ? `${inv.payable_status === 'paid' ? 'Paid' : 'Scheduled for'} ${inv.payment_date}` : undefined}
+                                        className={`mb-1 px-1 py-0.5 border rounded text-xs font-medium ${PAYABLE_STATUS_STYLES[inv.payable_status]}`}
+                                    >
+                                        {PAYABLE_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                                    </select>
+                                    {renderDue(inv)}
+                                    {inv.balance_due !== null && (
+                                        <span className="block font-mono text-gray-900">
+                                            <span {...fieldCellProps(inv, 'balance_due')}>{formatMoney(inv.balance_due, inv.currency)}</span> due
+                                        </span>
+                                    )}
+                                    {inv.payment_method && <span className="block">{inv.payment_method}</span>}
                                 </td>
                                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                                     <details className="group cursor-pointer">
@@ -210,6 +625,36 @@ const InvoiceTab: React.FC = () => {
                                         </div>
                                     </details>
                                 </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                    <div className="flex flex-col items-start gap-1">
+                                        <ValidationBadges issues={issuesById[inv.id] ?? []} />
+                                        {duplicateIds.has(inv.id) && (
+                                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-700">Possible duplicate</span>
+                                        )}
+                                    </div>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                    <div className="flex items-center gap-3">
+                                        {inv.review.approved ? (
+                                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">Approved</span>
+                                        ) : (
+                                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">Needs review</span>
+                                        )}
+                                        <button
+                                            onClick={() => openReview(inv.id)}
+                                            className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                                        >
+                                            Review
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(inv.id)}
+                                            className="text-gray-400 hover:text-red-600"
+                                            title="Delete invoice"
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                </td>
                             </tr>
                         ))}
                     </tbody>
@@ -0,0 +1,242 @@
+import React, { useMemo, useState } from 'react';
+import { InvoiceData, Supplier } from '../types';
+import {
+  AGING_BUCKETS, buildAgingReport, agingReportCsv, buildPaymentRun, paymentRunCsv, payableStatusLabel, setPayableStatus,
+} from '../services/payables';
+import { FxSettings } from '../services/fxRates';
+import { formatMoney } from '../services/currency';
+import { formatBankDetails } from '../services/bankDetails';
+import { downloadFile } from '../services/download';
+
+interface PayablesReportProps {
+  invoices: InvoiceData[];
+  suppliers: Supplier[];
+  fx: FxSettings;
+  onChange: (updated: InvoiceData[]) => void;
+  onClose: () => void;
+}
+
+type View = 'aging' | 'run';
+
+const describe = (invoice: InvoiceData) =>
+  `${invoice.supplier_name || invoice.fileName} ${invoice.invoice_number ? `#${invoice.invoice_number}` : ''}`;
+
+// Open balances by age and this week's payment run
+const PayablesReport: React.FC<PayablesReportProps> = ({ invoices, suppliers, fx, onChange, onClose }) => {
+  const [view, setView] = useState<View>('aging');
+  const [approvedOnly, setApprovedOnly] = useState(true);
+
+  const aging = useMemo(
+    () => buildAgingReport(invoices, suppliers, { fx, approvedOnly }),
+    [invoices, suppliers, fx, approvedOnly],
+  );
+  const run = useMemo(() => buildPaymentRun(invoices, suppliers), [invoices, suppliers]);
+
+  const handleDownload = () => {
+    if (view === 'aging') {
+      downloadFile(agingReportCsv(aging), `aged_payables_${aging.as_of}.csv`, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(paymentRunCsv(run), `payment_run_${run.through}.csv`, 'text/csv;charset=utf-8');
+    }
+  };
+
+  // Once the run has gone out, every invoice in it is paid today
+  const handleMarkPaid = () => {
+    if (!window.confirm(`Mark the ${run.lines.length} invoices in this run as paid today?`)) return;
+    onChange(run.lines.map(line => setPayableStatus(line.invoice, 'paid')));
+  };
+
+  const handleMarkScheduled = () => {
+    onChange(run.lines.filter(line => line.invoice.payable_status === 'unpaid').map(line => ({
+      ...setPayableStatus(line.invoice, 'scheduled'),
+      payment_date: line.invoice.payment_date ?? run.through,
+    })));
+  };
+
+  const tabClass = (tab: View) =>
+    `text-sm font-medium ${view === tab ? 'text-gray-900 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-800'}`;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+        <div className="flex items-center gap-6">
+          <h3 className="font-semibold text-gray-800">Payables</h3>
+          <button onClick={() => setView('aging')} className={tabClass('aging')}>Aging ({aging.currency})</button>
+          <button onClick={() => setView('run')} className={tabClass('run')}>Payment run</button>
+        </div>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={handleDownload}
+            disabled={view === 'aging' ? aging.rows.length === 0 : run.lines.length === 0}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-300"
+          >
+            Download CSV
+          </button>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-800 font-medium">
+            Close
+          </button>
+        </div>
+      </div>
+
+      {view === 'aging' ? (
+        <div className="p-4 space-y-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={approvedOnly}
+              onChange={(e) => setApprovedOnly(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Approved invoices only
+          </label>
+
+          {aging.rows.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing is outstanding.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase border-b border-gray-100">
+                  <th className="text-left font-medium py-2">Supplier</th>
+                  {AGING_BUCKETS.map(b => <th key={b.id} className="text-right font-medium py-2">{b.label}</th>)}
+                  <th className="text-right font-medium py-2">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {aging.rows.map(row => (
+                  <tr key={row.key}>
+                    <td className="py-2 text-gray-800">
+                      {row.supplier}
+                      <span className="ml-2 text-xs text-gray-400">{row.invoice_count}</span>
+                    </td>
+                    {AGING_BUCKETS.map(b => (
+                      <td
+                        key={b.id}
+                        className={`py-2 text-right font-mono ${
+                          row.buckets[b.id] === 0 ? 'text-gray-300' : b.id === 'current' ? 'text-gray-800' : 'text-red-700'
+                        }`}
+                      >
+                        {formatMoney(row.buckets[b.id], aging.currency)}
+                      </td>
+                    ))}
+                    <td className="py-2 text-right font-mono font-medium">{formatMoney(row.total, aging.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t border-gray-200 font-semibold text-gray-800">
+                  <td className="py-2">Total</td>
+                  {AGING_BUCKETS.map(b => (
+                    <td key={b.id} className="py-2 text-right font-mono">{formatMoney(aging.buckets[b.id], aging.currency)}</td>
+                  ))}
+                  <td className="py-2 text-right font-mono">{formatMoney(aging.total, aging.currency)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+
+          {aging.excluded.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800">
+              <p className="font-medium mb-1">Not included ({aging.excluded.length}):</p>
+              <ul className="space-y-0.5">
+                {aging.excluded.map(({ invoice, reason }) => (
+                  <li key={invoice.id}>{describe(invoice)} — {reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="p-4 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-gray-600">
+              Approved invoices due or scheduled by {run.through}, overdue ones included.
+              {run.totals.length > 0 && (
+                <span className="ml-1 font-medium text-gray-800">
+                  To pay: {run.totals.map(t => formatMoney(t.amount, t.currency)).join(' + ')}
+                </span>
+              )}
+            </p>
+            {run.lines.length > 0 && (
+              <div className="flex items-center gap-4">
+                <button onClick={handleMarkScheduled} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                  Mark scheduled
+                </button>
+                <button onClick={handleMarkPaid} className="text-sm text-green-700 hover:text-green-900 font-medium">
+                  Mark all paid
+                </button>
+              </div>
+            )}
+          </div>
+
+          {run.lines.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing is due this week.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase border-b border-gray-100">
+                  <th className="text-left font-medium py-2">Supplier</th>
+                  <th className="text-left font-medium py-2">Invoice #</th>
+                  <th className="text-left font-medium py-2">Due</th>
+                  <th className="text-left font-medium py-2">Status</th>
+                  <th className="text-left font-medium py-2">Pay to</th>
+                  <th className="text-right font-medium py-2">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {run.lines.map(({ invoice, supplier, due_date, days_overdue, amount }) => (
+                  <tr key={invoice.id}>
+                    <td className="py-2 text-gray-800">{supplier}</td>
+                    <td className="py-2 text-gray-500">
+                      {invoice.invoice_number || '-'}
+                      {invoice.document_type === 'credit_note' && <span className="ml-1 text-xs text-purple-700">credit</span>}
+                    </td>
+                    <td className="py-2 text-gray-500">
+                      {due_date ?? '-'}
+                      {days_overdue !== null && days_overdue > 0 && (
+                        <span className="ml-1 text-xs font-medium text-red-600">{days_overdue}d overdue</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-xs text-gray-500">
+                      {payableStatusLabel(invoice.payable_status)}
+                      {invoice.payable_status === 'scheduled' && invoice.payment_date && ` for ${invoice.payment_date}`}
+                    </td>
+                    <td className="py-2 text-xs text-gray-500 max-w-xs truncate" title={formatBankDetails(invoice.supplier_bank)}>
+                      {formatBankDetails(invoice.supplier_bank) || invoice.payment_method || <span className="text-amber-600">No bank details</span>}
+                    </td>
+                    <td className="py-2 text-right font-mono">{formatMoney(amount, invoice.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {run.carried_credits.length > 0 && (
+            <div className="p-3 bg-purple-50 border border-purple-200 rounded-md text-xs text-purple-800">
+              <p className="font-medium mb-1">Credits carried forward ({run.carried_credits.length}):</p>
+              <ul className="space-y-0.5">
+                {run.carried_credits.map(({ invoice, amount }) => (
+                  <li key={invoice.id}>
+                    {describe(invoice)} — {formatMoney(amount, invoice.currency)} is more than is left to pay this supplier
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {run.held.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800">
+              <p className="font-medium mb-1">Held back ({run.held.length}):</p>
+              <ul className="space-y-0.5">
+                {run.held.map(({ invoice, reason }) => (
+                  <li key={invoice.id}>{describe(invoice)} — {reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayablesReport;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { PreprocessResult } from '../services/imagePreprocessing';
+
+interface PendingFileListProps {
+  files: File[];
+  results: PreprocessResult[]; // Preprocessing outcome for files that went through it
+  onRemove?: (file: File) => void;
+}
+
+const Thumbnail: React.FC<{ file: File; label?: string }> = ({ file, label }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const isImage = file.type.startsWith('image/');
+
+  useEffect(() => {
+    if (!isImage) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    setFailed(false);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file, isImage]);
+
+  return (
+    <figure className="flex-1 min-w-0">
+      <div className="h-24 flex items-center justify-center bg-gray-100 rounded border border-gray-200 overflow-hidden">
+        {url && !failed ? (
+          <img src={url} alt={label ? `${label}: ${file.name}` : file.name} className="max-h-full max-w-full object-contain" onError={() => setFailed(true)} />
+        ) : file.type === 'application/pdf' ? (
+          <span className="text-xs font-semibold text-red-600">PDF</span>
+        ) : (
+          // HEIC and TIFF originals usually can't be shown by the browser
+          <span className="text-xs text-gray-400 px-2 text-center">No preview</span>
+        )}
+      </div>
+      {label && <figcaption className="mt-1 text-[11px] text-gray-500">{label}</figcaption>}
+    </figure>
+  );
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Files waiting for extraction; prepared images show what preprocessing did to them
+const PendingFileList: React.FC<PendingFileListProps> = ({ files, results, onRemove }) => {
+  if (files.length === 0) return null;
+
+  return (
+    <ul className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+      {files.map((file, idx) => {
+        const result = results.find(r => r.file === file);
+        const changed = result && result.file !== result.original;
+        return (
+          <li key={`${file.name}-${file.lastModified}-${idx}`} className="p-3 rounded-lg border border-gray-200 bg-white">
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <p className="text-xs font-medium text-gray-700 truncate" title={file.name}>
+                {result?.original.name ?? file.name}
+                <span className="ml-1 font-normal text-gray-400">{formatSize(file.size)}</span>
+              </p>
+              {onRemove && (
+                <button onClick={() => onRemove(file)} className="text-gray-400 hover:text-red-600 text-xs" title="Remove">✕</button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {changed && <Thumbnail file={result.original} label="Before" />}
+              <Thumbnail file={file} label={changed ? 'After' : undefined} />
+            </div>
+            {result?.error && (
+              <p className="mt-2 text-xs text-amber-700">Could not prepare this image ({result.error}); the original will be sent.</p>
+            )}
+            {changed && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {result.steps.map(step => (
+                  <span key={step} className="px-2 py-0.5 rounded-full text-[11px] bg-blue-50 text-blue-700">{step}</span>
+                ))}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default PendingFileList;
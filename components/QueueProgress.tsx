@@ -0,0 +1,82 @@
+import React from 'react';
+import { ExtractionJob, JobStatus } from '../types';
+
+interface QueueProgressProps {
+  jobs: ExtractionJob[];
+  onCancel: () => void;
+  onRetry: (jobId: string) => void;
+  onRetryFailed: () => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-600' },
+  processing: { label: 'Processing', className: 'bg-blue-100 text-blue-700' },
+  success: { label: 'Done', className: 'bg-green-100 text-green-700' },
+  error: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-500' },
+};
+
+const QueueProgress: React.FC<QueueProgressProps> = ({ jobs, onCancel, onRetry, onRetryFailed, onClearFinished }) => {
+  if (jobs.length === 0) return null;
+
+  const finished = jobs.filter(j => j.status === 'success' || j.status === 'error' || j.status === 'cancelled').length;
+  const failed = jobs.filter(j => j.status === 'error' || j.status === 'cancelled').length;
+  const running = finished < jobs.length;
+  const percent = Math.round((finished / jobs.length) * 100);
+
+  return (
+    <div className="mt-4 border border-gray-200 rounded-lg">
+      <div className="p-3 border-b border-gray-100 bg-gray-50 rounded-t-lg">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium text-gray-700">
+            {finished} of {jobs.length} processed{failed > 0 && <span className="text-red-600"> · {failed} failed</span>}
+          </span>
+          <div className="flex items-center gap-4">
+            {running && (
+              <button onClick={onCancel} className="text-xs text-red-600 hover:text-red-800 font-medium">
+                Cancel batch
+              </button>
+            )}
+            {failed > 0 && (
+              <button onClick={onRetryFailed} className="text-xs text-blue-600 hover:text-blue-800 font-medium">
+                Retry failed
+              </button>
+            )}
+            {!running && (
+              <button onClick={onClearFinished} className="text-xs text-gray-500 hover:text-gray-800 font-medium">
+                Dismiss
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+      <ul className="divide-y divide-gray-100 max-h-60 overflow-y-auto text-sm">
+        {jobs.map(job => (
+          <li key={job.id} className="px-3 py-2 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="truncate text-gray-700" title={job.file.name}>{job.file.name}</div>
+              {job.error && <div className="text-xs text-red-600 truncate" title={job.error}>{job.error}</div>}
+            </div>
+            <div className="flex items-center gap-3 shrink-0">
+              {job.attempts > 1 && <span className="text-xs text-gray-400">attempt {job.attempts}</span>}
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[job.status].className}`}>
+                {STATUS_STYLES[job.status].label}
+              </span>
+              {(job.status === 'error' || job.status === 'cancelled') && (
+                <button onClick={() => onRetry(job.id)} className="text-xs text-blue-600 hover:text-blue-800 font-medium">
+                  Retry
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QueueProgress;
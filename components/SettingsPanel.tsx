@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { AppSettings, DEFAULT_SETTINGS } from '../services/settings';
+import { CURRENCY_CODES } from '../services/currency';
+import { parseFxCsv, mergeFxRates, fxRatesCsv } from '../services/fxRates';
+import { downloadFile } from '../services/download';
+import { PHONE_COUNTRIES } from '../services/phone';
+import CategorySettings from './CategorySettings';
+import { TaxRateBand, ImagePreprocessingOptions, ImageColorMode } from '../types';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const [fxMessage, setFxMessage] = useState<string | null>(null);
+
+  const importFxRates = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const { rates, errors } = parseFxCsv(await file.text());
+    onChange({ ...settings, fx_rates: mergeFxRates(settings.fx_rates, rates) });
+    setFxMessage(
+      `Imported ${rates.length} rate${rates.length === 1 ? '' : 's'}` +
+      (errors.length > 0 ? `; skipped ${errors.length}: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '…' : ''}` : '.'),
+    );
+  };
+
+  const fxCurrencies = [...new Set(settings.fx_rates.map(rate => rate.currency))];
+  const updateBand = (index: number, patch: Partial<TaxRateBand>) => {
+    onChange({
+      ...settings,
+      tax_rate_bands: settings.tax_rate_bands.map((band, i) => (i === index ? { ...band, ...patch } : band)),
+    });
+  };
+
+  const addBand = () => {
+    onChange({ ...settings, tax_rate_bands: [...settings.tax_rate_bands, { label: 'New band', min: 0, max: 0 }] });
+  };
+
+  const updateImages = (patch: Partial<ImagePreprocessingOptions>) => {
+    onChange({ ...settings, image_preprocessing: { ...settings.image_preprocessing, ...patch } });
+  };
+
+  const removeBand = (index: number) => {
+    onChange({ ...settings, tax_rate_bands: settings.tax_rate_bands.filter((_, i) => i !== index) });
+  };
+
+  const images = settings.image_preprocessing;
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-start justify-center bg-black/30 p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-lg mt-16"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50 rounded-t-xl">
+          <h3 className="font-semibold text-gray-800">Settings</h3>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-800 font-medium">Close</button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700">Extraction</h4>
+            <p className="text-xs text-gray-500 mb-3">
+              How many files are processed at once, how often rate-limited or failed requests are retried, and the largest file accepted.
+            </p>
+            <div className="grid grid-cols-3 gap-4">
+              <label className="text-xs font-medium text-gray-600">
+                Parallel files
+                <input
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={settings.extraction_concurrency}
+                  onChange={(e) => onChange({ ...settings, extraction_concurrency: Math.max(1, Number(e.target.value) || 1) })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                Retries per file
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={settings.extraction_max_retries}
+                  onChange={(e) => onChange({ ...settings, extraction_max_retries: Math.max(0, Number(e.target.value) || 0) })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                Max file size (MB)
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={settings.max_upload_mb}
+                  onChange={(e) => onChange({ ...settings, max_upload_mb: Math.max(1, Number(e.target.value) || 1) })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </label>
+            </div>
+            <label className="mt-3 flex items-start gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={settings.split_multi_invoice_documents}
+                onChange={(e) => onChange({ ...settings, split_multi_invoice_documents: e.target.checked })}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-medium">Split multi-invoice documents</span>
+                <span className="block text-gray-500">
+                  Treat each upload as possibly containing several invoices, e.g. a scanned stack or a supplier statement.
+                </span>
+              </span>
+            </label>
+          </section>
+
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700">Currency</h4>
+            <p className="text-xs text-gray-500 mb-3">
+              Totals in other currencies are converted at the latest rate dated on or before the invoice date.
+              Import rates as a CSV with <code>date,currency,rate</code> columns, where rate is the value of one unit in the base currency.
+            </p>
+            <div className="flex items-end gap-4">
+              <label className="text-xs font-medium text-gray-600">
+                Base currency
+                <select
+                  value={settings.base_currency}
+                  onChange={(e) => onChange({ ...settings, base_currency: e.target.value })}
+                  className="mt-1 block w-28 px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                >
+                  {CURRENCY_CODES.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+              </label>
+              <div className="flex-grow text-xs text-gray-600">
+                {settings.fx_rates.length} rate{settings.fx_rates.length === 1 ? '' : 's'}
+                {fxCurrencies.length > 0 && <span className="text-gray-400"> ({fxCurrencies.join(', ')})</span>}
+              </div>
+            </div>
+            <div className="flex gap-3 mt-2 text-xs font-medium">
+              <label className="text-blue-600 hover:text-blue-800 cursor-pointer">
+                Import CSV…
+                <input type="file" accept=".csv,text/csv" className="hidden" onChange={importFxRates} />
+              </label>
+              {settings.fx_rates.length > 0 && (
+                <>
+                  <button
+                    onClick={() => downloadFile(fxRatesCsv(settings.fx_rates), 'fx_rates.csv', 'text/csv;charset=utf-8')}
+                    className="text-gray-500 hover:text-gray-800"
+                  >
+                    Download
+                  </button>
+                  <button
+                    onClick={() => {
+                      onChange({ ...settings, fx_rates: [] });
+                      setFxMessage(null);
+                    }}
+                    className="text-gray-500 hover:text-red-600"
+                  >
+                    Clear rates
+                  </button>
+                </>
+              )}
+            </div>
+            {fxMessage && <p className="mt-2 text-xs text-gray-600">{fxMessage}</p>}
+          </section>
+
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700">Contacts</h4>
+            <p className="text-xs text-gray-500 mb-3">
+              Phone numbers printed without a country code are assumed to be from this country when converting them to
+              international (E.164) form for exports and duplicate checks.
+            </p>
+            <label className="text-xs font-medium text-gray-600">
+              Default phone country
+              <select
+                value={settings.default_phone_country ?? ''}
+                onChange={(e) => onChange({ ...settings, default_phone_country: e.target.value || null })}
+                className="mt-1 block w-48 px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+              >
+                <option value="">None (international numbers only)</option>
+                {PHONE_COUNTRIES.map(code => <option key={code} value={code}>{code}</option>)}
+              </select>
+            </label>
+          </section>
+
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700">Image preparation</h4>
+            <p className="text-xs text-gray-500 mb-3">
+              Photos and scans are cleaned up in the browser before upload. PDFs are sent as they are.
+            </p>
+            <div className="space-y-2 text-xs text-gray-600">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={images.enabled}
+                  onChange={(e) => updateImages({ enabled: e.target.checked })}
+                />
+                <span className="font-medium">Prepare images before upload</span>
+              </label>
+              <label className="flex items-center gap-2 pl-5">
+                <input
+                  type="checkbox"
+                  checked={images.auto_crop}
+                  disabled={!images.enabled}
+                  onChange={(e) => updateImages({ auto_crop: e.target.checked })}
+                />
+                Crop to document edges
+              </label>
+              <label className="flex items-center gap-2 pl-5">
+                <input
+                  type="checkbox"
+                  checked={images.deskew}
+                  disabled={!images.enabled}
+                  onChange={(e) => updateImages({ deskew: e.target.checked })}
+                />
+                Straighten tilted pages
+              </label>
+            </div>
+            <div className="grid grid-cols-3 gap-4 mt-3">
+              <label className="text-xs font-medium text-gray-600">
+                Colour
+                <select
+                  value={images.color_mode}
+                  disabled={!images.enabled}
+                  onChange={(e) => updateImages({ color_mode: e.target.value as ImageColorMode })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                >
+                  <option value="color">Original</option>
+                  <option value="grayscale">Grayscale</option>
+                  <option value="high_contrast">High contrast</option>
+                </select>
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                Longest side (px)
+                <input
+                  type="number"
+                  min={800}
+                  step={100}
+                  value={images.max_dimension}
+                  disabled={!images.enabled}
+                  onChange={(e) => updateImages({ max_dimension: Math.max(800, Number(e.target.value) || 800) })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                Max size (KB)
+                <input
+                  type="number"
+                  min={100}
+                  step={100}
+                  value={images.max_kb}
+                  disabled={!images.enabled}
+                  onChange={(e) => updateImages({ max_kb: Math.max(100, Number(e.target.value) || 100) })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </label>
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700">Tax rate bands</h4>
+            <p className="text-xs text-gray-500 mb-3">
+              Invoices whose effective tax rate (tax ÷ net total) falls outside every band are flagged.
+            </p>
+            <div className="space-y-2">
+              {settings.tax_rate_bands.map((band, idx) => (
+                <div key={idx} className="flex items-center gap-2">
+                  <input
+                    value={band.label}
+                    onChange={(e) => updateBand(idx, { label: e.target.value })}
+                    className="flex-grow px-2 py-1 border border-gray-300 rounded text-sm"
+                  />
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={band.min}
+                    onChange={(e) => updateBand(idx, { min: Number(e.target.value) })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-right"
+                  />
+                  <span className="text-xs text-gray-400">to</span>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={band.max}
+                    onChange={(e) => updateBand(idx, { max: Number(e.target.value) })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-right"
+                  />
+                  <span className="text-xs text-gray-400">%</span>
+                  <button onClick={() => removeBand(idx)} className="text-gray-400 hover:text-red-600" title="Remove band">✕</button>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-2">
+              <button onClick={addBand} className="text-xs text-blue-600 hover:text-blue-800 font-medium">+ Add band</button>
+              <button
+                onClick={() => onChange({ ...settings, tax_rate_bands: DEFAULT_SETTINGS.tax_rate_bands })}
+                className="text-xs text-gray-500 hover:text-gray-800"
+              >
+                Reset to defaults
+              </button>
+            </div>
+          </section>
+
+          <CategorySettings settings={settings} onChange={onChange} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { InvoiceData, Supplier } from '../types';
+import { importSuppliersCsv, suppliersCsv, supplierFromInvoice, unregisteredSuppliers } from '../services/supplierRegistry';
+import { CURRENCY_CODES } from '../services/currency';
+import { downloadFile } from '../services/download';
+
+interface SupplierRegistryProps {
+  suppliers: Supplier[];
+  invoices: InvoiceData[];
+  onSave: (suppliers: Supplier[]) => void; // Added or edited suppliers
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const SupplierRegistry: React.FC<SupplierRegistryProps> = ({ suppliers, invoices, onSave, onDelete, onClose }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const unregistered = unregisteredSuppliers(invoices);
+
+  const invoiceCount = (id: string) => invoices.filter(inv => inv.supplier_id === id).length;
+
+  const update = (supplier: Supplier, patch: Partial<Supplier>) => onSave([{ ...supplier, ...patch }]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const { suppliers: imported, added, updated, errors } = importSuppliersCsv(await file.text(), suppliers);
+    onSave(imported.filter(s => !suppliers.includes(s)));
+    setMessage(
+      `Added ${added} and updated ${updated} supplier${added + updated === 1 ? '' : 's'}` +
+      (errors.length > 0 ? `; skipped ${errors.length}: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '…' : ''}` : '.'),
+    );
+  };
+
+  const handleDelete = (supplier: Supplier) => {
+    const count = invoiceCount(supplier.id);
+    if (count > 0 && !window.confirm(`Remove ${supplier.name}? ${count} invoice${count === 1 ? '' : 's'} will be unlinked.`)) return;
+    onDelete(supplier.id);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+        <h3 className="font-semibold text-gray-800">Suppliers ({suppliers.length})</h3>
+        <div className="flex items-center gap-4">
+          <label className="text-sm text-blue-600 hover:text-blue-800 font-medium cursor-pointer">
+            Import CSV
+            <input type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={() => downloadFile(suppliersCsv(suppliers), 'suppliers.csv', 'text/csv;charset=utf-8')}
+            disabled={suppliers.length === 0}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-300"
+          >
+            Download CSV
+          </button>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-800 font-medium">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {message && <p className="text-xs text-gray-600">{message}</p>}
+
+        {unregistered.length > 0 && (
+          <div className="p-3 bg-blue-50 border border-blue-100 rounded-md">
+            <p className="text-xs font-medium text-blue-800 mb-2">Suppliers on invoices that aren't registered yet:</p>
+            <ul className="space-y-1 text-sm">
+              {unregistered.map(({ invoice, count }) => (
+                <li key={invoice.id} className="flex items-center justify-between">
+                  <span className="text-gray-800">
+                    {invoice.supplier_name}
+                    {invoice.supplier_tax_id && <span className="ml-2 text-xs text-gray-500 font-mono">{invoice.supplier_tax_id}</span>}
+                    <span className="ml-2 text-xs text-gray-500">{count} invoice{count === 1 ? '' : 's'}</span>
+                  </span>
+                  <button
+                    onClick={() => onSave([supplierFromInvoice(invoice)])}
+                    className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    + Add
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {suppliers.length === 0 ? (
+          <p className="text-sm text-gray-500">No suppliers registered. Add them from your invoices or import a CSV.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="text-left font-medium pb-1">Name</th>
+                  <th className="text-left font-medium pb-1 w-36">Tax ID</th>
+                  <th className="text-left font-medium pb-1 w-24">Currency</th>
+                  <th className="text-left font-medium pb-1 w-32">Category</th>
+                  <th className="text-left font-medium pb-1">Also known as</th>
+                  <th className="text-right font-medium pb-1 w-16">Invoices</th>
+                  <th className="w-6"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {suppliers.map(supplier => (
+                  <tr key={supplier.id}>
+                    <td className="pr-1 py-1">
+                      <input
+                        value={supplier.name}
+                        onChange={(e) => update(supplier, { name: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <input
+                        value={supplier.tax_id ?? ''}
+                        onChange={(e) => update(supplier, { tax_id: e.target.value || null })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm font-mono"
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <select
+                        value={supplier.default_currency ?? ''}
+                        onChange={(e) => update(supplier, { default_currency: e.target.value || null })}
+                        className="w-full px-1 py-1 border border-gray-300 rounded text-sm"
+                      >
+                        <option value="">-</option>
+                        {CURRENCY_CODES.map(code => <option key={code} value={code}>{code}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-1 py-1">
+                      <input
+                        value={supplier.default_category ?? ''}
+                        onChange={(e) => update(supplier, { default_category: e.target.value || null })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      {/* Committed on blur so typing a separator doesn't split the text mid-word */}
+                      <input
+                        key={supplier.aliases.join(';')}
+                        defaultValue={supplier.aliases.join('; ')}
+                        onBlur={(e) => update(supplier, { aliases: e.target.value.split(';').map(a => a.trim()).filter(Boolean) })}
+                        placeholder="Separate with ;"
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </td>
+                    <td className="px-1 py-1 text-right text-gray-500">{invoiceCount(supplier.id)}</td>
+                    <td className="pl-1 py-1 text-right">
+                      <button
+                        onClick={() => handleDelete(supplier)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove supplier"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SupplierRegistry;
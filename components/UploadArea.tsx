@@ -1,53 +1,215 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import PendingFileList from './PendingFileList';
+import CameraCapture from './CameraCapture';
+import { preprocessFile, PreprocessResult, ACCEPTED_UPLOAD_TYPES } from '../services/imagePreprocessing';
+import { filesFromDataTransfer, ingestFiles, sizeProblem } from '../services/fileIngestion';
+import { CaptureTarget } from '../services/cameraCapture';
+import { ImagePreprocessingOptions } from '../types';
 
 interface UploadAreaProps {
   onFilesSelected: (files: File[]) => void;
   disabled?: boolean;
   label: string;
+  preprocessing?: ImagePreprocessingOptions; // Clean up images before handing them on
+  pending?: File[]; // Files still waiting to be processed, listed with thumbnails
+  onRemove?: (file: File) => void;
+  camera?: CaptureTarget; // Offer live camera capture framed for this kind of document
+  maxFileMb?: number;
 }
 
-const UploadArea: React.FC<UploadAreaProps> = ({ onFilesSelected, disabled, label }) => {
+const sameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+const UploadArea: React.FC<UploadAreaProps> = ({
+  onFilesSelected, disabled, label, preprocessing, pending = [], onRemove, camera, maxFileMb = 20,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const dragDepth = useRef(0);
+  const [dragging, setDragging] = useState(false);
+  const [preparing, setPreparing] = useState(false);
+  const [results, setResults] = useState<PreprocessResult[]>([]);
+  const [failures, setFailures] = useState<string[]>([]);
+  const [cameraOpen, setCameraOpen] = useState(false);
+
+  const inactive = disabled || preparing;
+
+  // Expands archives, turns away unusable files, then prepares images one at a
+  // time to keep memory in check with large phone photos
+  const addFiles = async (incoming: File[]) => {
+    if (incoming.length === 0) return;
+    setPreparing(true);
+    const maxBytes = maxFileMb * 1024 * 1024;
+    const { accepted, rejected } = await ingestFiles(incoming, maxBytes, !!preprocessing?.enabled);
+
+    const alreadyAdded = (file: File) =>
+      pending.some(p => sameFile(p, file)) || results.some(r => pending.includes(r.file) && sameFile(r.original, file));
+    const fresh = accepted.filter(file => {
+      if (!alreadyAdded(file)) return true;
+      rejected.push(`${file.name}: already added`);
+      return false;
+    });
+
+    const prepared: PreprocessResult[] = [];
+    for (const file of fresh) {
+      if (!preprocessing?.enabled) {
+        prepared.push({ original: file, file, steps: [], error: null });
+        continue;
+      }
+      try {
+        const result = await preprocessFile(file, preprocessing);
+        const tooLarge = sizeProblem(result.file, maxBytes, result.original.name);
+        if (tooLarge) rejected.push(tooLarge);
+        else prepared.push(result);
+      } catch (e) {
+        rejected.push(e instanceof Error ? e.message : `Could not read ${file.name}`);
+      }
+    }
+
+    setPreparing(false);
+    setResults(prev => [...prev.filter(result => pending.includes(result.file)), ...prepared]);
+    setFailures(rejected);
+    if (prepared.length > 0) onFilesSelected(prepared.map(result => result.file));
+  };
+
+  // The paste listener is registered once, so it reaches the latest props through a ref
+  const addFilesRef = useRef(addFiles);
+  addFilesRef.current = addFiles;
+  const inactiveRef = useRef(inactive);
+  inactiveRef.current = inactive;
+
+  // Screenshots pasted anywhere on the page land in the upload area that is on screen
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const container = containerRef.current;
+      if (!container || container.offsetParent === null || inactiveRef.current) return;
+      const pasted = Array.from(event.clipboardData?.files ?? []);
+      if (pasted.length === 0) return;
+      event.preventDefault();
+      // Clipboard images are all called "image.png"
+      const stamp = Date.now();
+      addFilesRef.current(pasted.map((file, idx) =>
+        new File([file], `pasted-${stamp}-${idx + 1}.${file.type.split('/')[1] || 'png'}`, { type: file.type, lastModified: stamp }),
+      ));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
-      onFilesSelected(Array.from(event.target.files));
+      addFiles(Array.from(event.target.files));
       // Reset input so same file can be selected again if needed
       event.target.value = '';
     }
   };
 
+  const handleDragEnter = (event: React.DragEvent) => {
+    event.preventDefault();
+    dragDepth.current++;
+    if (!inactive) setDragging(true);
+  };
+
+  // Entering a child element fires leave on the parent, hence the depth count
+  const handleDragLeave = (event: React.DragEvent) => {
+    event.preventDefault();
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setDragging(false);
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    dragDepth.current = 0;
+    setDragging(false);
+    if (inactive) return;
+    try {
+      addFiles(await filesFromDataTransfer(event.dataTransfer));
+    } catch (e) {
+      console.error("Failed to read dropped files", e);
+      setFailures(['Could not read the dropped files.']);
+    }
+  };
+
   const handleClick = () => {
     fileInputRef.current?.click();
   };
 
   return (
-    <div 
-      onClick={!disabled ? handleClick : undefined}
-      className={`
-        border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors
-        ${disabled 
-          ? 'bg-gray-100 border-gray-300 cursor-not-allowed text-gray-400' 
-          : 'border-blue-300 hover:bg-blue-50 hover:border-blue-500 text-gray-600'
-        }
-      `}
-    >
-      <input
-        type="file"
-        ref={fileInputRef}
-        onChange={handleFileChange}
-        className="hidden"
-        accept="image/jpeg,image/png,application/pdf"
-        multiple
-        disabled={disabled}
-      />
-      <div className="flex flex-col items-center justify-center gap-2">
-        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-10 h-10 text-blue-500">
-          <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
-        </svg>
-        <p className="font-medium text-lg">{label}</p>
-        <p className="text-sm text-gray-400">Supported: JPG, PNG, PDF</p>
+    <div ref={containerRef}>
+      <div 
+        onClick={!inactive ? handleClick : undefined}
+        onDragEnter={handleDragEnter}
+        onDragOver={(e) => e.preventDefault()}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`
+          border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors
+          ${inactive 
+            ? 'bg-gray-100 border-gray-300 cursor-not-allowed text-gray-400' 
+            : dragging
+              ? 'bg-blue-50 border-blue-500 text-gray-700'
+              : 'border-blue-300 hover:bg-blue-50 hover:border-blue-500 text-gray-600'
+          }
+        `}
+      >
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          className="hidden"
+          accept={ACCEPTED_UPLOAD_TYPES}
+          multiple
+          disabled={inactive}
+        />
+        <input
+          type="file"
+          ref={folderInputRef}
+          onChange={handleFileChange}
+          className="hidden"
+          {...{ webkitdirectory: '' }}
+          disabled={inactive}
+        />
+        <div className="flex flex-col items-center justify-center gap-2">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-10 h-10 text-blue-500">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
+          </svg>
+          <p className="font-medium text-lg">{preparing ? 'Preparing files…' : dragging ? 'Drop to add' : label}</p>
+          <p className="text-sm text-gray-400">
+            PDF, JPG, PNG, HEIC, WebP, TIFF or ZIP, up to {maxFileMb} MB each. Drop folders or paste screenshots too.
+          </p>
+          {!inactive && (
+            <button
+              onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }}
+              className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+            >
+              Choose a folder
+            </button>
+          )}
+        </div>
       </div>
+      {camera && !disabled && (
+        <button
+          onClick={() => setCameraOpen(true)}
+          className="mt-3 w-full py-2 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Use camera
+        </button>
+      )}
+      {cameraOpen && camera && (
+        <CameraCapture target={camera} onCapture={(file) => addFiles([file])} onClose={() => setCameraOpen(false)} />
+      )}
+      {failures.length > 0 && (
+        <div className="mt-3 p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">
+          <div className="flex justify-between items-start gap-2">
+            <p className="font-medium">{failures.length} file{failures.length > 1 ? 's were' : ' was'} not added</p>
+            <button onClick={() => setFailures([])} className="text-red-400 hover:text-red-700" title="Dismiss">✕</button>
+          </div>
+          <ul className="mt-1 space-y-0.5 text-xs">
+            {failures.map((message, idx) => <li key={idx}>{message}</li>)}
+          </ul>
+        </div>
+      )}
+      <PendingFileList files={pending} results={results} onRemove={onRemove} />
     </div>
   );
 };
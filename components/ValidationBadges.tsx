@@ -0,0 +1,33 @@
+import React from 'react';
+import { ValidationIssue } from '../types';
+import { formatIssues } from '../services/invoiceValidation';
+
+interface ValidationBadgesProps {
+  issues: ValidationIssue[];
+}
+
+const ValidationBadges: React.FC<ValidationBadgesProps> = ({ issues }) => {
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  if (issues.length === 0) {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-50 text-green-700">OK</span>;
+  }
+
+  return (
+    <span className="inline-flex gap-1" title={formatIssues(issues)}>
+      {errors > 0 && (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">
+          {errors} error{errors > 1 ? 's' : ''}
+        </span>
+      )}
+      {warnings > 0 && (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+          {warnings} warning{warnings > 1 ? 's' : ''}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default ValidationBadges;
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { InvoiceData } from '../types';
+import { buildVatReport, vatReportCsv, TAX_TYPE_LABELS } from '../services/taxReport';
+import { FxSettings } from '../services/fxRates';
+import { formatMoney } from '../services/currency';
+import { downloadFile } from '../services/download';
+
+interface VatReportProps {
+  invoices: InvoiceData[];
+  fx: FxSettings;
+  onClose: () => void;
+}
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Most returns are filed quarterly, so start with the quarter we're in
+const currentQuarter = (): { from: string; to: string } => {
+  const today = new Date();
+  const firstMonth = Math.floor(today.getMonth() / 3) * 3;
+  return {
+    from: isoDate(new Date(today.getFullYear(), firstMonth, 1)),
+    to: isoDate(new Date(today.getFullYear(), firstMonth + 3, 0)),
+  };
+};
+
+const VatReport: React.FC<VatReportProps> = ({ invoices, fx, onClose }) => {
+  const [period, setPeriod] = useState(currentQuarter);
+  const [approvedOnly, setApprovedOnly] = useState(true);
+
+  const report = useMemo(
+    () => buildVatReport(invoices, { ...period, fx, approvedOnly }),
+    [invoices, period, fx, approvedOnly],
+  );
+
+  const handleDownload = () => {
+    downloadFile(vatReportCsv(report), `vat_report_${report.from}_${report.to}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+        <h3 className="font-semibold text-gray-800">VAT Report ({report.currency})</h3>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={handleDownload}
+            disabled={report.rows.length === 0}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-300"
+          >
+            Download CSV
+          </button>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-800 font-medium">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            From
+            <input
+              type="date"
+              value={period.from}
+              onChange={(e) => setPeriod(prev => ({ ...prev, from: e.target.value }))}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            To
+            <input
+              type="date"
+              value={period.to}
+              onChange={(e) => setPeriod(prev => ({ ...prev, to: e.target.value }))}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={approvedOnly}
+              onChange={(e) => setApprovedOnly(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Approved invoices only
+          </label>
+        </div>
+
+        {report.rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No invoices dated in this period.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase border-b border-gray-100">
+                <th className="text-left font-medium py-2">Tax</th>
+                <th className="text-right font-medium py-2">Rate</th>
+                <th className="text-right font-medium py-2">Invoices</th>
+                <th className="text-right font-medium py-2">Taxable Base</th>
+                <th className="text-right font-medium py-2">Tax</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.rows.map(row => (
+                <tr key={`${row.tax_type}|${row.rate}|${row.reverse_charge}`}>
+                  <td className="py-2 text-gray-800">
+                    {TAX_TYPE_LABELS[row.tax_type]}
+                    {row.reverse_charge && <span className="ml-2 text-xs text-gray-500">reverse charge</span>}
+                  </td>
+                  <td className="py-2 text-right font-mono">{row.rate}%</td>
+                  <td className="py-2 text-right text-gray-500">{row.invoice_count}</td>
+                  <td className="py-2 text-right font-mono">{formatMoney(row.taxable_base, report.currency)}</td>
+                  <td className="py-2 text-right font-mono">{formatMoney(row.tax_amount, report.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t border-gray-200 font-semibold text-gray-800">
+                <td className="py-2" colSpan={3}>Total</td>
+                <td className="py-2 text-right font-mono">{formatMoney(report.taxable_base, report.currency)}</td>
+                <td className="py-2 text-right font-mono">{formatMoney(report.tax_amount, report.currency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+
+        {report.excluded.length > 0 && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800">
+            <p className="font-medium mb-1">Not included ({report.excluded.length}):</p>
+            <ul className="space-y-0.5">
+              {report.excluded.map(({ invoice, reason }) => (
+                <li key={invoice.id}>
+                  {invoice.supplier_name || invoice.fileName} {invoice.invoice_number ? `#${invoice.invoice_number}` : ''} — {reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VatReport;
@@ -0,0 +1,215 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { geminiProvider } from "../services/geminiService";
+import { CategorySuggestionRequest } from "../services/categorization";
+import { definitionProblems } from "../services/documentTypes";
+import { DocumentTypeDefinition } from "../types";
+import { createRateLimiter } from "./rateLimit";
+
+// API server that holds the Gemini key. The browser posts each document as the
+// raw request body (name in X-File-Name) and gets back the same JSON the
+// Gemini provider would have returned in the browser. Custom document types
+// post multipart form data instead, since the definition goes along too.
+//
+// Settings come from the environment or .env.local:
+//   GEMINI_API_KEY          required
+//   SERVER_PORT             default 3001
+//   MAX_UPLOAD_MB           default 20, Gemini's limit for inline file data
+//   RATE_LIMIT_PER_MINUTE   requests per client, default 30
+//   TRUST_PROXY=1           identify clients by X-Forwarded-For when behind a reverse proxy
+
+try {
+  process.loadEnvFile(".env.local");
+} catch {
+  // No file; rely on the environment
+}
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const PORT = numberFromEnv("SERVER_PORT", 3001);
+const MAX_UPLOAD_BYTES = numberFromEnv("MAX_UPLOAD_MB", 20) * 1024 * 1024;
+const MAX_JSON_BYTES = 1024 * 1024;
+const TRUST_PROXY = process.env.TRUST_PROXY === "1";
+
+// What the browser sends after preprocessing, plus HEIC, which Gemini reads directly
+const ACCEPTED_TYPES = new Set(["image/jpeg", "image/png", "image/webp", "image/heic", "image/heif", "application/pdf"]);
+
+const limiter = createRateLimiter(numberFromEnv("RATE_LIMIT_PER_MINUTE", 30), 60_000);
+
+// A failure with the status to answer with
+const httpError = (status: number, message: string): Error => Object.assign(new Error(message), { status });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// There are no accounts, so "per user" means per client address
+const clientKey = (req: IncomingMessage): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (TRUST_PROXY && typeof forwarded === "string") return forwarded.split(",")[0].trim();
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+// Stops keeping the body once it passes `limit`, rather than trusting
+// Content-Length. The rest is still read so the client gets the error response.
+const readBody = async (req: IncomingMessage, limit: number): Promise<Buffer> => {
+  const tooLarge = () => httpError(413, `Request is larger than ${Math.floor(limit / 1024 / 1024)} MB`);
+  if (Number(req.headers["content-length"]) > limit) {
+    req.resume();
+    throw tooLarge();
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size <= limit) chunks.push(chunk);
+  }
+  if (size > limit) throw tooLarge();
+  return Buffer.concat(chunks);
+};
+
+const readUpload = async (req: IncomingMessage): Promise<File> => {
+  const type = (req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+  if (!ACCEPTED_TYPES.has(type)) {
+    req.resume();
+    throw httpError(415, `Unsupported file type: ${type || "unknown"}`);
+  }
+  const body = await readBody(req, MAX_UPLOAD_BYTES);
+  if (body.length === 0) throw httpError(400, "The uploaded file is empty");
+  const header = req.headers["x-file-name"];
+  let name = "upload";
+  try {
+    if (typeof header === "string" && header) name = decodeURIComponent(header);
+  } catch {
+    // Keep the placeholder for a malformed header
+  }
+  return new File([body], name, { type });
+};
+
+const readCustomUpload = async (req: IncomingMessage): Promise<{ file: File; definition: DocumentTypeDefinition }> => {
+  const contentType = req.headers["content-type"] ?? "";
+  if (!contentType.toLowerCase().startsWith("multipart/form-data")) {
+    req.resume();
+    throw httpError(415, "Expected multipart/form-data with a file and a definition");
+  }
+  const body = await readBody(req, MAX_UPLOAD_BYTES + MAX_JSON_BYTES);
+  let form: FormData;
+  try {
+    form = await new Response(body, { headers: { "Content-Type": contentType } }).formData();
+  } catch {
+    throw httpError(400, "Malformed form data");
+  }
+
+  const file = form.get("file");
+  if (!(file instanceof File) || file.size === 0) throw httpError(400, "The uploaded file is missing or empty");
+  const type = file.type.split(";")[0].trim().toLowerCase();
+  if (!ACCEPTED_TYPES.has(type)) throw httpError(415, `Unsupported file type: ${type || "unknown"}`);
+
+  let definition: DocumentTypeDefinition;
+  try {
+    definition = JSON.parse(String(form.get("definition")));
+  } catch {
+    throw httpError(400, "The definition is not valid JSON");
+  }
+  let problems: string[];
+  try {
+    problems = definitionProblems(definition);
+  } catch {
+    problems = ["Expected { name, description, fields: [...] }"];
+  }
+  if (problems.length > 0) throw httpError(400, `Invalid document type: ${problems[0]}`);
+  return { file, definition: { ...definition, description: typeof definition.description === "string" ? definition.description : "" } };
+};
+
+const readSuggestionRequest = async (req: IncomingMessage): Promise<{ lines: CategorySuggestionRequest[]; categories: string[] }> => {
+  let parsed: { lines?: unknown; categories?: unknown };
+  try {
+    parsed = JSON.parse((await readBody(req, MAX_JSON_BYTES)).toString("utf8"));
+  } catch (err) {
+    if ((err as { status?: number }).status) throw err;
+    throw httpError(400, "Request body is not valid JSON");
+  }
+  const { lines, categories } = parsed;
+  if (
+    !Array.isArray(lines) || !Array.isArray(categories) ||
+    !categories.every(c => typeof c === "string") ||
+    !lines.every(l => typeof l?.description === "string")
+  ) {
+    throw httpError(400, "Expected { lines: [{ description, supplier_name }], categories: string[] }");
+  }
+  return {
+    lines: lines.map(l => ({ description: l.description, supplier_name: typeof l.supplier_name === "string" ? l.supplier_name : null })),
+    categories,
+  };
+};
+
+type Route = (req: IncomingMessage, signal: AbortSignal) => Promise<unknown>;
+
+const routes: Record<string, Route> = {
+  "/api/classify": async (req, signal) => geminiProvider.classifyDocument(await readUpload(req), signal),
+  "/api/extract/invoice": async (req, signal) => geminiProvider.extractInvoiceData(await readUpload(req), signal),
+  "/api/extract/invoice-documents": async (req, signal) => geminiProvider.extractInvoiceDocuments(await readUpload(req), signal),
+  "/api/extract/card": async (req, signal) => geminiProvider.extractBusinessCardData(await readUpload(req), signal),
+  "/api/extract/custom": async (req, signal) => {
+    const { file, definition } = await readCustomUpload(req);
+    return geminiProvider.extractCustomDocument(file, definition, signal);
+  },
+  "/api/categories/suggest": async (req, signal) => {
+    const { lines, categories } = await readSuggestionRequest(req);
+    return geminiProvider.suggestCategories(lines, categories, signal);
+  },
+};
+
+// Gemini's rate limits and outages are passed on so the browser's queue retries them
+const statusFor = (err: unknown): number => {
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === "number" && status >= 400 && status < 600) return status;
+  return 502;
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  const route = routes[path];
+  if (!route) return sendJson(res, 404, { error: "Not found" });
+  if (req.method !== "POST") return sendJson(res, 405, { error: "Use POST" }, { Allow: "POST" });
+
+  if (!process.env.GEMINI_API_KEY) {
+    req.resume();
+    return sendJson(res, 500, { error: "The server has no GEMINI_API_KEY configured" });
+  }
+
+  const retryAfter = limiter.take(clientKey(req));
+  if (retryAfter > 0) {
+    // Drain the upload so the client sees the 429 instead of a reset connection
+    req.resume();
+    return sendJson(res, 429, { error: "Too many requests; try again shortly" }, { "Retry-After": String(retryAfter) });
+  }
+
+  // Stop paying for a model call nobody is waiting for
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    sendJson(res, 200, await route(req, controller.signal));
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    const status = statusFor(err);
+    if (status >= 500) console.error(`${req.method} ${path} failed`, err);
+    sendJson(res, status, { error: err instanceof Error ? err.message : "Extraction failed" });
+  }
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(err => {
+    console.error("Unhandled request error", err);
+    if (!res.headersSent) sendJson(res, 500, { error: "Internal server error" });
+  });
+}).listen(PORT, () => {
+  if (!process.env.GEMINI_API_KEY) console.warn("GEMINI_API_KEY is not set; extraction requests will fail");
+  console.log(`API server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,33 @@
+// Sliding-window request limits, counted separately for each client key.
+
+export interface RateLimiter {
+  // Records a request; returns 0 if allowed, or the seconds until one would be
+  take: (key: string) => number;
+}
+
+export const createRateLimiter = (limit: number, windowMs: number, now: () => number = Date.now): RateLimiter => {
+  const requests = new Map<string, number[]>();
+
+  // Drop clients with no recent requests so the map doesn't grow without bound
+  const sweep = setInterval(() => {
+    const cutoff = now() - windowMs;
+    for (const [key, times] of requests) {
+      if (times[times.length - 1] <= cutoff) requests.delete(key);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  return {
+    take: (key) => {
+      const cutoff = now() - windowMs;
+      const recent = (requests.get(key) ?? []).filter(time => time > cutoff);
+      if (recent.length >= limit) {
+        requests.set(key, recent);
+        return Math.max(1, Math.ceil((recent[0] + windowMs - now()) / 1000));
+      }
+      recent.push(now());
+      requests.set(key, recent);
+      return 0;
+    },
+  };
+};
@@ -0,0 +1,51 @@
+import { BankDetails } from "../types";
+
+// Supplier bank details as printed on invoices, with the checks that catch
+// misreads before anyone pays into the wrong account.
+
+export const normalizeIban = (raw: string): string => raw.replace(/[\s-]/g, "").toUpperCase();
+
+// ISO 13616: move the country and check digits to the end, turn letters into
+// numbers (A = 10) and the remainder mod 97 must be 1
+export const isValidIban = (raw: string): boolean => {
+  const iban = normalizeIban(raw);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, ch => String(ch.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  return remainder === 1;
+};
+
+// Groups of four, the way IBANs are printed
+export const formatIban = (raw: string): string => normalizeIban(raw).replace(/(.{4})(?=.)/g, "$1 ");
+
+export const isEmptyBankDetails = (bank: BankDetails | null | undefined): boolean =>
+  !bank || Object.values(bank).every(value => !value);
+
+export const emptyBankDetails = (): BankDetails => ({ bank_name: null, iban: null, bic: null, account_number: null, routing_code: null });
+
+// Blank strings become null and IBANs lose their spacing; null when nothing is left
+export const cleanBankDetails = (raw: Partial<BankDetails> | null | undefined): BankDetails | null => {
+  if (!raw) return null;
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  const bank: BankDetails = {
+    bank_name: text(raw.bank_name),
+    iban: text(raw.iban) && normalizeIban(text(raw.iban)!),
+    bic: text(raw.bic)?.replace(/\s/g, "").toUpperCase() ?? null,
+    account_number: text(raw.account_number),
+    routing_code: text(raw.routing_code),
+  };
+  return isEmptyBankDetails(bank) ? null : bank;
+};
+
+// One line for tables and CSV cells
+export const formatBankDetails = (bank: BankDetails | null | undefined): string => {
+  if (!bank) return "";
+  return [
+    bank.bank_name,
+    bank.iban && `IBAN ${formatIban(bank.iban)}`,
+    bank.bic && `BIC ${bank.bic}`,
+    bank.account_number && `Acct ${bank.account_number}`,
+    bank.routing_code && `Routing ${bank.routing_code}`,
+  ].filter(Boolean).join(", ");
+};
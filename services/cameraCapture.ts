@@ -0,0 +1,118 @@
+// Helpers for capturing documents from a live camera feed: where the document
+// should sit in the frame, whether it is held still, and turning frames into
+// files the extraction flow can take like any upload.
+
+export type CaptureTarget = "card" | "receipt";
+
+export interface GuideRect {
+  x: number; // Fractions of the video frame, 0-1
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ISO/IEC 7810 ID-1 is 85.6 × 54 mm; receipts are long and narrow
+const TARGET_ASPECT: Record<CaptureTarget, number> = { card: 85.6 / 54, receipt: 0.45 };
+const GUIDE_FILL = 0.8;
+
+// Largest rectangle of the target's shape that fills most of the frame, centered
+export const guideRect = (target: CaptureTarget, videoWidth: number, videoHeight: number): GuideRect => {
+  const aspect = TARGET_ASPECT[target];
+  let width = videoWidth * GUIDE_FILL;
+  let height = width / aspect;
+  if (height > videoHeight * GUIDE_FILL) {
+    height = videoHeight * GUIDE_FILL;
+    width = height * aspect;
+  }
+  return {
+    x: (videoWidth - width) / 2 / videoWidth,
+    y: (videoHeight - height) / 2 / videoHeight,
+    width: width / videoWidth,
+    height: height / videoHeight,
+  };
+};
+
+const SAMPLE_WIDTH = 64;
+
+// Small grayscale copy of the guide region, compared between frames
+export const sampleRegion = (video: HTMLVideoElement, guide: GuideRect, canvas: HTMLCanvasElement): Uint8Array => {
+  const sourceWidth = guide.width * video.videoWidth;
+  const sourceHeight = guide.height * video.videoHeight;
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = Math.max(1, Math.round((SAMPLE_WIDTH * sourceHeight) / sourceWidth));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return new Uint8Array(0);
+  ctx.drawImage(
+    video,
+    guide.x * video.videoWidth, guide.y * video.videoHeight, sourceWidth, sourceHeight,
+    0, 0, canvas.width, canvas.height,
+  );
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return gray;
+};
+
+// Mean absolute difference between two samples, 0-255
+export const frameDifference = (a: Uint8Array, b: Uint8Array): number => {
+  if (a.length === 0 || a.length !== b.length) return 255;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+};
+
+// Standard deviation of the sample; an empty table or wall is nearly flat,
+// a card with print on it is not
+export const regionContrast = (gray: Uint8Array): number => {
+  if (gray.length === 0) return 0;
+  const mean = gray.reduce((sum, value) => sum + value, 0) / gray.length;
+  const variance = gray.reduce((sum, value) => sum + (value - mean) ** 2, 0) / gray.length;
+  return Math.sqrt(variance);
+};
+
+// Full-resolution crop of the guide region with a little margin around it
+export const captureRegion = (video: HTMLVideoElement, guide: GuideRect): HTMLCanvasElement => {
+  const margin = 0.04;
+  const x = Math.max(0, guide.x - margin), y = Math.max(0, guide.y - margin);
+  const width = Math.min(1, guide.x + guide.width + margin) - x;
+  const height = Math.min(1, guide.y + guide.height + margin) - y;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * video.videoWidth);
+  canvas.height = Math.round(height * video.videoHeight);
+  canvas.getContext("2d")?.drawImage(
+    video,
+    x * video.videoWidth, y * video.videoHeight, canvas.width, canvas.height,
+    0, 0, canvas.width, canvas.height,
+  );
+  return canvas;
+};
+
+// Front above back in one image, so a double-sided card is read as one contact
+export const stitchSides = (front: HTMLCanvasElement, back: HTMLCanvasElement): HTMLCanvasElement => {
+  const gap = Math.round(Math.max(front.height, back.height) * 0.05);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(front.width, back.width);
+  canvas.height = front.height + gap + back.height;
+  const ctx = canvas.getContext("2d");
+  if (ctx) {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(front, (canvas.width - front.width) / 2, 0);
+    ctx.drawImage(back, (canvas.width - back.width) / 2, front.height + gap);
+  }
+  return canvas;
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const canvasToFile = (canvas: HTMLCanvasElement, prefix: string): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error("Could not encode captured frame"));
+      const now = new Date();
+      const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+      resolve(new File([blob], `${prefix}-${stamp}-${now.getMilliseconds()}.jpg`, { type: "image/jpeg" }));
+    }, "image/jpeg", 0.92);
+  });
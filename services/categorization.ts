@@ -0,0 +1,109 @@
+import { CategoryRule, CategorySource, ExpenseCategory, InvoiceData, LedgerAccount, LineItem, Supplier } from "../types";
+
+// Assigns expense categories to invoices and their line items, and maps
+// categories to ledger accounts for export. Rules are tried in order; a
+// supplier's default category covers lines no description rule matches.
+// Categories chosen by hand are left alone.
+
+export interface LedgerSettings {
+  ledger_accounts: LedgerAccount[];
+  expense_categories: ExpenseCategory[];
+  category_rules: CategoryRule[];
+}
+
+// What the model is asked to categorize
+export interface CategorySuggestionRequest {
+  description: string;
+  supplier_name: string | null;
+}
+
+// Explains why a rule can never match, or null if it is usable
+export const ruleProblem = (rule: CategoryRule): string | null => {
+  if (!rule.pattern.trim()) return "Pattern is empty";
+  if (!rule.is_regex) return null;
+  try {
+    new RegExp(rule.pattern, "i");
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : "Invalid regular expression";
+  }
+};
+
+export const ruleMatches = (rule: CategoryRule, text: string | null | undefined): boolean => {
+  if (!text || ruleProblem(rule)) return false;
+  return rule.is_regex
+    ? new RegExp(rule.pattern, "i").test(text)
+    : text.toLowerCase().includes(rule.pattern.trim().toLowerCase());
+};
+
+const firstMatch = (rules: CategoryRule[], target: CategoryRule["target"], text: string | null | undefined): string | null =>
+  rules.find(rule => rule.target === target && ruleMatches(rule, text))?.category ?? null;
+
+// Category for the whole invoice from supplier rules, then the supplier's default
+const supplierCategory = (
+  invoice: InvoiceData,
+  supplier: Supplier | null,
+  settings: LedgerSettings,
+): { category: string; source: CategorySource } | null => {
+  const byRule = firstMatch(settings.category_rules, "supplier", invoice.supplier_name);
+  if (byRule) return { category: byRule, source: "rule" };
+  if (supplier?.default_category) return { category: supplier.default_category, source: "supplier" };
+  return null;
+};
+
+// Applies rules to every category not chosen by hand. Model suggestions stay
+// unless a rule now covers the line.
+export const categorizeInvoice = (invoice: InvoiceData, supplier: Supplier | null, settings: LedgerSettings): InvoiceData => {
+  const fromSupplier = supplierCategory(invoice, supplier, settings);
+  const line_items = invoice.line_items.map((item): LineItem => {
+    if (item.category_source === "manual") return item;
+    const byRule = firstMatch(settings.category_rules, "description", item.description);
+    if (byRule) return { ...item, category: byRule, category_source: "rule" };
+    if (item.category_source === "model") return item;
+    if (fromSupplier) return { ...item, category: fromSupplier.category, category_source: fromSupplier.source };
+    return { ...item, category: null, category_source: null };
+  });
+  const keepInvoiceCategory = invoice.category_source === "manual" || (!fromSupplier && invoice.category_source === "model");
+  return {
+    ...invoice,
+    line_items,
+    category: keepInvoiceCategory ? invoice.category : fromSupplier?.category ?? null,
+    category_source: keepInvoiceCategory ? invoice.category_source : fromSupplier?.source ?? null,
+  };
+};
+
+// Indexes of lines with no category of their own, the ones worth asking the model about
+export const uncategorizedLines = (invoice: InvoiceData): number[] =>
+  invoice.line_items.flatMap((item, idx) => (item.category ? [] : [idx]));
+
+// Applies model suggestions to the given lines, ignoring anything outside the category list
+export const applySuggestions = (
+  invoice: InvoiceData,
+  indexes: number[],
+  suggestions: (string | null)[],
+  categories: ExpenseCategory[],
+): InvoiceData => {
+  const known = new Set(categories.map(c => c.name));
+  const line_items = invoice.line_items.map((item, idx) => {
+    const suggestion = suggestions[indexes.indexOf(idx)];
+    if (!indexes.includes(idx) || !suggestion || !known.has(suggestion)) return item;
+    return { ...item, category: suggestion, category_source: "model" as const };
+  });
+  return { ...invoice, line_items };
+};
+
+// A line's category, falling back to the invoice-wide one
+export const lineCategory = (invoice: InvoiceData, item: LineItem): string | null => item.category ?? invoice.category;
+
+export const accountFor = (category: string | null, settings: LedgerSettings): LedgerAccount | null => {
+  if (!category) return null;
+  const code = settings.expense_categories.find(c => c.name === category)?.account_code;
+  return settings.ledger_accounts.find(account => account.code === code) ?? null;
+};
+
+// Distinct categories on an invoice, in line order
+export const invoiceCategories = (invoice: InvoiceData): string[] => {
+  const categories = invoice.line_items.map(item => lineCategory(invoice, item));
+  if (categories.length === 0) categories.push(invoice.category);
+  return [...new Set(categories.filter((c): c is string => !!c))];
+};
@@ -0,0 +1,222 @@
+import { BusinessCardData, BusinessCardField, ContactMatch, ContactPhone } from "../types";
+import { companyNameSimilarity, normalizeCompanyName, similarity } from "./textMatching";
+import { nationalDigits, toE164 } from "./phone";
+
+// Finds business cards that describe the same person, merges them field by
+// field, and groups contacts that work at the same company.
+
+// Names and company names above this similarity are treated as the same
+const NAME_THRESHOLD = 0.85;
+// Pairs scoring at least this much are flagged
+const DUPLICATE_THRESHOLD = 0.5;
+
+const WEIGHTS = {
+  email: 0.6,
+  phone: 0.5,
+  name: 0.3,
+  company: 0.2,
+};
+
+export const CONTACT_FIELDS: BusinessCardField[] = [
+  'full_name', 'company', 'job_title', 'emails', 'phones', 'website', 'social_profiles', 'address',
+];
+
+// Fields holding lists, which a merge can combine rather than pick between
+export const LIST_FIELDS = ['emails', 'phones', 'social_profiles'] as const;
+type ListField = typeof LIST_FIELDS[number];
+const isListField = (field: BusinessCardField): field is ListField => (LIST_FIELDS as readonly string[]).includes(field);
+
+export const NO_COMPANY_KEY = "";
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase().replace(/^mailto:/, "");
+
+// Accents, punctuation and word order vary: "Müller, Anna" and "anna muller" compare equal
+export const normalizePersonName = (name: string): string =>
+  name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+
+// Shared inboxes like info@ or sales@ belong to a team rather than a person
+const ROLE_MAILBOXES = new Set([
+  "info", "sales", "contact", "hello", "office", "admin", "support", "enquiries", "inquiries", "team", "accounts", "billing",
+]);
+const isRoleMailbox = (email: string): boolean => ROLE_MAILBOXES.has(email.split("@")[0]);
+
+const samePhone = (a: ContactPhone, b: ContactPhone, defaultCountry: string | null): boolean => {
+  const e164A = a.e164 ?? toE164(a.number, defaultCountry);
+  const e164B = b.e164 ?? toE164(b.number, defaultCountry);
+  if (e164A && e164B) return e164A === e164B;
+  // Without a country for one side, the subscriber digits still identify the line
+  const digitsA = nationalDigits(a.number);
+  return digitsA.length >= 7 && digitsA === nationalDigits(b.number);
+};
+
+export const compareContacts = (
+  original: BusinessCardData,
+  candidate: BusinessCardData,
+  defaultCountry: string | null,
+): ContactMatch | null => {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const emails = new Set(original.emails.map(e => normalizeEmail(e.address)).filter(e => !isRoleMailbox(e)));
+  if (candidate.emails.some(e => emails.has(normalizeEmail(e.address)))) {
+    score += WEIGHTS.email;
+    reasons.push("same email");
+  }
+  if (original.phones.some(a => candidate.phones.some(b => samePhone(a, b, defaultCountry)))) {
+    score += WEIGHTS.phone;
+    reasons.push("same phone");
+  }
+  const nameA = normalizePersonName(original.full_name ?? "");
+  const nameB = normalizePersonName(candidate.full_name ?? "");
+  const similarName = !!nameA && !!nameB && similarity(nameA, nameB) >= NAME_THRESHOLD;
+  if (similarName) {
+    score += WEIGHTS.name;
+    reasons.push(nameA === nameB ? "same name" : "similar name");
+  } else if (nameA && nameB) {
+    // Colleagues share a switchboard number and team inboxes; different names
+    // mean different people
+    return null;
+  }
+  // A missing company counts as unknown rather than different, so a name on
+  // its own is never enough to flag a pair
+  if (original.company && candidate.company && companyNameSimilarity(original.company, candidate.company) >= NAME_THRESHOLD) {
+    score += WEIGHTS.company;
+    reasons.push("same company");
+  }
+
+  if (score < DUPLICATE_THRESHOLD) return null;
+  return { originalId: original.id, duplicateId: candidate.id, score: Math.min(score, 1), reasons };
+};
+
+// Compares every pair of contacts, earliest scan first, skipping pairs the
+// user has already marked as different people.
+export const findContactDuplicates = (cards: BusinessCardData[], defaultCountry: string | null): ContactMatch[] => {
+  const ordered = [...cards].sort((a, b) => a.extracted_at.localeCompare(b.extracted_at));
+  const matches: ContactMatch[] = [];
+  for (let i = 0; i < ordered.length; i++) {
+    for (let j = i + 1; j < ordered.length; j++) {
+      const a = ordered[i];
+      const b = ordered[j];
+      if (a.dismissed_duplicates.includes(b.id) || b.dismissed_duplicates.includes(a.id)) continue;
+      const match = compareContacts(a, b, defaultCountry);
+      if (match) matches.push(match);
+    }
+  }
+  return matches;
+};
+
+// 'both' only applies to list fields
+export type MergeChoice = 'primary' | 'secondary' | 'both';
+export type MergeChoices = Partial<Record<BusinessCardField, MergeChoice>>;
+
+const hasValue = (card: BusinessCardData, field: BusinessCardField): boolean => {
+  const value = card[field];
+  return Array.isArray(value) ? value.length > 0 : !!value;
+};
+
+// Where each field comes from unless the user says otherwise: lists are
+// combined, other fields keep the primary's value unless it is empty
+export const defaultMergeChoices = (primary: BusinessCardData, secondary: BusinessCardData): MergeChoices =>
+  Object.fromEntries(
+    CONTACT_FIELDS.map(field => {
+      if (!hasValue(secondary, field)) return [field, 'primary'];
+      if (!hasValue(primary, field)) return [field, 'secondary'];
+      return [field, isListField(field) ? 'both' : 'primary'];
+    }),
+  );
+
+// Entries from both cards, without repeating what the primary already has
+const combined = <T>(a: T[], b: T[], key: (item: T) => string): T[] => {
+  const seen = new Set(a.map(key));
+  return [...a, ...b.filter(item => !seen.has(key(item)))];
+};
+
+// Keeps `primary`'s id and scan, taking each field from the chosen card
+export const mergeContacts = (
+  primary: BusinessCardData,
+  secondary: BusinessCardData,
+  choices: MergeChoices,
+): BusinessCardData => {
+  const resolved = { ...defaultMergeChoices(primary, secondary), ...choices };
+  const merged: BusinessCardData = {
+    ...primary,
+    field_sources: {},
+    dismissed_duplicates: Array.from(new Set([...primary.dismissed_duplicates, ...secondary.dismissed_duplicates]))
+      .filter(id => id !== primary.id && id !== secondary.id),
+  };
+  for (const field of CONTACT_FIELDS) {
+    const choice = resolved[field];
+    const from = choice === 'secondary' ? secondary : primary;
+    if (from.field_sources[field]) merged.field_sources[field] = from.field_sources[field];
+    switch (field) {
+      case 'emails':
+        merged.emails = choice === 'both'
+          ? combined(primary.emails, secondary.emails, e => normalizeEmail(e.address))
+          : from.emails;
+        break;
+      case 'phones':
+        merged.phones = choice === 'both'
+          ? combined(primary.phones, secondary.phones, p => p.e164 ?? nationalDigits(p.number))
+          : from.phones;
+        break;
+      case 'social_profiles':
+        merged.social_profiles = choice === 'both'
+          ? combined(primary.social_profiles, secondary.social_profiles, p => p.url)
+          : from.social_profiles;
+        break;
+      case 'address':
+        merged.address = from.address;
+        break;
+      default:
+        merged[field] = from[field];
+    }
+  }
+  return merged;
+};
+
+export interface CompanyGroup {
+  key: string; // Normalized company name; NO_COMPANY_KEY for contacts without one
+  name: string; // The spelling most cards use
+  contacts: BusinessCardData[];
+}
+
+// Groups contacts whose company names are close enough to be the same firm,
+// largest groups first and contacts without a company last
+export const groupByCompany = (cards: BusinessCardData[]): CompanyGroup[] => {
+  const groups: { key: string; spellings: Map<string, number>; contacts: BusinessCardData[] }[] = [];
+  const noCompany: BusinessCardData[] = [];
+  for (const card of cards) {
+    const key = card.company ? normalizeCompanyName(card.company) : "";
+    if (!card.company || !key) {
+      noCompany.push(card);
+      continue;
+    }
+    let group = groups.find(g => g.key === key || similarity(g.key, key) >= NAME_THRESHOLD);
+    if (!group) {
+      group = { key, spellings: new Map(), contacts: [] };
+      groups.push(group);
+    }
+    const spelling = card.company.trim();
+    group.spellings.set(spelling, (group.spellings.get(spelling) ?? 0) + 1);
+    group.contacts.push(card);
+  }
+
+  const byName = (a: BusinessCardData, b: BusinessCardData) => (a.full_name ?? "").localeCompare(b.full_name ?? "");
+  const result: CompanyGroup[] = groups
+    .map(g => ({
+      key: g.key,
+      name: [...g.spellings.entries()].sort((a, b) => b[1] - a[1])[0][0],
+      contacts: g.contacts.sort(byName),
+    }))
+    .sort((a, b) => b.contacts.length - a.contacts.length || a.name.localeCompare(b.name));
+  if (noCompany.length > 0) result.push({ key: NO_COMPANY_KEY, name: "No company", contacts: noCompany.sort(byName) });
+  return result;
+};
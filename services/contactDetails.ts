@@ -0,0 +1,136 @@
+import {
+  BusinessCardData, BusinessCardField, ContactEmail, ContactPhone, EmailType, PhoneType, PostalAddress, SocialNetwork, SocialProfile,
+} from "../types";
+import { toE164 } from "./phone";
+
+// Typed phone, email and social profile lists and the structured address on
+// a business card: labels for the UI, cleanup of model output, and formatting.
+
+export const PHONE_TYPES: { id: PhoneType; label: string }[] = [
+  { id: "mobile", label: "Mobile" },
+  { id: "work", label: "Work" },
+  { id: "fax", label: "Fax" },
+  { id: "other", label: "Other" },
+];
+
+export const EMAIL_TYPES: { id: EmailType; label: string }[] = [
+  { id: "work", label: "Work" },
+  { id: "personal", label: "Personal" },
+  { id: "other", label: "Other" },
+];
+
+export const SOCIAL_NETWORKS: { id: SocialNetwork; label: string; hosts: string[] }[] = [
+  { id: "linkedin", label: "LinkedIn", hosts: ["linkedin.com"] },
+  { id: "x", label: "X", hosts: ["x.com", "twitter.com"] },
+  { id: "instagram", label: "Instagram", hosts: ["instagram.com"] },
+  { id: "facebook", label: "Facebook", hosts: ["facebook.com", "fb.com"] },
+  { id: "github", label: "GitHub", hosts: ["github.com"] },
+  { id: "other", label: "Profile", hosts: [] },
+];
+
+export const ADDRESS_PARTS: (keyof PostalAddress)[] = ["street", "city", "region", "postal_code", "country"];
+
+export const phoneTypeLabel = (type: PhoneType) => PHONE_TYPES.find(t => t.id === type)?.label ?? "Other";
+export const emailTypeLabel = (type: EmailType) => EMAIL_TYPES.find(t => t.id === type)?.label ?? "Other";
+export const socialNetworkLabel = (network: SocialNetwork) => SOCIAL_NETWORKS.find(n => n.id === network)?.label ?? "Profile";
+
+// The network a profile URL belongs to, judged by its host
+export const socialNetworkOf = (url: string): SocialNetwork => {
+  const host = url.trim().replace(/^[a-z]+:\/\//i, "").split(/[/?#]/)[0].toLowerCase().replace(/^www\./, "");
+  return SOCIAL_NETWORKS.find(n => n.hosts.some(h => host === h || host.endsWith(`.${h}`)))?.id ?? "other";
+};
+
+// Cards print "linkedin.com/in/jane" or "@jane"; exports need absolute URLs
+const toProfileUrl = (network: SocialNetwork, value: string): string => {
+  const text = value.trim();
+  if (/^https?:\/\//i.test(text)) return text;
+  if (text.includes(".") && !text.startsWith("@")) return `https://${text}`;
+  const handle = text.replace(/^@/, "");
+  switch (network) {
+    case "linkedin": return `https://www.linkedin.com/in/${handle}`;
+    case "x": return `https://x.com/${handle}`;
+    case "instagram": return `https://www.instagram.com/${handle}`;
+    case "facebook": return `https://www.facebook.com/${handle}`;
+    case "github": return `https://github.com/${handle}`;
+    default: return text;
+  }
+};
+
+const oneOf = <T extends string>(value: unknown, allowed: { id: T }[], fallback: T): T =>
+  allowed.some(a => a.id === value) ? (value as T) : fallback;
+
+const text = (value: unknown): string | null => (typeof value === "string" && value.trim() ? value.trim() : null);
+
+export const isEmptyAddress = (address: PostalAddress | null): boolean =>
+  !address || ADDRESS_PARTS.every(part => !address[part]);
+
+// Fills in E.164 forms that couldn't be worked out before, e.g. once a default country is set
+export const withE164 = (phones: ContactPhone[], defaultCountry: string | null): ContactPhone[] =>
+  phones.map(phone => (phone.e164 ? phone : { ...phone, e164: toE164(phone.number, defaultCountry) }));
+
+// Drops empty and repeated entries from model output and normalizes phone numbers
+export const cleanCardDetails = (
+  data: Partial<BusinessCardData>,
+  defaultCountry: string | null,
+): Pick<BusinessCardData, "emails" | "phones" | "social_profiles" | "address"> => {
+  const emails: ContactEmail[] = [];
+  for (const entry of data.emails ?? []) {
+    const address = text(entry?.address)?.replace(/^mailto:/i, "");
+    if (!address || emails.some(e => e.address.toLowerCase() === address.toLowerCase())) continue;
+    emails.push({ type: oneOf(entry.type, EMAIL_TYPES, "work"), address });
+  }
+
+  const phones: ContactPhone[] = [];
+  for (const entry of data.phones ?? []) {
+    const number = text(entry?.number);
+    if (!number) continue;
+    const e164 = toE164(number, defaultCountry);
+    const type = oneOf(entry.type, PHONE_TYPES, "work");
+    if (phones.some(p => (e164 ? p.e164 === e164 : p.number === number) && p.type === type)) continue;
+    phones.push({ type, number, e164 });
+  }
+
+  const social_profiles: SocialProfile[] = [];
+  for (const entry of data.social_profiles ?? []) {
+    const value = text(entry?.url);
+    if (!value) continue;
+    const detected = socialNetworkOf(value);
+    const network = detected !== "other" ? detected : oneOf(entry.network, SOCIAL_NETWORKS, "other");
+    const url = toProfileUrl(network, value);
+    if (!social_profiles.some(p => p.url === url)) social_profiles.push({ network, url });
+  }
+
+  const raw = data.address;
+  const address: PostalAddress | null = raw
+    ? { street: text(raw.street), city: text(raw.city), region: text(raw.region), postal_code: text(raw.postal_code), country: text(raw.country) }
+    : null;
+
+  return { emails, phones, social_profiles, address: isEmptyAddress(address) ? null : address };
+};
+
+// One line, in the usual "street, city, region postal code, country" order
+export const formatAddress = (address: PostalAddress | null): string => {
+  if (!address) return "";
+  const locality = [address.city, [address.region, address.postal_code].filter(Boolean).join(" ")].filter(Boolean).join(", ");
+  return [address.street?.replace(/\s*\n\s*/g, ", "), locality, address.country].filter(Boolean).join(", ");
+};
+
+export const formatPhone = (phone: ContactPhone): string => `${phoneTypeLabel(phone.type)}: ${phone.number}`;
+
+// A field's value as text, for captions and side-by-side comparisons
+export const formatCardField = (card: BusinessCardData, field: BusinessCardField): string => {
+  switch (field) {
+    case "emails": return card.emails.map(e => e.address).join(", ");
+    case "phones": return card.phones.map(formatPhone).join(", ");
+    case "social_profiles": return card.social_profiles.map(p => p.url).join(", ");
+    case "address": return formatAddress(card.address);
+    default: return card[field] ?? "";
+  }
+};
+
+// The entry most address books treat as the main one: work first, then the first listed
+export const primaryEmail = (card: BusinessCardData): string | null =>
+  (card.emails.find(e => e.type === "work") ?? card.emails[0])?.address ?? null;
+
+export const primaryPhone = (card: BusinessCardData): ContactPhone | null =>
+  card.phones.find(p => p.type === "work") ?? card.phones.find(p => p.type !== "fax") ?? null;
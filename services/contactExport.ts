@@ -0,0 +1,249 @@
+import { BusinessCardData, ContactEmail, ContactPhone, SocialProfile } from "../types";
+import { toCsv, CsvValue } from "./csv";
+import { ExportFile } from "./invoiceExport";
+import { formatAddress, socialNetworkLabel } from "./contactDetails";
+
+export type ContactExportFormat = "vcard3" | "vcard4" | "google_csv" | "outlook_csv";
+
+export const CONTACT_EXPORT_FORMATS: { id: ContactExportFormat; label: string; description: string }[] = [
+  { id: "vcard3", label: "vCard 3.0 (.vcf)", description: "iPhone, macOS Contacts, most CRMs" },
+  { id: "vcard4", label: "vCard 4.0 (.vcf)", description: "Newer address books" },
+  { id: "google_csv", label: "Google Contacts CSV", description: "contacts.google.com → Import" },
+  { id: "outlook_csv", label: "Outlook CSV", description: "Outlook → Import contacts" },
+];
+
+// --- NAMES ---
+
+export interface NameParts {
+  prefix: string;
+  given: string;
+  additional: string;
+  family: string;
+  suffix: string;
+}
+
+const PREFIXES = new Set(["mr", "mrs", "ms", "miss", "mx", "dr", "prof", "sir", "dame", "rev"]);
+const SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv", "phd", "md", "esq", "mba", "cpa"]);
+
+const bare = (word: string) => word.toLowerCase().replace(/[.,]/g, "");
+
+// Best-effort split of a printed name into vCard N components
+export const splitName = (fullName: string | null): NameParts => {
+  const parts: NameParts = { prefix: "", given: "", additional: "", family: "", suffix: "" };
+  if (!fullName?.trim()) return parts;
+
+  let name = fullName.trim();
+  // "Jensen, Maria" puts the family name first
+  const comma = name.indexOf(",");
+  if (comma > 0 && !SUFFIXES.has(bare(name.slice(comma + 1).trim()))) {
+    name = `${name.slice(comma + 1).trim()} ${name.slice(0, comma).trim()}`;
+  }
+
+  const words = name.split(/\s+/).map(word => word.replace(/,$/, ""));
+  const prefixes: string[] = [];
+  const suffixes: string[] = [];
+  while (words.length > 1 && PREFIXES.has(bare(words[0]))) prefixes.push(words.shift()!);
+  while (words.length > 1 && SUFFIXES.has(bare(words[words.length - 1]))) suffixes.unshift(words.pop()!);
+
+  parts.prefix = prefixes.join(" ");
+  parts.suffix = suffixes.join(" ");
+  parts.given = words.shift() ?? "";
+  parts.family = words.pop() ?? "";
+  parts.additional = words.join(" ");
+  return parts;
+};
+
+// --- VCARD ---
+
+// RFC 6350 §3.4 text escaping; `;` and `,` separate components and list items
+const escapeVCardText = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\r\n|\r|\n/g, "\\n").replace(/,/g, "\\,").replace(/;/g, "\\;");
+
+// RFC 6868 caret encoding for quoted parameter values
+const escapeParam = (value: string): string =>
+  value.replace(/\^/g, "^^").replace(/\r\n|\r|\n/g, "^n").replace(/"/g, "^'");
+
+const structured = (components: (string | null | undefined)[]) =>
+  components.map(c => escapeVCardText(c ?? "")).join(";");
+
+// Lines longer than 75 octets are folded with CRLF + space, without splitting a UTF-8 sequence
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+};
+
+// tel: URIs allow digits, "+" and visual separators only
+const telUri = (phone: ContactPhone) =>
+  `tel:${phone.e164 ?? phone.number.replace(/[^\d+]+/g, "-").replace(/^-|-$/g, "")}`;
+
+// The number address books should dial: E.164 where known, otherwise as printed
+const dialable = (phone: ContactPhone) => phone.e164 ?? phone.number;
+
+const VCARD3_TEL_TYPES: Record<ContactPhone["type"], string> = {
+  mobile: "CELL,VOICE", work: "WORK,VOICE", fax: "WORK,FAX", other: "VOICE",
+};
+const VCARD4_TEL_TYPES: Record<ContactPhone["type"], string> = {
+  mobile: "cell", work: "\"work,voice\"", fax: "\"work,fax\"", other: "voice",
+};
+const VCARD_EMAIL_TYPES: Record<ContactEmail["type"], string | null> = { work: "work", personal: "home", other: null };
+
+const toVCard = (card: BusinessCardData, version: "3.0" | "4.0"): string => {
+  const name = splitName(card.full_name);
+  const lines = ["BEGIN:VCARD", `VERSION:${version}`];
+  if (version === "4.0") lines.push("KIND:individual");
+
+  lines.push(`FN:${escapeVCardText(card.full_name ?? card.company ?? "")}`);
+  lines.push(`N:${structured([name.family, name.given, name.additional, name.prefix, name.suffix])}`);
+  if (card.company) lines.push(`ORG:${structured([card.company])}`);
+  if (card.job_title) lines.push(`TITLE:${escapeVCardText(card.job_title)}`);
+
+  card.emails.forEach(email => {
+    const type = VCARD_EMAIL_TYPES[email.type];
+    lines.push(version === "3.0"
+      ? `EMAIL;TYPE=INTERNET${type ? `,${type.toUpperCase()}` : ""}:${escapeVCardText(email.address)}`
+      : `EMAIL${type ? `;TYPE=${type}` : ""}:${escapeVCardText(email.address)}`);
+  });
+  card.phones.forEach(phone => {
+    lines.push(version === "3.0"
+      ? `TEL;TYPE=${VCARD3_TEL_TYPES[phone.type]}:${escapeVCardText(dialable(phone))}`
+      : `TEL;VALUE=uri;TYPE=${VCARD4_TEL_TYPES[phone.type]}:${telUri(phone)}`);
+  });
+  if (card.address) {
+    const { street, city, region, postal_code, country } = card.address;
+    const adr = structured(["", "", street, city, region, postal_code, country]);
+    lines.push(version === "3.0"
+      ? `ADR;TYPE=WORK:${adr}`
+      : `ADR;TYPE=work;LABEL="${escapeParam(formatAddress(card.address))}":${adr}`);
+  }
+  if (card.website) lines.push(`URL:${card.website}`);
+  // X-SOCIALPROFILE is Apple's extension; vCard 4 has SOCIALPROFILE (RFC 9554)
+  card.social_profiles.forEach(profile => {
+    lines.push(version === "3.0"
+      ? `X-SOCIALPROFILE;TYPE=${profile.network}:${profile.url}`
+      : `SOCIALPROFILE;SERVICE-TYPE=${socialNetworkLabel(profile.network)}:${profile.url}`);
+  });
+  lines.push(`NOTE:${escapeVCardText(`Scanned from ${card.fileName}`)}`);
+  lines.push("END:VCARD");
+
+  return lines.map(foldLine).join("\r\n");
+};
+
+const vCards = (cards: BusinessCardData[], version: "3.0" | "4.0"): string =>
+  cards.map(card => toVCard(card, version)).join("\r\n") + "\r\n";
+
+// --- GOOGLE CONTACTS ---
+
+// Column names from Google Contacts' own CSV export, which its importer matches on.
+// Emails, phones and websites are numbered, so there are as many of each as the
+// contact with the most needs.
+const GOOGLE_HEADERS = [
+  "First Name", "Middle Name", "Last Name", "Name Prefix", "Name Suffix",
+  "Organization Name", "Organization Title", "Notes", "Labels",
+  "Address 1 - Label", "Address 1 - Formatted", "Address 1 - Street", "Address 1 - City",
+  "Address 1 - Region", "Address 1 - Postal Code", "Address 1 - Country",
+];
+
+const GOOGLE_PHONE_LABELS: Record<ContactPhone["type"], string> = { mobile: "Mobile", work: "Work", fax: "Work Fax", other: "Other" };
+const GOOGLE_EMAIL_LABELS: Record<ContactEmail["type"], string> = { work: "Work", personal: "Home", other: "Other" };
+
+const numbered = (kind: string, count: number) =>
+  Array.from({ length: count }, (_, i) => [`${kind} ${i + 1} - Label`, `${kind} ${i + 1} - Value`]).flat();
+
+const padded = (pairs: [string, string][], count: number): string[] =>
+  Array.from({ length: count }, (_, i) => pairs[i] ?? ["", ""]).flat();
+
+const websites = (card: BusinessCardData): [string, string][] => [
+  ...(card.website ? [["Work", card.website] as [string, string]] : []),
+  ...card.social_profiles.map((p: SocialProfile): [string, string] => [socialNetworkLabel(p.network), p.url]),
+];
+
+const googleCsv = (cards: BusinessCardData[]): string => {
+  const emailCount = Math.max(1, ...cards.map(c => c.emails.length));
+  const phoneCount = Math.max(1, ...cards.map(c => c.phones.length));
+  const websiteCount = Math.max(1, ...cards.map(c => websites(c).length));
+  const rows: CsvValue[][] = [[
+    ...GOOGLE_HEADERS, ...numbered("E-mail", emailCount), ...numbered("Phone", phoneCount), ...numbered("Website", websiteCount),
+  ]];
+  for (const card of cards) {
+    const name = splitName(card.full_name);
+    const address = card.address;
+    rows.push([
+      name.given, name.additional, name.family, name.prefix, name.suffix,
+      card.company, card.job_title, `Scanned from ${card.fileName}`, "* myContacts",
+      address ? "Work" : "", formatAddress(address), address?.street, address?.city,
+      address?.region, address?.postal_code, address?.country,
+      ...padded(card.emails.map(e => [GOOGLE_EMAIL_LABELS[e.type], e.address]), emailCount),
+      ...padded(card.phones.map(p => [GOOGLE_PHONE_LABELS[p.type], dialable(p)]), phoneCount),
+      ...padded(websites(card), websiteCount),
+    ]);
+  }
+  return toCsv(rows);
+};
+
+// --- OUTLOOK ---
+
+// Column names from Outlook's "Comma Separated Values" contact export
+const OUTLOOK_HEADERS = [
+  "Title", "First Name", "Middle Name", "Last Name", "Suffix", "Company", "Job Title",
+  "Business Street", "Business City", "Business State", "Business Postal Code", "Business Country/Region",
+  "Business Phone", "Business Phone 2", "Mobile Phone", "Business Fax", "Other Phone",
+  "E-mail Address", "E-mail 2 Address", "E-mail 3 Address", "Web Page", "Notes",
+];
+
+// Outlook has one column per kind of number; numbers that don't fit go to "Other Phone"
+const outlookPhones = (phones: ContactPhone[]) => {
+  const slots = { business: [] as string[], mobile: [] as string[], fax: [] as string[], other: [] as string[] };
+  for (const phone of phones) {
+    const number = dialable(phone);
+    if (phone.type === "work" && slots.business.length < 2) slots.business.push(number);
+    else if (phone.type === "mobile" && slots.mobile.length < 1) slots.mobile.push(number);
+    else if (phone.type === "fax" && slots.fax.length < 1) slots.fax.push(number);
+    else slots.other.push(number);
+  }
+  return [slots.business[0], slots.business[1], slots.mobile[0], slots.fax[0], slots.other.join("; ")];
+};
+
+const outlookCsv = (cards: BusinessCardData[]): string => {
+  const rows: CsvValue[][] = [OUTLOOK_HEADERS];
+  for (const card of cards) {
+    const name = splitName(card.full_name);
+    const address = card.address;
+    // No social profile columns, so the profiles go in the notes
+    const notes = [`Scanned from ${card.fileName}`, ...card.social_profiles.map(p => `${socialNetworkLabel(p.network)}: ${p.url}`)];
+    rows.push([
+      name.prefix, name.given, name.additional, name.family, name.suffix, card.company, card.job_title,
+      address?.street, address?.city, address?.region, address?.postal_code, address?.country,
+      ...outlookPhones(card.phones),
+      card.emails[0]?.address, card.emails[1]?.address, card.emails[2]?.address, card.website, notes.join("\n"),
+    ]);
+  }
+  return toCsv(rows);
+};
+
+export const exportContacts = (format: ContactExportFormat, cards: BusinessCardData[]): ExportFile => {
+  switch (format) {
+    case "vcard3":
+      return { content: vCards(cards, "3.0"), fileName: "contacts.vcf", mimeType: "text/vcard;charset=utf-8" };
+    case "vcard4":
+      return { content: vCards(cards, "4.0"), fileName: "contacts.vcf", mimeType: "text/vcard;charset=utf-8" };
+    case "google_csv":
+      return { content: googleCsv(cards), fileName: "google_contacts.csv", mimeType: "text/csv;charset=utf-8" };
+    case "outlook_csv":
+      return { content: outlookCsv(cards), fileName: "outlook_contacts.csv", mimeType: "text/csv;charset=utf-8" };
+  }
+};
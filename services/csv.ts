@@ -0,0 +1,61 @@
+// RFC 4180 CSV: CRLF line breaks, and any field containing a comma, quote or
+// line break is wrapped in double quotes with embedded quotes doubled.
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+const NEEDS_QUOTING = /[",\r\n]/;
+
+export const escapeCsvField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return NEEDS_QUOTING.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+
+// Parses RFC 4180 text into rows; also accepts LF line endings and a UTF-8 BOM.
+// Semicolon-separated files, as spreadsheet apps in many locales save them, are
+// detected from the first line.
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no data
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+};
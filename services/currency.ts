@@ -0,0 +1,124 @@
+// ISO 4217 currency codes and the amounts written in them. The model reports
+// currencies however they are printed ("€", "US$", "Rs.") and amounts in the
+// document's own number format ("1.234,56"); everything downstream works with
+// three-letter codes and plain numbers.
+
+// Minor units (decimal places) per ISO 4217; codes not listed use 2
+const MINOR_UNITS: Record<string, number> = {
+  BHD: 3, CLP: 0, ISK: 0, JOD: 3, JPY: 0, KRW: 0, KWD: 3, OMR: 3, PYG: 0, TND: 3, UGX: 0, VND: 0,
+  XAF: 0, XOF: 0,
+};
+
+// Active ISO 4217 codes an invoice is realistically issued in
+export const CURRENCY_CODES = [
+  "AED", "ARS", "AUD", "BGN", "BHD", "BRL", "CAD", "CHF", "CLP", "CNY", "COP", "CZK", "DKK", "EGP", "EUR", "GBP",
+  "HKD", "HUF", "IDR", "ILS", "INR", "ISK", "JOD", "JPY", "KES", "KRW", "KWD", "MAD", "MXN", "MYR", "NGN", "NOK",
+  "NZD", "OMR", "PEN", "PHP", "PKR", "PLN", "PYG", "QAR", "RON", "RSD", "RUB", "SAR", "SEK", "SGD", "THB", "TND",
+  "TRY", "TWD", "UAH", "UGX", "USD", "VND", "XAF", "XOF", "ZAR",
+];
+
+const CODE_SET = new Set(CURRENCY_CODES);
+
+// Symbols and spellings seen on invoices. Bare "$" and "kr" are ambiguous and
+// resolve to the most common issuer.
+const ALIASES: Record<string, string> = {
+  "€": "EUR", "EURO": "EUR", "EUROS": "EUR",
+  "$": "USD", "US$": "USD", "U$S": "USD", "USD$": "USD", "DOLLAR": "USD", "DOLLARS": "USD", "US DOLLAR": "USD", "US DOLLARS": "USD",
+  "£": "GBP", "GB£": "GBP", "STG": "GBP", "POUND": "GBP", "POUNDS": "GBP", "POUND STERLING": "GBP",
+  "¥": "JPY", "円": "JPY", "YEN": "JPY", "元": "CNY", "RMB": "CNY", "CN¥": "CNY", "YUAN": "CNY",
+  "₹": "INR", "RS": "INR", "RS.": "INR", "RUPEE": "INR", "RUPEES": "INR",
+  "C$": "CAD", "CA$": "CAD", "CAN$": "CAD", "A$": "AUD", "AU$": "AUD", "NZ$": "NZD", "HK$": "HKD", "S$": "SGD",
+  "R$": "BRL", "MX$": "MXN", "FR.": "CHF", "SFR": "CHF", "ZŁ": "PLN", "ZL": "PLN", "KČ": "CZK", "FT": "HUF",
+  "KR": "SEK", "KR.": "DKK", "₩": "KRW", "₽": "RUB", "₺": "TRY", "TL": "TRY", "₪": "ILS", "₱": "PHP", "฿": "THB",
+  "₫": "VND", "₴": "UAH", "R": "ZAR", "RM": "MYR", "RP": "IDR", "LEI": "RON", "DH": "AED", "DHS": "AED", "AED.": "AED",
+  "SR": "SAR", "QR": "QAR", "NT$": "TWD", "₦": "NGN", "KSH": "KES",
+};
+
+// Longest first so "US$" wins over "$" when scanning printed amounts
+const SYMBOLS = Object.keys(ALIASES).filter(key => !/^[A-Z. ]+$/.test(key)).sort((a, b) => b.length - a.length);
+
+// Maps whatever the document printed to an ISO 4217 code, or null if unrecognised
+export const normalizeCurrency = (raw: string | null | undefined): string | null => {
+  if (!raw) return null;
+  const value = raw.trim().toUpperCase().replace(/\s+/g, " ");
+  if (!value) return null;
+  if (CODE_SET.has(value)) return value;
+  if (ALIASES[value]) return ALIASES[value];
+  // "EUR €", "USD (US$)" and similar
+  const code = value.match(/\b[A-Z]{3}\b/)?.[0];
+  if (code && CODE_SET.has(code)) return code;
+  const symbol = SYMBOLS.find(s => value.includes(s));
+  return symbol ? ALIASES[symbol] : null;
+};
+
+export const isKnownCurrency = (code: string | null | undefined): boolean => !!code && CODE_SET.has(code);
+
+// Currency implied by a printed amount such as "€1.234,56" or "1,234.56 USD"
+export const currencyInAmount = (printed: string): string | null => {
+  const code = printed.toUpperCase().match(/\b[A-Z]{3}\b/)?.[0];
+  if (code && CODE_SET.has(code)) return code;
+  const symbol = SYMBOLS.find(s => printed.toUpperCase().includes(s));
+  return symbol ? ALIASES[symbol] : null;
+};
+
+export const minorUnits = (currency: string | null | undefined): number =>
+  currency ? MINOR_UNITS[currency.toUpperCase()] ?? 2 : 2;
+
+// Rounds to the currency's minor unit, e.g. whole yen or thousandths of a dinar
+export const roundMoney = (amount: number, currency: string | null | undefined): number => {
+  const factor = 10 ** minorUnits(currency);
+  return Math.round(amount * factor) / factor;
+};
+
+// Plain number with the currency's decimal places, for files other tools read
+export const formatAmount = (amount: number | null | undefined, currency: string | null | undefined): string =>
+  amount == null ? "" : amount.toFixed(minorUnits(currency));
+
+// Code, grouping and the right number of decimals, e.g. "JPY 12,000" or "EUR 1,234.50"
+export const formatMoney = (amount: number | null | undefined, currency: string | null | undefined): string => {
+  if (amount == null) return "-";
+  const digits = minorUnits(currency);
+  const number = amount.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  return currency ? `${currency} ${number}` : number;
+};
+
+// Parses amounts as printed in any common locale:
+// "1,234.56", "1.234,56", "1 234,56", "1'234.56", "(12.50)", "12.50-", "€ 99".
+// A single separator followed by exactly three digits is read as grouping,
+// since most amounts carry two decimals, unless the currency has three minor
+// units ("KWD 12.500") or the digits before it can't be a group ("0.125", "1234.567").
+export const parseAmount = (value: unknown, currency?: string | null): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+
+  // "1.234,-" is whole units, not a negative amount
+  let text = value.trim().replace(/[.,][-–]+$/, "");
+  if (!text) return null;
+  const negative = /^\(.*\)$/.test(text) || /^-|-$|^−/.test(text.replace(/[^\d.,()\-−]/g, ""));
+  // Drops symbols and codes, along with the dot of abbreviations like "Rs."
+  text = text.replace(/[^\d.,'’\s]/g, "").replace(/['’\s]/g, "").replace(/^[.,]+|[.,]+$/g, "");
+  if (!/\d/.test(text)) return null;
+
+  const lastDot = text.lastIndexOf(".");
+  const lastComma = text.lastIndexOf(",");
+  let decimal: "." | "," | null = null;
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimal = lastDot > lastComma ? "." : ",";
+  } else {
+    const separator = lastDot >= 0 ? "." : lastComma >= 0 ? "," : null;
+    if (separator) {
+      const occurrences = text.split(separator).length - 1;
+      const digitsAfter = text.length - text.lastIndexOf(separator) - 1;
+      const integerPart = text.slice(0, text.indexOf(separator));
+      const threeDecimals = minorUnits(currency) === 3 || integerPart === "0" || integerPart.length > 3;
+      decimal = occurrences === 1 && (digitsAfter !== 3 || threeDecimals) ? separator : null;
+    }
+  }
+
+  const grouping = decimal === "." ? "," : decimal === "," ? "." : /[.,]/g;
+  let normalized = text.split(grouping).join("");
+  if (decimal === ",") normalized = normalized.replace(",", ".");
+  const parsed = Number(normalized);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
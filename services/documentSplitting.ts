@@ -0,0 +1,86 @@
+import { InvoiceData, LineItem, PageRange } from "../types";
+import { normalizeIdentifier } from "./textMatching";
+
+// One page (or run of pages) of a document as the model read it. A document
+// bundling several invoices yields several segments per invoice when an
+// invoice runs over more than one page.
+export interface InvoiceSegment extends Partial<InvoiceData> {
+  page_start: number;
+  page_end: number;
+  continues_previous: boolean; // Page carries on the invoice from the page before
+}
+
+// Rows that only repeat running totals at page breaks
+const CARRY_ROW = /\b(carried|brought)\s+(forward|fwd)\b|\b[cb]\/f\b|^\s*(page\s+)?sub-?total\b|^\s*transfer\b/i;
+
+const isCarryRow = (item: LineItem) => CARRY_ROW.test(item.description ?? "");
+
+// Appends a page's line items, skipping carry-forward rows. Identical rows
+// either side of a page break are kept: the same item is often billed twice.
+const appendLineItems = (existing: LineItem[], next: LineItem[]): LineItem[] =>
+  [...existing, ...next.filter(item => !isCarryRow(item))];
+
+const startsNewInvoice = (current: InvoiceSegment, segment: InvoiceSegment): boolean => {
+  if (segment.invoice_number && current.invoice_number) {
+    return normalizeIdentifier(segment.invoice_number) !== normalizeIdentifier(current.invoice_number);
+  }
+  return !segment.continues_previous;
+};
+
+const mergeSegment = (current: InvoiceSegment, segment: InvoiceSegment): InvoiceSegment => ({
+  ...current,
+  // Header fields come from the first page that shows them
+  document_type: current.document_type ?? segment.document_type,
+  invoice_number: current.invoice_number ?? segment.invoice_number,
+  original_invoice_number: current.original_invoice_number ?? segment.original_invoice_number,
+  invoice_date: current.invoice_date ?? segment.invoice_date,
+  due_date: current.due_date ?? segment.due_date,
+  supplier_bank: current.supplier_bank ?? segment.supplier_bank,
+  supplier_name: current.supplier_name ?? segment.supplier_name,
+  supplier_tax_id: current.supplier_tax_id ?? segment.supplier_tax_id,
+  currency: current.currency ?? segment.currency,
+  // Totals are printed on the last page
+  total_amount: segment.total_amount ?? current.total_amount,
+  tax_amount: segment.tax_amount ?? current.tax_amount,
+  net_amount: segment.net_amount ?? current.net_amount,
+  tax_lines: segment.tax_lines?.length ? segment.tax_lines : current.tax_lines,
+  // Payment details usually sit in the footer under the totals
+  payment_terms: segment.payment_terms ?? current.payment_terms,
+  payment_method: segment.payment_method ?? current.payment_method,
+  amount_paid: segment.amount_paid ?? current.amount_paid,
+  balance_due: segment.balance_due ?? current.balance_due,
+  prices_include_tax: current.prices_include_tax ?? segment.prices_include_tax,
+  reverse_charge: current.reverse_charge || segment.reverse_charge,
+  line_items: appendLineItems(current.line_items ?? [], segment.line_items ?? []),
+  field_sources: {
+    ...segment.field_sources,
+    ...current.field_sources,
+    total_amount: segment.total_amount != null ? segment.field_sources?.total_amount : current.field_sources?.total_amount,
+    tax_amount: segment.tax_amount != null ? segment.field_sources?.tax_amount : current.field_sources?.tax_amount,
+  },
+  page_start: Math.min(current.page_start, segment.page_start),
+  page_end: Math.max(current.page_end, segment.page_end),
+});
+
+// Groups page segments into whole invoices, in page order
+export const mergeInvoiceSegments = (segments: InvoiceSegment[]): Partial<InvoiceData>[] => {
+  const ordered = [...segments].sort((a, b) => a.page_start - b.page_start);
+  const groups: InvoiceSegment[] = [];
+
+  for (const segment of ordered) {
+    const current = groups[groups.length - 1];
+    if (current && !startsNewInvoice(current, segment)) {
+      groups[groups.length - 1] = mergeSegment(current, segment);
+    } else {
+      groups.push({ ...segment, line_items: (segment.line_items ?? []).filter(item => !isCarryRow(item)) });
+    }
+  }
+
+  return groups.map(({ page_start, page_end, continues_previous: _, ...invoice }) => ({
+    ...invoice,
+    page_range: { start: page_start, end: page_end } satisfies PageRange,
+  }));
+};
+
+export const formatPageRange = (range: PageRange | null): string =>
+  !range ? "" : range.start === range.end ? `p. ${range.start}` : `pp. ${range.start}–${range.end}`;
@@ -0,0 +1,355 @@
+import {
+  CustomDocument, CustomFieldDefinition, CustomFieldType, CustomFieldValue, CustomScalarValue, DocumentTypeDefinition,
+} from "../types";
+import { toCsv, CsvValue } from "./csv";
+import { parseAmount } from "./currency";
+import { parseInvoiceDate } from "./invoiceValidation";
+import { ExportFile } from "./invoiceExport";
+
+// User-defined document types: each one describes the fields to pull out of a
+// kind of document the app has no dedicated tab for. The definition drives
+// the extraction schema and prompt, the results table and the exports.
+
+export const FIELD_TYPES: { id: CustomFieldType; label: string }[] = [
+  { id: "string", label: "Text" },
+  { id: "number", label: "Number" },
+  { id: "integer", label: "Whole number" },
+  { id: "date", label: "Date" },
+  { id: "boolean", label: "Yes / no" },
+  { id: "array", label: "List of items" },
+];
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// "Delivery date" -> "delivery_date"
+export const fieldKey = (label: string): string => {
+  const key = label
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(key) ? key : `field_${key}`;
+};
+
+export const createField = (label: string, type: CustomFieldType = "string"): CustomFieldDefinition => ({
+  key: fieldKey(label),
+  label,
+  type,
+  description: "",
+  required: false,
+  fields: type === "array" ? [createField("Description")] : [],
+});
+
+export const createDocumentType = (name: string): DocumentTypeDefinition => ({
+  id: newId(),
+  name,
+  description: "",
+  fields: [createField("Document number"), createField("Date", "date")],
+});
+
+const field = (
+  label: string,
+  type: CustomFieldType,
+  description: string,
+  required = false,
+  fields: CustomFieldDefinition[] = [],
+): CustomFieldDefinition => ({ key: fieldKey(label), label, type, description, required, fields });
+
+// Starting points for the documents people ask about most
+export const DOCUMENT_TYPE_TEMPLATES: Omit<DocumentTypeDefinition, "id">[] = [
+  {
+    name: "Receipt",
+    description: "A till or card-payment receipt from a shop, restaurant or taxi.",
+    fields: [
+      field("Merchant", "string", "Name of the shop or business", true),
+      field("Date", "date", "Date of the purchase", true),
+      field("Total", "number", "Total paid, exactly as printed", true),
+      field("Currency", "string", "ISO 4217 code or the symbol as printed"),
+      field("Payment method", "string", "Cash, card type or other method"),
+      field("Items", "array", "Items bought", false, [
+        field("Description", "string", "", true),
+        field("Amount", "number", "Line amount as printed"),
+      ]),
+    ],
+  },
+  {
+    name: "Purchase order",
+    description: "A purchase order sent to a supplier.",
+    fields: [
+      field("PO number", "string", "The purchase order number", true),
+      field("Order date", "date", "Date the order was raised"),
+      field("Supplier", "string", "Who the order is addressed to", true),
+      field("Delivery date", "date", "Requested delivery date"),
+      field("Total", "number", "Order total as printed"),
+      field("Lines", "array", "Ordered items", false, [
+        field("Item code", "string", "SKU or part number"),
+        field("Description", "string", "", true),
+        field("Quantity", "number", ""),
+        field("Unit price", "number", "As printed"),
+      ]),
+    ],
+  },
+  {
+    name: "Delivery note",
+    description: "A delivery note or packing slip that came with goods.",
+    fields: [
+      field("Delivery note number", "string", "", true),
+      field("Delivery date", "date", ""),
+      field("Supplier", "string", "Who sent the goods", true),
+      field("PO number", "string", "Purchase order the delivery refers to"),
+      field("Signed", "boolean", "Whether the note carries a recipient signature"),
+      field("Lines", "array", "Delivered items", false, [
+        field("Description", "string", "", true),
+        field("Quantity delivered", "number", ""),
+      ]),
+    ],
+  },
+  {
+    name: "Bank slip",
+    description: "A bank deposit or transfer slip.",
+    fields: [
+      field("Bank", "string", "Name of the bank"),
+      field("Date", "date", "Date of the transaction", true),
+      field("Amount", "number", "Amount as printed", true),
+      field("Currency", "string", "ISO 4217 code or the symbol as printed"),
+      field("Account number", "string", "Account or IBAN credited"),
+      field("Reference", "string", "Payment reference or description"),
+    ],
+  },
+];
+
+export const fromTemplate = (template: Omit<DocumentTypeDefinition, "id">): DocumentTypeDefinition => ({
+  ...structuredClone(template),
+  id: newId(),
+});
+
+const fieldProblems = (fields: CustomFieldDefinition[], path: string, nested: boolean): string[] => {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  for (const f of fields) {
+    const name = `${path}${f.label || f.key || "(unnamed)"}`;
+    if (!KEY_PATTERN.test(f.key)) problems.push(`${name}: key must be lowercase letters, digits and underscores`);
+    else if (seen.has(f.key)) problems.push(`${name}: key "${f.key}" is used twice`);
+    seen.add(f.key);
+    if (!FIELD_TYPES.some(t => t.id === f.type)) problems.push(`${name}: unknown type "${f.type}"`);
+    if (f.type === "array") {
+      if (nested) problems.push(`${name}: lists can't contain lists`);
+      else if (f.fields.length === 0) problems.push(`${name}: a list needs at least one item field`);
+      else problems.push(...fieldProblems(f.fields, `${name} → `, true));
+    }
+  }
+  return problems;
+};
+
+// Everything that would stop the definition from producing a usable schema
+export const definitionProblems = (definition: DocumentTypeDefinition): string[] => {
+  const problems: string[] = [];
+  if (!definition.name.trim()) problems.push("The document type needs a name");
+  if (definition.fields.length === 0) problems.push("Add at least one field");
+  return [...problems, ...fieldProblems(definition.fields, "", false)];
+};
+
+// --- VALUES ---
+
+const coerceScalar = (type: CustomFieldType, value: unknown): CustomScalarValue => {
+  if (value === null || value === undefined || value === "") return null;
+  switch (type) {
+    case "number":
+      return parseAmount(value);
+    case "integer": {
+      const n = parseAmount(value);
+      return n === null ? null : Math.round(n);
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (typeof value === "string") {
+        if (/^(yes|true|y|1)$/i.test(value.trim())) return true;
+        if (/^(no|false|n|0)$/i.test(value.trim())) return false;
+      }
+      return null;
+    case "date":
+      // The prompt asks for YYYY-MM-DD; anything else is kept as read so nothing is lost
+      return typeof value === "string" ? value.trim() : null;
+    default:
+      return typeof value === "string" ? value.trim() || null : String(value);
+  }
+};
+
+const coerceFields = (fields: CustomFieldDefinition[], raw: Record<string, unknown>): Record<string, CustomFieldValue> => {
+  const values: Record<string, CustomFieldValue> = {};
+  for (const f of fields) {
+    const value = raw[f.key];
+    if (f.type === "array") {
+      values[f.key] = Array.isArray(value)
+        ? value
+          .filter((item): item is Record<string, unknown> => !!item && typeof item === "object")
+          .map(item => coerceFields(f.fields, item) as Record<string, CustomScalarValue>)
+        : [];
+    } else {
+      values[f.key] = coerceScalar(f.type, value);
+    }
+  }
+  return values;
+};
+
+// Model output in the definition's shape: numbers parsed as printed, unknown keys dropped
+export const coerceValues = (definition: DocumentTypeDefinition, raw: unknown): Record<string, CustomFieldValue> =>
+  coerceFields(definition.fields, raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {});
+
+// Labels of required fields the document came back without
+export const missingRequired = (definition: DocumentTypeDefinition, values: Record<string, CustomFieldValue>): string[] =>
+  definition.fields
+    .filter(f => {
+      const value = values[f.key];
+      return f.required && (value === null || value === undefined || (Array.isArray(value) && value.length === 0));
+    })
+    .map(f => f.label);
+
+// Dates that aren't in YYYY-MM-DD form, which exports and sorting expect
+export const invalidDates = (definition: DocumentTypeDefinition, values: Record<string, CustomFieldValue>): string[] =>
+  definition.fields
+    .filter(f => f.type === "date" && typeof values[f.key] === "string" && !parseInvoiceDate(values[f.key] as string))
+    .map(f => f.label);
+
+export const formatValue = (value: CustomFieldValue | undefined): string => {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? "" : "s"}`;
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+// --- EXPORT ---
+
+// "csv" has one row per document; "items:<key>" one row per entry of that list field
+export type DocumentExportFormat = "csv" | "json" | `items:${string}`;
+
+export const documentExportFormats = (definition: DocumentTypeDefinition) => [
+  { id: "csv" as DocumentExportFormat, label: "CSV", description: "One row per document" },
+  { id: "json" as DocumentExportFormat, label: "JSON", description: "Every field, lists included" },
+  ...definition.fields
+    .filter(f => f.type === "array")
+    .map(f => ({ id: `items:${f.key}` as DocumentExportFormat, label: `${f.label} CSV`, description: `One row per entry, with the document's file name` })),
+];
+
+const slug = (name: string) => fieldKey(name) || "documents";
+
+const documentsCsv = (definition: DocumentTypeDefinition, documents: CustomDocument[]): string => {
+  const scalars = definition.fields.filter(f => f.type !== "array");
+  const lists = definition.fields.filter(f => f.type === "array");
+  const rows: CsvValue[][] = [[
+    "File Name", "Extracted At", ...scalars.map(f => f.label), ...lists.map(f => `${f.label} (count)`),
+  ]];
+  for (const doc of documents) {
+    rows.push([
+      doc.fileName,
+      doc.extracted_at,
+      ...scalars.map(f => doc.values[f.key] as CustomScalarValue),
+      ...lists.map(f => (doc.values[f.key] as unknown[] | undefined)?.length ?? 0),
+    ]);
+  }
+  return toCsv(rows);
+};
+
+const itemsCsv = (definition: DocumentTypeDefinition, documents: CustomDocument[], key: string): string => {
+  const list = definition.fields.find(f => f.key === key && f.type === "array");
+  const itemFields = list?.fields ?? [];
+  const rows: CsvValue[][] = [["File Name", ...itemFields.map(f => f.label)]];
+  for (const doc of documents) {
+    const items = (doc.values[key] ?? []) as Record<string, CustomScalarValue>[];
+    items.forEach(item => rows.push([doc.fileName, ...itemFields.map(f => item[f.key])]));
+  }
+  return toCsv(rows);
+};
+
+export const exportDocuments = (
+  format: DocumentExportFormat,
+  definition: DocumentTypeDefinition,
+  documents: CustomDocument[],
+): ExportFile => {
+  const base = slug(definition.name);
+  if (format === "json") {
+    const content = JSON.stringify(
+      documents.map(doc => ({ file_name: doc.fileName, extracted_at: doc.extracted_at, ...doc.values })),
+      null,
+      2,
+    );
+    return { content, fileName: `${base}.json`, mimeType: "application/json" };
+  }
+  if (format.startsWith("items:")) {
+    const key = format.slice("items:".length);
+    return { content: itemsCsv(definition, documents, key), fileName: `${base}_${key}.csv`, mimeType: "text/csv;charset=utf-8" };
+  }
+  return { content: documentsCsv(definition, documents), fileName: `${base}.csv`, mimeType: "text/csv;charset=utf-8" };
+};
+
+// --- DEFINITION IMPORT / EXPORT ---
+
+export const documentTypesJson = (types: DocumentTypeDefinition[]): string =>
+  JSON.stringify({ document_types: types }, null, 2);
+
+export interface DocumentTypeImportResult {
+  types: DocumentTypeDefinition[];
+  added: number;
+  updated: number;
+  errors: string[];
+}
+
+const toField = (raw: unknown): CustomFieldDefinition | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const f = raw as Partial<CustomFieldDefinition>;
+  const label = typeof f.label === "string" ? f.label : typeof f.key === "string" ? f.key : "";
+  if (!label) return null;
+  return {
+    key: typeof f.key === "string" && f.key ? f.key : fieldKey(label),
+    label,
+    type: f.type ?? "string",
+    description: typeof f.description === "string" ? f.description : "",
+    required: f.required === true,
+    fields: Array.isArray(f.fields) ? f.fields.map(toField).filter((x): x is CustomFieldDefinition => !!x) : [],
+  };
+};
+
+// Accepts a file from `documentTypesJson` or a bare array of definitions. Types
+// with the same id or name as an existing one replace it.
+export const importDocumentTypesJson = (text: string, existing: DocumentTypeDefinition[]): DocumentTypeImportResult => {
+  const result: DocumentTypeImportResult = { types: [...existing], added: 0, updated: 0, errors: [] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    result.errors.push("The file is not valid JSON");
+    return result;
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { document_types?: unknown })?.document_types;
+  if (!Array.isArray(list)) {
+    result.errors.push("Expected a list of document types");
+    return result;
+  }
+
+  list.forEach((raw, idx) => {
+    const entry = (raw ?? {}) as Partial<DocumentTypeDefinition>;
+    const definition: DocumentTypeDefinition = {
+      id: typeof entry.id === "string" && entry.id ? entry.id : newId(),
+      name: typeof entry.name === "string" ? entry.name.trim() : "",
+      description: typeof entry.description === "string" ? entry.description : "",
+      fields: Array.isArray(entry.fields) ? entry.fields.map(toField).filter((x): x is CustomFieldDefinition => !!x) : [],
+    };
+    const problems = definitionProblems(definition);
+    if (problems.length > 0) {
+      result.errors.push(`Type ${idx + 1}${definition.name ? ` (${definition.name})` : ""}: ${problems[0]}`);
+      return;
+    }
+    const match = result.types.find(t => t.id === definition.id || t.name.toLowerCase() === definition.name.toLowerCase());
+    if (match) {
+      result.types = result.types.map(t => (t === match ? { ...definition, id: match.id } : t));
+      result.updated += 1;
+    } else {
+      result.types.push(definition);
+      result.added += 1;
+    }
+  });
+  return result;
+};
@@ -0,0 +1,14 @@
+// Triggers a browser download for generated export content
+export const downloadFile = (content: string | Blob, fileName: string, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Some browsers start the download asynchronously, so release the URL later
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
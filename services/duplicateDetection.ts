@@ -0,0 +1,139 @@
+import { InvoiceData, DuplicateMatch } from "../types";
+import { companyNameSimilarity, normalizeIdentifier, similarity } from "./textMatching";
+
+// Supplier names above this similarity are treated as the same supplier
+const SUPPLIER_NAME_THRESHOLD = 0.85;
+// Invoice numbers above this similarity are treated as misreads of each other
+const INVOICE_NUMBER_THRESHOLD = 0.8;
+// Pairs scoring at least this much (and sharing a supplier) are flagged
+const DUPLICATE_THRESHOLD = 0.6;
+
+const WEIGHTS = {
+  supplier: 0.3,
+  invoiceNumber: 0.4,
+  date: 0.15,
+  amount: 0.15,
+};
+
+const sameSupplier = (a: InvoiceData, b: InvoiceData): string | null => {
+  // The registry has already reconciled differently spelled names
+  if (a.supplier_id && a.supplier_id === b.supplier_id) return "same registered supplier";
+  if (a.supplier_tax_id && b.supplier_tax_id) {
+    // Differing tax IDs mean different suppliers, however similar the names
+    return normalizeIdentifier(a.supplier_tax_id) === normalizeIdentifier(b.supplier_tax_id) ? "same supplier tax ID" : null;
+  }
+  if (a.supplier_name && b.supplier_name && companyNameSimilarity(a.supplier_name, b.supplier_name) >= SUPPLIER_NAME_THRESHOLD) {
+    return "same supplier name";
+  }
+  return null;
+};
+
+const samePages = (a: InvoiceData, b: InvoiceData): boolean =>
+  a.page_range?.start === b.page_range?.start && a.page_range?.end === b.page_range?.end;
+
+export const compareInvoices = (original: InvoiceData, candidate: InvoiceData): DuplicateMatch | null => {
+  // Invoices split out of the same document share a hash but not a page range
+  if (original.file_hash && original.file_hash === candidate.file_hash && samePages(original, candidate)) {
+    return { originalId: original.id, duplicateId: candidate.id, exactFile: true, score: 1, reasons: ["identical file"] };
+  }
+
+  // A credit note or the final invoice after a pro forma repeats the supplier and often the amount
+  if (original.document_type !== candidate.document_type) return null;
+
+  const supplierReason = sameSupplier(original, candidate);
+  if (!supplierReason) return null;
+
+  let score = WEIGHTS.supplier;
+  const reasons = [supplierReason];
+  let similarNumber = false;
+
+  if (original.invoice_number && candidate.invoice_number) {
+    const a = normalizeIdentifier(original.invoice_number);
+    const b = normalizeIdentifier(candidate.invoice_number);
+    if (a === b) {
+      score += WEIGHTS.invoiceNumber;
+      reasons.push("same invoice number");
+    } else if (similarity(a, b) >= INVOICE_NUMBER_THRESHOLD) {
+      // Likely one misread character on a scanned copy
+      score += WEIGHTS.invoiceNumber / 2;
+      reasons.push("similar invoice number");
+      similarNumber = true;
+    } else {
+      // Two clearly different numbers from one supplier are two invoices
+      return null;
+    }
+  }
+  const sameDate = !!original.invoice_date && original.invoice_date === candidate.invoice_date;
+  if (sameDate) {
+    score += WEIGHTS.date;
+    reasons.push("same date");
+  }
+  const sameTotal =
+    original.total_amount !== null &&
+    candidate.total_amount !== null &&
+    Math.abs(original.total_amount - candidate.total_amount) < 0.01;
+  if (sameTotal) {
+    score += WEIGHTS.amount;
+    reasons.push("same total");
+  }
+  // Consecutive numbers (INV1001, INV1002) look alike too, so a near-miss
+  // number only points to a misread when the date and total also agree
+  if (similarNumber && !(sameDate && sameTotal)) return null;
+
+  if (score < DUPLICATE_THRESHOLD) return null;
+  return { originalId: original.id, duplicateId: candidate.id, exactFile: false, score, reasons };
+};
+
+// Compares every pair of invoices, earliest extraction first, skipping pairs
+// the user has already marked as distinct.
+export const findDuplicates = (invoices: InvoiceData[]): DuplicateMatch[] => {
+  const ordered = [...invoices].sort((a, b) => a.extracted_at.localeCompare(b.extracted_at));
+  const matches: DuplicateMatch[] = [];
+  for (let i = 0; i < ordered.length; i++) {
+    for (let j = i + 1; j < ordered.length; j++) {
+      const a = ordered[i];
+      const b = ordered[j];
+      if (a.dismissed_duplicates.includes(b.id) || b.dismissed_duplicates.includes(a.id)) continue;
+      const match = compareInvoices(a, b);
+      if (match) matches.push(match);
+    }
+  }
+  return matches;
+};
+
+// Keeps `primary` and fills its gaps from `secondary`. The result needs
+// approving again if anything was filled in.
+export const mergeInvoices = (primary: InvoiceData, secondary: InvoiceData): InvoiceData => {
+  const merged: InvoiceData = {
+    ...primary,
+    invoice_number: primary.invoice_number ?? secondary.invoice_number,
+    original_invoice_number: primary.original_invoice_number ?? secondary.original_invoice_number,
+    invoice_date: primary.invoice_date ?? secondary.invoice_date,
+    supplier_name: primary.supplier_name ?? secondary.supplier_name,
+    supplier_tax_id: primary.supplier_tax_id ?? secondary.supplier_tax_id,
+    supplier_id: primary.supplier_id ?? secondary.supplier_id,
+    total_amount: primary.total_amount ?? secondary.total_amount,
+    currency: primary.currency || secondary.currency,
+    tax_amount: primary.tax_amount ?? secondary.tax_amount,
+    net_amount: primary.net_amount ?? secondary.net_amount,
+    tax_lines: primary.tax_lines.length > 0 ? primary.tax_lines : secondary.tax_lines,
+    prices_include_tax: primary.prices_include_tax ?? secondary.prices_include_tax,
+    reverse_charge: primary.reverse_charge || secondary.reverse_charge,
+    line_items: primary.line_items.length > 0 ? primary.line_items : secondary.line_items,
+    due_date: primary.due_date ?? secondary.due_date,
+    payment_terms: primary.payment_terms ?? secondary.payment_terms,
+    payment_method: primary.payment_method ?? secondary.payment_method,
+    amount_paid: primary.amount_paid ?? secondary.amount_paid,
+    balance_due: primary.balance_due ?? secondary.balance_due,
+    supplier_bank: primary.supplier_bank ?? secondary.supplier_bank,
+    // A payment recorded against either copy still counts
+    payable_status: primary.payable_status === "unpaid" ? secondary.payable_status : primary.payable_status,
+    payment_date: primary.payment_date ?? secondary.payment_date,
+    payment_reference: primary.payment_reference ?? secondary.payment_reference,
+    category: primary.category ?? secondary.category,
+    category_source: primary.category ? primary.category_source : secondary.category_source,
+    dismissed_duplicates: Array.from(new Set([...primary.dismissed_duplicates, ...secondary.dismissed_duplicates])),
+  };
+  const changed = JSON.stringify({ ...merged, review: null }) !== JSON.stringify({ ...primary, review: null });
+  return changed ? { ...merged, review: { ...merged.review, approved: false } } : merged;
+};
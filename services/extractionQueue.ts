@@ -0,0 +1,163 @@
+import { ExtractionJob } from "../types";
+
+export interface QueueOptions {
+  concurrency: number;
+  maxRetries: number; // Retries after the first attempt, for retryable errors only
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
+  concurrency: 2,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export interface ExtractionQueue {
+  enqueue: (files: File[]) => void;
+  cancel: () => void;
+  retry: (jobId: string) => void;
+  retryFailed: () => void;
+  clearFinished: () => void;
+  updateOptions: (options: Partial<QueueOptions>) => void;
+}
+
+// Rate limits, server errors and dropped connections are worth another try;
+// anything else (bad request, unreadable response) will fail the same way again.
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+export const isRetryableError = (err: unknown): boolean => {
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === "number") return RETRYABLE_STATUS.has(status);
+  const message = err instanceof Error ? err.message : String(err);
+  return /\b(408|429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|Failed to fetch|NetworkError|network/i.test(message);
+};
+
+const isAbortError = (err: unknown) => err instanceof DOMException && err.name === "AbortError";
+
+// Exponential backoff with full jitter so parallel jobs don't retry in lockstep
+const backoffDelay = (attempt: number, options: QueueOptions) =>
+  Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Cancelled", "AbortError"));
+    }, { once: true });
+  });
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Runs `worker` over queued files with bounded concurrency. `onUpdate` receives
+// a fresh snapshot of every job whenever any of them changes state.
+export const createExtractionQueue = (
+  worker: (file: File, signal: AbortSignal) => Promise<void>,
+  onUpdate: (jobs: ExtractionJob[]) => void,
+  initialOptions: Partial<QueueOptions> = {},
+): ExtractionQueue => {
+  let options: QueueOptions = { ...DEFAULT_QUEUE_OPTIONS, ...initialOptions };
+  let jobs: ExtractionJob[] = [];
+  let active = 0;
+  let controller = new AbortController();
+
+  const emit = () => onUpdate(jobs.map(job => ({ ...job })));
+
+  const setJob = (id: string, patch: Partial<ExtractionJob>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+    emit();
+  };
+
+  const run = async (job: ExtractionJob) => {
+    const { signal } = controller;
+    let attempts = job.attempts;
+    setJob(job.id, { status: "processing", error: null });
+
+    for (;;) {
+      attempts += 1;
+      try {
+        await worker(job.file, signal);
+        setJob(job.id, { status: "success", attempts });
+        return;
+      } catch (err) {
+        if (signal.aborted || isAbortError(err)) {
+          setJob(job.id, { status: "cancelled", attempts });
+          return;
+        }
+        const retriesUsed = attempts - job.attempts - 1;
+        if (!isRetryableError(err) || retriesUsed >= options.maxRetries) {
+          console.error(`Error processing ${job.file.name}:`, err);
+          setJob(job.id, { status: "error", attempts, error: errorMessage(err) });
+          return;
+        }
+        setJob(job.id, { attempts, error: `Retrying: ${errorMessage(err)}` });
+        try {
+          await sleep(backoffDelay(attempts, options), signal);
+        } catch {
+          setJob(job.id, { status: "cancelled", attempts });
+          return;
+        }
+      }
+    }
+  };
+
+  const pump = () => {
+    while (active < options.concurrency) {
+      const next = jobs.find(job => job.status === "queued");
+      if (!next) return;
+      active += 1;
+      // Mark synchronously so the next loop iteration doesn't pick it again
+      jobs = jobs.map(job => (job.id === next.id ? { ...job, status: "processing" } : job));
+      run(next).finally(() => {
+        active -= 1;
+        pump();
+      });
+    }
+  };
+
+  const requeue = (predicate: (job: ExtractionJob) => boolean) => {
+    jobs = jobs.map(job => (predicate(job) ? { ...job, status: "queued", error: null } : job));
+    emit();
+    pump();
+  };
+
+  return {
+    enqueue: (files) => {
+      // A fresh controller so a previous cancel doesn't abort the new batch
+      if (controller.signal.aborted) controller = new AbortController();
+      const added: ExtractionJob[] = files.map(file => ({
+        id: Math.random().toString(36).substr(2, 9),
+        file,
+        status: "queued",
+        attempts: 0,
+        error: null,
+      }));
+      jobs = [...jobs, ...added];
+      emit();
+      pump();
+    },
+    cancel: () => {
+      controller.abort();
+      jobs = jobs.map(job => (job.status === "queued" ? { ...job, status: "cancelled" } : job));
+      emit();
+    },
+    retry: (jobId) => {
+      if (controller.signal.aborted) controller = new AbortController();
+      requeue(job => job.id === jobId && (job.status === "error" || job.status === "cancelled"));
+    },
+    retryFailed: () => {
+      if (controller.signal.aborted) controller = new AbortController();
+      requeue(job => job.status === "error" || job.status === "cancelled");
+    },
+    clearFinished: () => {
+      jobs = jobs.filter(job => job.status === "queued" || job.status === "processing");
+      emit();
+    },
+    updateOptions: (patch) => {
+      options = { ...options, ...patch };
+      pump();
+    },
+  };
+};
@@ -0,0 +1,63 @@
+import { InvoiceData, BusinessCardData, CustomFieldValue, DocumentTypeDefinition, DocumentClassification } from "../types";
+import { proxyProvider } from "./proxyProvider";
+import { mockProvider } from "./mockProvider";
+import { CategorySuggestionRequest } from "./categorization";
+
+// A backend capable of turning an uploaded document into structured data.
+// The tabs only ever talk to the active provider through this module.
+export interface ExtractionProvider {
+  name: string;
+  // What kind of document a file is, so the inbox can route it
+  classifyDocument: (file: File, signal?: AbortSignal) => Promise<DocumentClassification>;
+  extractInvoiceData: (file: File, signal?: AbortSignal) => Promise<Partial<InvoiceData>>;
+  // Every invoice in a document that may bundle several, each with its page_range
+  extractInvoiceDocuments: (file: File, signal?: AbortSignal) => Promise<Partial<InvoiceData>[]>;
+  extractBusinessCardData: (file: File, signal?: AbortSignal) => Promise<Partial<BusinessCardData>>;
+  // Values keyed by the definition's field keys
+  extractCustomDocument: (
+    file: File,
+    definition: DocumentTypeDefinition,
+    signal?: AbortSignal,
+  ) => Promise<Record<string, CustomFieldValue>>;
+  // One of `categories` per line, or null where none fits
+  suggestCategories: (lines: CategorySuggestionRequest[], categories: string[], signal?: AbortSignal) => Promise<(string | null)[]>;
+}
+
+// Gemini itself is only called from the API server, so the browser never holds the key
+const providers: Record<string, ExtractionProvider> = {
+  [proxyProvider.name]: proxyProvider,
+  [mockProvider.name]: mockProvider,
+};
+
+// EXTRACTION_PROVIDER=mock in .env.local runs the app without the API server or a Gemini key
+let activeProvider: ExtractionProvider = providers[process.env.EXTRACTION_PROVIDER || ""] ?? proxyProvider;
+
+export const getExtractionProvider = (): ExtractionProvider => activeProvider;
+
+export const setExtractionProvider = (provider: ExtractionProvider) => {
+  activeProvider = provider;
+};
+
+export const classifyDocument = (file: File, signal?: AbortSignal): Promise<DocumentClassification> =>
+  activeProvider.classifyDocument(file, signal);
+
+export const extractInvoiceData = (file: File, signal?: AbortSignal): Promise<Partial<InvoiceData>> =>
+  activeProvider.extractInvoiceData(file, signal);
+
+export const extractInvoiceDocuments = (file: File, signal?: AbortSignal): Promise<Partial<InvoiceData>[]> =>
+  activeProvider.extractInvoiceDocuments(file, signal);
+
+export const extractBusinessCardData = (file: File, signal?: AbortSignal): Promise<Partial<BusinessCardData>> =>
+  activeProvider.extractBusinessCardData(file, signal);
+
+export const extractCustomDocument = (
+  file: File,
+  definition: DocumentTypeDefinition,
+  signal?: AbortSignal,
+): Promise<Record<string, CustomFieldValue>> => activeProvider.extractCustomDocument(file, definition, signal);
+
+export const suggestCategories = (
+  lines: CategorySuggestionRequest[],
+  categories: string[],
+  signal?: AbortSignal,
+): Promise<(string | null)[]> => activeProvider.suggestCategories(lines, categories, signal);
@@ -0,0 +1,49 @@
+import { FieldSource, InvoiceField, BusinessCardField } from "../types";
+
+export const INVOICE_FIELDS: readonly InvoiceField[] = [
+  "document_type", "invoice_number", "original_invoice_number", "invoice_date", "supplier_name", "supplier_tax_id",
+  "total_amount", "currency", "tax_amount", "net_amount", "tax_lines", "line_items",
+  "due_date", "payment_terms", "payment_method", "amount_paid", "balance_due", "supplier_bank",
+];
+
+export const BUSINESS_CARD_FIELDS: readonly BusinessCardField[] = [
+  "full_name", "company", "job_title", "emails", "phones", "website", "social_profiles", "address",
+];
+
+// Below this the UI asks a person to double-check the value
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const isLowConfidence = (source: FieldSource | undefined): boolean =>
+  source !== undefined && source.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+// Shape the model returns: one entry per field, since schemas can't key objects dynamically
+export interface RawFieldSource {
+  field: string;
+  confidence: number;
+  page?: number | null;
+  box_2d?: number[] | null;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Drops unknown fields and malformed boxes rather than trusting model output
+export const toFieldSources = <F extends string>(
+  raw: RawFieldSource[] | undefined,
+  fields: readonly F[],
+): Partial<Record<F, FieldSource>> => {
+  const result: Partial<Record<F, FieldSource>> = {};
+  for (const entry of raw ?? []) {
+    if (!fields.includes(entry.field as F) || typeof entry.confidence !== "number") continue;
+    const box = entry.box_2d;
+    const validBox = Array.isArray(box) && box.length === 4 && box.every(n => typeof n === "number") && box[0] < box[2] && box[1] < box[3];
+    result[entry.field as F] = {
+      confidence: clamp(entry.confidence, 0, 1),
+      page: typeof entry.page === "number" && entry.page >= 1 ? Math.floor(entry.page) : null,
+      box: validBox ? (box!.map(n => clamp(n, 0, 1000)) as [number, number, number, number]) : null,
+    };
+  }
+  return result;
+};
+
+export const formatConfidence = (source: FieldSource | undefined): string =>
+  source ? `${Math.round(source.confidence * 100)}% confidence` : "";
@@ -0,0 +1,171 @@
+import { detectFormat } from "./imagePreprocessing";
+
+// Turns whatever the user dropped, pasted or picked into individual documents:
+// walks dropped folders, unpacks ZIP archives and rejects files the extraction
+// flow can't take.
+
+export interface IngestResult {
+  accepted: File[];
+  rejected: string[]; // One message per file turned away
+}
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  pdf: "application/pdf",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  heic: "image/heic",
+  heif: "image/heif",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  zip: "application/zip",
+};
+
+const extension = (name: string) => name.toLowerCase().split(".").pop() ?? "";
+
+const isZip = (file: File) =>
+  extension(file.name) === "zip" || file.type === "application/zip" || file.type === "application/x-zip-compressed";
+
+// macOS resource forks and hidden files ride along in most archives and folders
+const isJunk = (path: string) => path.split("/").some(part => part.startsWith(".") || part === "__MACOSX");
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// --- ZIP ---
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const inflateRaw = (data: Uint8Array): Promise<Blob> =>
+  new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"))).blob();
+
+// Reads the archive's central directory and unpacks every file in it.
+// Supports stored and deflated entries, which covers what OS and mail
+// clients produce; encrypted and ZIP64 archives are rejected.
+export const expandZip = async (zip: File): Promise<File[]> => {
+  const buffer = await zip.arrayBuffer();
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits at the end, before an optional comment
+  let eocd = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("not a valid ZIP archive");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff || entryCount === 0xffff) throw new Error("ZIP64 archives are not supported");
+
+  const files: File[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error("corrupt ZIP directory");
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith("/") || isJunk(path)) continue;
+    if (flags & 0x1) throw new Error("password-protected archives are not supported");
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new Error("corrupt ZIP entry");
+
+    // Sizes come from the central directory; the local header may defer them to a data descriptor
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    let content: Blob;
+    if (method === 0) content = new Blob([data]);
+    else if (method === 8) content = await inflateRaw(data);
+    else throw new Error(`unsupported compression in ${path}`);
+
+    const name = path.split("/").pop() ?? path;
+    files.push(new File([content], name, { type: MIME_BY_EXTENSION[extension(name)] ?? "", lastModified: zip.lastModified }));
+  }
+  return files;
+};
+
+// --- DROPPED FOLDERS ---
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const walkEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (isJunk(entry.name)) return [];
+  if (entry.isFile) return [await entryFile(entry as FileSystemFileEntry)];
+  if (!entry.isDirectory) return [];
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries returns directories in batches until it returns none
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) files.push(...(await walkEntry(child)));
+  }
+  return files;
+};
+
+// Files from a drop, descending into folders where the browser exposes them
+export const filesFromDataTransfer = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries have to be taken before the first await, while the drop event is still live
+  const items = Array.from(dataTransfer.items ?? []).filter(item => item.kind === "file");
+  const entries = items.map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => entry === null)) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  for (const entry of entries) files.push(...(await walkEntry(entry!)));
+  return files;
+};
+
+// --- VALIDATION ---
+
+export const sizeProblem = (file: File, maxBytes: number, name = file.name): string | null =>
+  file.size > maxBytes ? `${name}: ${formatMb(file.size)} is over the ${formatMb(maxBytes)} limit` : null;
+
+// Images about to be preprocessed skip the size check here; preprocessing
+// usually shrinks them, so callers check the prepared file instead
+export const validateUpload = (file: File, maxBytes: number, preprocessImages = false): string | null => {
+  if (file.size === 0) return `${file.name}: file is empty`;
+  const format = detectFormat(file);
+  if (format === "other") return `${file.name}: unsupported file type (use PDF, JPG, PNG, HEIC, WebP or TIFF)`;
+  if (preprocessImages && format !== "pdf") return null;
+  return sizeProblem(file, maxBytes);
+};
+
+// Expands archives and splits the result into usable files and rejection messages
+export const ingestFiles = async (files: File[], maxBytes: number, preprocessImages = false): Promise<IngestResult> => {
+  const result: IngestResult = { accepted: [], rejected: [] };
+  for (const file of files) {
+    if (isZip(file)) {
+      try {
+        const inner = await expandZip(file);
+        if (inner.length === 0) result.rejected.push(`${file.name}: archive is empty`);
+        for (const entry of inner) {
+          // Archives inside archives are not unpacked further
+          const problem = isZip(entry) ? `${entry.name} (in ${file.name}): nested archives are not supported` : validateUpload(entry, maxBytes, preprocessImages);
+          if (problem) result.rejected.push(problem);
+          else result.accepted.push(entry);
+        }
+      } catch (e) {
+        result.rejected.push(`${file.name}: ${e instanceof Error ? e.message : "could not be opened"}`);
+      }
+      continue;
+    }
+    const problem = validateUpload(file, maxBytes, preprocessImages);
+    if (problem) result.rejected.push(problem);
+    else result.accepted.push(file);
+  }
+  return result;
+};
@@ -0,0 +1,135 @@
+import { FxRate, InvoiceData, ValidationIssue } from "../types";
+import { parseCsv, toCsv } from "./csv";
+import { normalizeCurrency, roundMoney, isKnownCurrency } from "./currency";
+import { parseInvoiceDate } from "./invoiceValidation";
+
+// Exchange rates into the base currency, imported as a CSV table and looked up
+// by invoice date. A rate applies from its date until the next one for the
+// same currency, so monthly or daily tables both work.
+
+export interface FxSettings {
+  base_currency: string;
+  fx_rates: FxRate[];
+}
+
+export interface Conversion {
+  currency: string; // The base currency
+  total_amount: number | null;
+  tax_amount: number | null;
+  rate: number;
+  rate_date: string | null; // Null when no conversion was needed
+}
+
+export interface FxImportResult {
+  rates: FxRate[];
+  errors: string[]; // One message per skipped row
+}
+
+const HEADER_NAMES = { date: ["date", "valid_from", "from"], currency: ["currency", "code", "ccy"], rate: ["rate", "fx_rate", "value"] };
+
+// Rates often carry three or more decimals ("1,095"), so unlike invoice amounts
+// a lone separator is always the decimal point
+const parseRate = (value: string | undefined): number | null => {
+  const text = (value ?? "").trim().replace(/\s/g, "");
+  if (!text) return null;
+  const parsed = Number(text.includes(".") ? text.replace(/,/g, "") : text.replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Reads "date,currency,rate" rows. The header row is optional; without one
+// the columns are taken in that order.
+export const parseFxCsv = (text: string): FxImportResult => {
+  const rows = parseCsv(text);
+  const result: FxImportResult = { rates: [], errors: [] };
+  if (rows.length === 0) return result;
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.some(cell => HEADER_NAMES.date.includes(cell) || HEADER_NAMES.rate.includes(cell));
+  const column = (names: string[], fallback: number) => {
+    const index = hasHeader ? header.findIndex(cell => names.includes(cell)) : -1;
+    return index >= 0 ? index : fallback;
+  };
+  const dateCol = column(HEADER_NAMES.date, 0);
+  const currencyCol = column(HEADER_NAMES.currency, 1);
+  const rateCol = column(HEADER_NAMES.rate, 2);
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, idx) => {
+    const line = idx + (hasHeader ? 2 : 1);
+    const date = row[dateCol]?.trim() ?? "";
+    const currency = normalizeCurrency(row[currencyCol]);
+    const rate = parseRate(row[rateCol]);
+    if (!parseInvoiceDate(date)) {
+      result.errors.push(`Line ${line}: "${date}" is not a YYYY-MM-DD date`);
+    } else if (!currency) {
+      result.errors.push(`Line ${line}: unknown currency "${row[currencyCol] ?? ""}"`);
+    } else if (rate === null || rate <= 0) {
+      result.errors.push(`Line ${line}: rate "${row[rateCol] ?? ""}" is not a positive number`);
+    } else {
+      result.rates.push({ date, currency, rate });
+    }
+  });
+  return result;
+};
+
+// Later imports replace earlier rates for the same date and currency
+export const mergeFxRates = (existing: FxRate[], incoming: FxRate[]): FxRate[] => {
+  const byKey = new Map(existing.map(rate => [`${rate.currency}|${rate.date}`, rate]));
+  incoming.forEach(rate => byKey.set(`${rate.currency}|${rate.date}`, rate));
+  return [...byKey.values()].sort((a, b) => a.currency.localeCompare(b.currency) || a.date.localeCompare(b.date));
+};
+
+export const fxRatesCsv = (rates: FxRate[]): string =>
+  toCsv([["date", "currency", "rate"], ...rates.map(rate => [rate.date, rate.currency, rate.rate])]);
+
+// Latest rate for the currency dated on or before the given day
+export const findRate = (rates: FxRate[], currency: string, date: string): FxRate | null => {
+  let best: FxRate | null = null;
+  for (const rate of rates) {
+    if (rate.currency !== currency || rate.date > date) continue;
+    if (!best || rate.date > best.date) best = rate;
+  }
+  return best;
+};
+
+// Base-currency amounts for an invoice, or null when there is no usable rate
+export const convertInvoice = (invoice: InvoiceData, fx: FxSettings): Conversion | null => {
+  const base = fx.base_currency;
+  const convert = (amount: number | null, rate: number) => (amount === null ? null : roundMoney(amount * rate, base));
+
+  if (!invoice.currency || invoice.currency === base) {
+    return { currency: base, total_amount: invoice.total_amount, tax_amount: invoice.tax_amount, rate: 1, rate_date: null };
+  }
+  if (!invoice.invoice_date || !parseInvoiceDate(invoice.invoice_date)) return null;
+  const rate = findRate(fx.fx_rates, invoice.currency, invoice.invoice_date);
+  if (!rate) return null;
+  return {
+    currency: base,
+    total_amount: convert(invoice.total_amount, rate.rate),
+    tax_amount: convert(invoice.tax_amount, rate.rate),
+    rate: rate.rate,
+    rate_date: rate.date,
+  };
+};
+
+// Flags invoices whose currency is unrecognised or can't be converted to the base
+export const validateCurrency = (invoice: InvoiceData, fx: FxSettings): ValidationIssue[] => {
+  if (!isKnownCurrency(invoice.currency)) {
+    return [{
+      code: "unknown_currency",
+      severity: "warning",
+      field: "currency",
+      message: `"${invoice.currency ?? ""}" is not an ISO 4217 currency code`,
+    }];
+  }
+  if (invoice.total_amount !== null && !convertInvoice(invoice, fx)) {
+    return [{
+      code: "missing_fx_rate",
+      severity: "warning",
+      field: "currency",
+      message: invoice.invoice_date
+        ? `No ${invoice.currency} → ${fx.base_currency} rate on or before ${invoice.invoice_date}`
+        : `Cannot convert ${invoice.currency} to ${fx.base_currency} without an invoice date`,
+    }];
+  }
+  return [];
+};
@@ -1,28 +1,155 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { InvoiceData, BusinessCardData } from "../types";
+import {
+  InvoiceData, BusinessCardData, CustomFieldDefinition, CustomFieldValue, DocumentTypeDefinition, DocumentClassification,
+} from "../types";
+import { ExtractionProvider } from "./extractionService";
+import { INVOICE_FIELDS, BUSINESS_CARD_FIELDS, RawFieldSource, toFieldSources } from "./fieldSources";
+import { InvoiceSegment, mergeInvoiceSegments } from "./documentSplitting";
+import { parseAmount, normalizeCurrency, currencyInAmount } from "./currency";
+import { CategorySuggestionRequest } from "./categorization";
+import { coerceValues } from "./documentTypes";
+import { INVOICE_DOCUMENT_TYPES, isInvoiceDocumentType } from "./invoiceTypes";
+import { cleanBankDetails } from "./bankDetails";
+import { DOCUMENT_CLASSES, toClassification } from "./inbox";
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Runs on the API server, which holds the key; the browser reaches it through
+// the proxy provider. The client is created lazily so the server can start,
+// and report the problem per request, without a key.
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!process.env.GEMINI_API_KEY) throw new Error("GEMINI_API_KEY is not set on the server");
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  return client;
+};
 
 const MODEL_NAME = "gemini-3-pro-preview"; // Using Gemini 3 as requested
 
-// Helper to convert file to Base64
-const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64Content = base64String.split(",")[1];
-      resolve({
-        inlineData: {
-          data: base64Content,
-          mimeType: file.type,
-        },
-      });
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
+// btoa only takes a binary string; build it in chunks to stay under the argument limit
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Reads through arrayBuffer rather than FileReader so it works in Node as well as the browser
+const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => ({
+  inlineData: {
+    data: toBase64(new Uint8Array(await file.arrayBuffer())),
+    mimeType: file.type,
+  },
+});
+
+// Asks the model how sure it is of each field and where on the page it read it
+const fieldSourcesSchema = (fields: readonly string[]): Schema => ({
+  type: Type.ARRAY,
+  description: "One entry per extracted field: confidence and where on the document it was read",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      field: { type: Type.STRING, enum: [...fields] },
+      confidence: { type: Type.NUMBER, description: "0 = guessed, 1 = printed clearly and unambiguous" },
+      page: { type: Type.INTEGER, description: "1-based page number the value was read from" },
+      box_2d: {
+        type: Type.ARRAY,
+        description: "Bounding box [ymin, xmin, ymax, xmax] normalized to 0-1000",
+        items: { type: Type.INTEGER },
+      },
+    },
+    required: ["field", "confidence"],
+  },
+});
+
+type WithRawSources<T> = Omit<T, "field_sources"> & { field_sources?: RawFieldSource[] };
+
+// Unit prices often carry three decimals ("3.499" a litre), which the parser
+// reads as grouping; the line total tells which reading was printed
+const unitPrice = (value: unknown, quantity: unknown, lineTotal: number | null, currency: string | null): number | null => {
+  const price = parseAmount(value, currency);
+  if (price === null || lineTotal === null || typeof quantity !== "number" || typeof value !== "string") return price;
+  if (!/^[^\d]*\d{1,3}[.,]\d{3}[^\d]*$/.test(value.trim())) return price;
+  const matches = (candidate: number) => Math.abs(quantity * candidate - lineTotal) <= 0.01;
+  return !matches(price) && matches(price / 1000) ? price / 1000 : price;
+};
+
+// Amounts come back as printed ("1.234,56") so the local parser, not the
+// model, decides which separator is the decimal point
+const withParsedAmounts = <T extends Partial<InvoiceData>>(raw: T): T => {
+  const printedTotal = (raw as { total_amount?: unknown }).total_amount;
+  // Three-decimal currencies decide how "12.500" reads, so the currency comes first
+  const currency = normalizeCurrency(raw.currency) ?? (typeof printedTotal === "string" ? currencyInAmount(printedTotal) : null);
+  const amount = (value: unknown) => parseAmount(value, currency);
+  return {
+    ...raw,
+    total_amount: amount(raw.total_amount),
+    tax_amount: amount(raw.tax_amount),
+    net_amount: amount(raw.net_amount),
+    amount_paid: amount(raw.amount_paid),
+    balance_due: amount(raw.balance_due),
+    document_type: isInvoiceDocumentType(raw.document_type) ? raw.document_type : undefined,
+    supplier_bank: cleanBankDetails(raw.supplier_bank),
+    tax_lines: raw.tax_lines?.map(line => ({
+      ...line,
+      taxable_base: amount(line.taxable_base),
+      tax_amount: amount(line.tax_amount) ?? 0,
+    })),
+    currency: currency ?? raw.currency,
+    line_items: raw.line_items?.map(item => ({
+      ...item,
+      unit_price: unitPrice(item.unit_price, item.quantity, amount(item.line_total), currency) ?? 0,
+      line_total: amount(item.line_total) ?? 0,
+    })),
+  };
+};
+
+// --- CLASSIFICATION ---
+
+const classificationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    document_class: { type: Type.STRING, enum: DOCUMENT_CLASSES.map(c => c.id) },
+    confidence: { type: Type.NUMBER, description: "0 = guessed, 1 = certain" },
+    reason: { type: Type.STRING, description: "One short sentence on what gave the document away" },
+  },
+  required: ["document_class", "confidence", "reason"],
+};
+
+const CLASSIFICATION_PROMPT = [
+  "Classify this document as exactly one of:",
+  "invoice: a supplier's bill or tax invoice requesting payment;",
+  "credit_note: a credit note or credit memo that reduces or refunds an earlier invoice;",
+  "receipt: a till, card-payment or cash receipt confirming a purchase was paid;",
+  "business_card: a person's business card, one or both sides;",
+  "other: anything else, such as letters, contracts, statements, quotes, photos or blank pages.",
+  "Return JSON.",
+].join(" ");
+
+const classifyDocument = async (file: File, signal?: AbortSignal): Promise<DocumentClassification> => {
+  const filePart = await fileToGenerativePart(file);
+
+  const response = await getClient().models.generateContent({
+    model: MODEL_NAME,
+    contents: {
+      role: "user",
+      parts: [filePart, { text: CLASSIFICATION_PROMPT }],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: classificationSchema,
+      abortSignal: signal,
+    },
   });
+
+  const text = response.text;
+  if (!text) throw new Error("No data returned from model");
+
+  try {
+    return toClassification(JSON.parse(text));
+  } catch (e) {
+    console.error("Failed to parse JSON", e);
+    throw new Error("Failed to parse model response");
+  }
 };
 
 // --- INVOICE EXTRACTION ---
@@ -30,13 +157,39 @@ const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: s
 const invoiceSchema: Schema = {
   type: Type.OBJECT,
   properties: {
+    document_type: {
+      type: Type.STRING,
+      enum: INVOICE_DOCUMENT_TYPES.map(t => t.id),
+      description: "credit_note for credit notes or credit memos, pro_forma for pro forma invoices, receipt for till or payment receipts, otherwise invoice",
+    },
     invoice_number: { type: Type.STRING, description: "The invoice number or identifier" },
+    original_invoice_number: { type: Type.STRING, description: "For credit notes, the number of the invoice being credited" },
     invoice_date: { type: Type.STRING, description: "The date of the invoice (YYYY-MM-DD preferred)" },
     supplier_name: { type: Type.STRING, description: "Name of the supplier or vendor" },
     supplier_tax_id: { type: Type.STRING, description: "Tax ID, VAT ID, or GST number of the supplier" },
-    total_amount: { type: Type.NUMBER, description: "The total final amount of the invoice" },
-    currency: { type: Type.STRING, description: "Currency code (e.g., USD, EUR)" },
-    tax_amount: { type: Type.NUMBER, description: "Total tax amount (VAT/GST)" },
+    total_amount: { type: Type.STRING, description: "The total final amount of the invoice, exactly as printed including separators" },
+    currency: { type: Type.STRING, description: "ISO 4217 currency code (e.g., USD, EUR), or the symbol as printed if unsure" },
+    tax_amount: { type: Type.STRING, description: "Total tax amount (VAT/GST), exactly as printed including separators" },
+    net_amount: { type: Type.STRING, description: "Total before tax (net / subtotal), exactly as printed" },
+    tax_lines: {
+      type: Type.ARRAY,
+      description: "The tax summary: one entry per tax type and rate, e.g. VAT 20% and VAT 5%, or CGST 9% and SGST 9%",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          tax_type: { type: Type.STRING, enum: ["vat", "gst", "cgst", "sgst", "igst", "sales_tax", "other"] },
+          rate: { type: Type.NUMBER, description: "Rate in percent" },
+          taxable_base: { type: Type.STRING, description: "Net amount taxed at this rate, as printed" },
+          tax_amount: { type: Type.STRING, description: "Tax at this rate, as printed" },
+        },
+        required: ["tax_type", "tax_amount"],
+      },
+    },
+    prices_include_tax: { type: Type.BOOLEAN, description: "True if line item amounts include tax (gross), false if they are net" },
+    reverse_charge: {
+      type: Type.BOOLEAN,
+      description: "True if the invoice states reverse charge, autoliquidation, or that tax is payable by the recipient",
+    },
     line_items: {
       type: Type.ARRAY,
       description: "List of items purchased",
@@ -45,43 +198,135 @@ const invoiceSchema: Schema = {
         properties: {
           description: { type: Type.STRING },
           quantity: { type: Type.NUMBER },
-          unit_price: { type: Type.NUMBER },
-          line_total: { type: Type.NUMBER },
+          unit_price: { type: Type.STRING, description: "As printed" },
+          line_total: { type: Type.STRING, description: "As printed" },
+          tax_rate: { type: Type.NUMBER, description: "Tax rate in percent, if shown for this line" },
         },
         required: ["description", "line_total"],
       },
     },
+    due_date: { type: Type.STRING, description: "Payment due date (YYYY-MM-DD), only if a date is printed" },
+    payment_terms: { type: Type.STRING, description: "Payment terms exactly as printed, e.g. 'Net 30' or 'Due on receipt'" },
+    payment_method: { type: Type.STRING, description: "How the supplier asks to be paid or was paid, e.g. bank transfer, direct debit, card" },
+    amount_paid: { type: Type.STRING, description: "Deposits or payments already received, as printed" },
+    balance_due: { type: Type.STRING, description: "Amount still to pay, as printed" },
+    supplier_bank: {
+      type: Type.OBJECT,
+      description: "The supplier's bank details for payment",
+      properties: {
+        bank_name: { type: Type.STRING },
+        iban: { type: Type.STRING },
+        bic: { type: Type.STRING, description: "BIC / SWIFT code" },
+        account_number: { type: Type.STRING, description: "Domestic account number, if no IBAN" },
+        routing_code: { type: Type.STRING, description: "Sort code, ABA routing number, BSB or similar" },
+      },
+    },
+    field_sources: fieldSourcesSchema(INVOICE_FIELDS),
   },
-  required: ["supplier_name", "total_amount"],
+  required: ["document_type", "supplier_name", "total_amount"],
 };
 
-export const extractInvoiceData = async (file: File): Promise<Partial<InvoiceData>> => {
+const extractInvoiceData = async (file: File, signal?: AbortSignal): Promise<Partial<InvoiceData>> => {
   const filePart = await fileToGenerativePart(file);
 
-  const response = await ai.models.generateContent({
+  const response = await getClient().models.generateContent({
     model: MODEL_NAME,
     contents: {
       role: "user",
       parts: [
         filePart,
-        { text: "Extract the following invoice data from this document. Return JSON." },
+        { text: "Extract the following invoice data from this document. It may also be a credit note, receipt or pro forma invoice; say which. Copy amounts as printed, including any minus sign. For every field you fill in, report your confidence and the page and bounding box you read it from. Return JSON." },
       ],
     },
     config: {
       responseMimeType: "application/json",
       responseSchema: invoiceSchema,
+      abortSignal: signal,
+    },
+  });
+
+  const text = response.text;
+  if (!text) throw new Error("No data returned from model");
+
+  try {
+    const parsed = JSON.parse(text) as Partial<WithRawSources<InvoiceData>>;
+    return withParsedAmounts({ ...parsed, field_sources: toFieldSources(parsed.field_sources, INVOICE_FIELDS) });
+  } catch (e) {
+    console.error("Failed to parse JSON", e);
+    throw new Error("Failed to parse model response");
+  }
+};
+
+// --- MULTI-INVOICE DOCUMENTS ---
+
+// Statements and scanner stacks bundle several invoices in one file. The model
+// reports each page on its own and the pages are stitched together locally,
+// which copes better with long invoices than asking for whole invoices.
+const invoiceDocumentSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      description: "One entry per page, in page order",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          ...invoiceSchema.properties,
+          page_start: { type: Type.INTEGER, description: "1-based page number" },
+          page_end: { type: Type.INTEGER, description: "Same as page_start unless one entry must cover several pages" },
+          continues_previous: {
+            type: Type.BOOLEAN,
+            description: "True if this page continues the invoice from the previous page rather than starting a new one",
+          },
+        },
+        required: ["page_start", "page_end", "continues_previous"],
+      },
+    },
+  },
+  required: ["segments"],
+};
+
+const extractInvoiceDocuments = async (file: File, signal?: AbortSignal): Promise<Partial<InvoiceData>[]> => {
+  const filePart = await fileToGenerativePart(file);
+
+  const response = await getClient().models.generateContent({
+    model: MODEL_NAME,
+    contents: {
+      role: "user",
+      parts: [
+        filePart,
+        {
+          text:
+            "This document may contain several invoices, and an invoice may run over several pages. " +
+            "Go through it page by page. For each page, mark whether it starts a new invoice or continues the previous one, " +
+            "and extract the invoice fields and line items visible on that page only. Repeat the invoice number on continuation pages if it is printed there. " +
+            "For every field you fill in, report your confidence and the page and bounding box you read it from. Return JSON.",
+        },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: invoiceDocumentSchema,
+      abortSignal: signal,
     },
   });
 
   const text = response.text;
   if (!text) throw new Error("No data returned from model");
 
+  let parsed: { segments?: WithRawSources<InvoiceSegment>[] };
   try {
-    return JSON.parse(text) as Partial<InvoiceData>;
+    parsed = JSON.parse(text);
   } catch (e) {
     console.error("Failed to parse JSON", e);
     throw new Error("Failed to parse model response");
   }
+
+  const segments = (parsed.segments ?? []).map(segment => withParsedAmounts({
+    ...segment,
+    field_sources: toFieldSources(segment.field_sources, INVOICE_FIELDS),
+  }));
+  return mergeInvoiceSegments(segments);
 };
 
 // --- BUSINESS CARD EXTRACTION ---
@@ -92,29 +337,192 @@ const businessCardSchema: Schema = {
     full_name: { type: Type.STRING, description: "Full name of the person" },
     company: { type: Type.STRING, description: "Company name" },
     job_title: { type: Type.STRING, description: "Job title or role" },
-    email: { type: Type.STRING, description: "Email address" },
-    phone: { type: Type.STRING, description: "Phone number" },
-    website: { type: Type.STRING, description: "Website URL" },
-    address: { type: Type.STRING, description: "Physical address" },
+    emails: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ["work", "personal", "other"] },
+          address: { type: Type.STRING, description: "Email address" },
+        },
+        required: ["type", "address"],
+      },
+    },
+    phones: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ["mobile", "work", "fax", "other"], description: "From the label printed next to the number (M, T, F, Mobile, Tel, Fax...)" },
+          number: { type: Type.STRING, description: "Phone number exactly as printed, including any country code" },
+        },
+        required: ["type", "number"],
+      },
+    },
+    website: { type: Type.STRING, description: "Company website URL" },
+    social_profiles: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          network: { type: Type.STRING, enum: ["linkedin", "x", "instagram", "facebook", "github", "other"] },
+          url: { type: Type.STRING, description: "Profile URL or handle as printed" },
+        },
+        required: ["network", "url"],
+      },
+    },
+    address: {
+      type: Type.OBJECT,
+      properties: {
+        street: { type: Type.STRING, description: "Street, building and unit; separate printed lines with newlines" },
+        city: { type: Type.STRING },
+        region: { type: Type.STRING, description: "State, province or county" },
+        postal_code: { type: Type.STRING },
+        country: { type: Type.STRING },
+      },
+    },
+    field_sources: fieldSourcesSchema(BUSINESS_CARD_FIELDS),
   },
   required: ["full_name"],
 };
 
-export const extractBusinessCardData = async (file: File): Promise<Partial<BusinessCardData>> => {
+const extractBusinessCardData = async (file: File, signal?: AbortSignal): Promise<Partial<BusinessCardData>> => {
   const filePart = await fileToGenerativePart(file);
 
-  const response = await ai.models.generateContent({
+  const response = await getClient().models.generateContent({
     model: MODEL_NAME,
     contents: {
       role: "user",
       parts: [
         filePart,
-        { text: "Extract contact details from this business card. Return JSON." },
+        { text: "Extract contact details from this business card. The image may show the front and back of the same card one above the other; combine both sides into one contact. For every field you fill in, report your confidence and the bounding box you read it from. Return JSON." },
       ],
     },
     config: {
       responseMimeType: "application/json",
       responseSchema: businessCardSchema,
+      abortSignal: signal,
+    },
+  });
+
+  const text = response.text;
+  if (!text) throw new Error("No data returned from model");
+
+  try {
+    const parsed = JSON.parse(text) as Partial<WithRawSources<BusinessCardData>>;
+    return { ...parsed, field_sources: toFieldSources(parsed.field_sources, BUSINESS_CARD_FIELDS) };
+  } catch (e) {
+    console.error("Failed to parse JSON", e);
+    throw new Error("Failed to parse model response");
+  }
+};
+
+// --- CUSTOM DOCUMENT TYPES ---
+
+// Numbers come back as printed, like invoice amounts, and are parsed locally
+const customFieldSchema = (field: CustomFieldDefinition): Schema => {
+  const description = field.description ? `${field.label}: ${field.description}` : field.label;
+  switch (field.type) {
+    case "number":
+      return { type: Type.STRING, description: `${description} (exactly as printed)` };
+    case "integer":
+      return { type: Type.INTEGER, description };
+    case "boolean":
+      return { type: Type.BOOLEAN, description };
+    case "date":
+      return { type: Type.STRING, description: `${description} (YYYY-MM-DD)` };
+    case "array":
+      return { type: Type.ARRAY, description, items: customObjectSchema(field.fields) };
+    default:
+      return { type: Type.STRING, description };
+  }
+};
+
+const customObjectSchema = (fields: CustomFieldDefinition[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(fields.map(f => [f.key, customFieldSchema(f)])),
+  required: fields.filter(f => f.required).map(f => f.key),
+});
+
+const customDocumentPrompt = (definition: DocumentTypeDefinition): string =>
+  [
+    `Extract the fields of this ${definition.name}.`,
+    definition.description.trim(),
+    "Only fill in values printed on the document; leave out fields you can't find. Return JSON.",
+  ].filter(Boolean).join(" ");
+
+const extractCustomDocument = async (
+  file: File,
+  definition: DocumentTypeDefinition,
+  signal?: AbortSignal,
+): Promise<Record<string, CustomFieldValue>> => {
+  const filePart = await fileToGenerativePart(file);
+
+  const response = await getClient().models.generateContent({
+    model: MODEL_NAME,
+    contents: {
+      role: "user",
+      parts: [filePart, { text: customDocumentPrompt(definition) }],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: customObjectSchema(definition.fields),
+      abortSignal: signal,
+    },
+  });
+
+  const text = response.text;
+  if (!text) throw new Error("No data returned from model");
+
+  try {
+    return coerceValues(definition, JSON.parse(text));
+  } catch (e) {
+    console.error("Failed to parse JSON", e);
+    throw new Error("Failed to parse model response");
+  }
+};
+
+// --- EXPENSE CATEGORIES ---
+
+const categorySuggestionSchema = (categories: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    suggestions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          line: { type: Type.INTEGER, description: "Number of the line as given in the prompt" },
+          category: { type: Type.STRING, enum: categories, description: "Best-fitting category; omit the line if none fits" },
+        },
+        required: ["line", "category"],
+      },
+    },
+  },
+  required: ["suggestions"],
+});
+
+// Text only: the lines have already been extracted, so no document is sent
+const suggestCategories = async (
+  lines: CategorySuggestionRequest[],
+  categories: string[],
+  signal?: AbortSignal,
+): Promise<(string | null)[]> => {
+  if (lines.length === 0 || categories.length === 0) return lines.map(() => null);
+  const listing = lines
+    .map((line, idx) => `${idx + 1}. ${line.description}${line.supplier_name ? ` (supplier: ${line.supplier_name})` : ""}`)
+    .join("\n");
+
+  const response = await getClient().models.generateContent({
+    model: MODEL_NAME,
+    contents: {
+      role: "user",
+      parts: [{ text: `Assign each invoice line to one of these expense categories: ${categories.join(", ")}. Leave out lines that fit none of them. Return JSON.\n\n${listing}` }],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: categorySuggestionSchema(categories),
+      abortSignal: signal,
     },
   });
 
@@ -122,9 +530,24 @@ export const extractBusinessCardData = async (file: File): Promise<Partial<Busin
   if (!text) throw new Error("No data returned from model");
 
   try {
-    return JSON.parse(text) as Partial<BusinessCardData>;
+    const parsed = JSON.parse(text) as { suggestions?: { line: number; category: string }[] };
+    const result: (string | null)[] = lines.map(() => null);
+    for (const { line, category } of parsed.suggestions ?? []) {
+      if (line >= 1 && line <= lines.length && categories.includes(category)) result[line - 1] = category;
+    }
+    return result;
   } catch (e) {
     console.error("Failed to parse JSON", e);
     throw new Error("Failed to parse model response");
   }
 };
+
+export const geminiProvider: ExtractionProvider = {
+  name: "gemini",
+  classifyDocument,
+  extractInvoiceData,
+  extractInvoiceDocuments,
+  extractBusinessCardData,
+  extractCustomDocument,
+  suggestCategories,
+};
@@ -0,0 +1,429 @@
+import { ImagePreprocessingOptions } from "../types";
+
+// Browser-side clean-up of photos and scans before they are sent for
+// extraction: converts formats the model or browser can't take, turns the page
+// upright, crops away the table it was photographed on, straightens it and
+// shrinks it to a size budget. PDFs are passed through untouched.
+
+export interface PreprocessResult {
+  original: File;
+  file: File; // What gets uploaded; the original when nothing needed changing
+  steps: string[]; // Human-readable list of what was done
+  error: string | null; // Set when preprocessing failed and the original is used instead
+}
+
+// File input `accept` list; HEIC and TIFF often arrive without a MIME type
+export const ACCEPTED_UPLOAD_TYPES =
+  "image/jpeg,image/png,image/webp,image/heic,image/heif,image/tiff,application/pdf,application/zip,.heic,.heif,.tif,.tiff,.zip";
+
+type SourceFormat = "jpeg" | "png" | "webp" | "heic" | "tiff" | "pdf" | "other";
+
+export const detectFormat = (file: File): SourceFormat => {
+  const type = file.type.toLowerCase();
+  const ext = file.name.toLowerCase().split(".").pop() ?? "";
+  if (type === "application/pdf" || ext === "pdf") return "pdf";
+  if (type === "image/jpeg" || ext === "jpg" || ext === "jpeg") return "jpeg";
+  if (type === "image/png" || ext === "png") return "png";
+  if (type === "image/webp" || ext === "webp") return "webp";
+  if (type === "image/heic" || type === "image/heif" || ext === "heic" || ext === "heif") return "heic";
+  if (type === "image/tiff" || ext === "tif" || ext === "tiff") return "tiff";
+  return "other";
+};
+
+// Never upscale the working copy past this, whatever the camera produced
+const MAX_WORKING_DIMENSION = 4000;
+// Side length of the thumbnails used to find the page and measure skew
+const CROP_ANALYSIS_SIZE = 400;
+const SKEW_ANALYSIS_SIZE = 1000;
+const MIN_SKEW_DEGREES = 0.3;
+const MAX_SKEW_DEGREES = 10;
+const MIN_OUTPUT_DIMENSION = 800;
+
+const formatKb = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+// --- CANVAS HELPERS ---
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const context = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available in this browser");
+  ctx.imageSmoothingQuality = "high";
+  return ctx;
+};
+
+const scaled = (source: CanvasImageSource, width: number, height: number, scale: number): HTMLCanvasElement => {
+  const canvas = createCanvas(width * scale, height * scale);
+  context(canvas).drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Luminance of a canvas shrunk so its longest side is `size`
+const grayscaleThumbnail = (canvas: HTMLCanvasElement, size: number) => {
+  const scale = Math.min(1, size / Math.max(canvas.width, canvas.height));
+  const thumb = scaled(canvas, canvas.width, canvas.height, scale);
+  const { data } = context(thumb).getImageData(0, 0, thumb.width, thumb.height);
+  const gray = new Uint8Array(thumb.width * thumb.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return { gray, width: thumb.width, height: thumb.height, scale };
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode image"))), type, quality);
+  });
+
+// --- DECODING ---
+
+// Orientation tag from a JPEG's EXIF block; 1 (upright) when absent
+const readExifOrientation = async (file: Blob): Promise<number> => {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+const decodeHeic = async (file: File): Promise<ImageBitmap> => {
+  try {
+    // Safari decodes HEIC natively
+    return await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    const { default: heic2any } = await import("heic2any");
+    const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.95 });
+    return createImageBitmap(Array.isArray(converted) ? converted[0] : converted, { imageOrientation: "from-image" });
+  }
+};
+
+// First page only; multi-page TIFFs should be sent as PDF instead
+const decodeTiff = async (file: File): Promise<HTMLCanvasElement | ImageBitmap> => {
+  try {
+    return await createImageBitmap(file);
+  } catch {
+    const UTIF = await import("utif");
+    const buffer = await file.arrayBuffer();
+    const [page] = UTIF.decode(buffer);
+    if (!page) throw new Error("TIFF file contains no images");
+    UTIF.decodeImage(buffer, page);
+    const rgba = UTIF.toRGBA8(page);
+    const canvas = createCanvas(page.width, page.height);
+    context(canvas).putImageData(new ImageData(new Uint8ClampedArray(rgba), page.width, page.height), 0, 0);
+    return canvas;
+  }
+};
+
+// Decodes any accepted image; the browser applies EXIF rotation while decoding
+const decodeImage = async (file: File, format: SourceFormat, steps: string[]) => {
+  switch (format) {
+    case "heic":
+      steps.push("Converted from HEIC");
+      return decodeHeic(file);
+    case "tiff":
+      steps.push("Converted from TIFF");
+      return decodeTiff(file);
+    case "webp":
+      steps.push("Converted from WebP");
+      return createImageBitmap(file, { imageOrientation: "from-image" });
+    default: {
+      if (format === "jpeg" && (await readExifOrientation(file)) > 1) steps.push("Rotated upright (EXIF)");
+      return createImageBitmap(file, { imageOrientation: "from-image" });
+    }
+  }
+};
+
+// --- ANALYSIS ---
+
+// Otsu's method: the gray level that best separates dark and light pixels
+const otsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+
+  let best = 127, bestVariance = -1, weightDark = 0, sumDark = 0;
+  for (let level = 0; level < 256; level++) {
+    weightDark += histogram[level];
+    if (weightDark === 0) continue;
+    const weightLight = total - weightDark;
+    if (weightLight === 0) break;
+    sumDark += level * histogram[level];
+    const meanDark = sumDark / weightDark;
+    const meanLight = (sum - sumDark) / weightLight;
+    const variance = weightDark * weightLight * (meanDark - meanLight) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+};
+
+interface Rect { x: number; y: number; width: number; height: number; }
+
+// Bounding box of the largest light region, taken to be the paper. Returns
+// null when there is no clear page or it already fills the frame.
+const detectDocumentBounds = (gray: Uint8Array, width: number, height: number): Rect | null => {
+  const threshold = otsuThreshold(gray);
+  const labels = new Int32Array(gray.length);
+  const stack = new Int32Array(gray.length);
+  let best = { area: 0, minX: 0, minY: 0, maxX: 0, maxY: 0 };
+
+  let label = 0;
+  for (let start = 0; start < gray.length; start++) {
+    if (labels[start] || gray[start] <= threshold) continue;
+    label++;
+    let top = 0, area = 0;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+    stack[top++] = start;
+    labels[start] = label;
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width, y = (index - x) / width;
+      area++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+      for (const next of neighbours) {
+        if (next >= 0 && next < gray.length && !labels[next] && gray[next] > threshold) {
+          labels[next] = label;
+          stack[top++] = next;
+        }
+      }
+    }
+    if (area > best.area) best = { area, minX, minY, maxX, maxY };
+  }
+
+  const boxWidth = best.maxX - best.minX + 1;
+  const boxHeight = best.maxY - best.minY + 1;
+  const imageArea = width * height;
+  // Too small to be the page, not page-shaped, or nothing worth cropping
+  if (best.area < imageArea * 0.2) return null;
+  if (best.area < boxWidth * boxHeight * 0.6) return null;
+  if (boxWidth * boxHeight > imageArea * 0.95) return null;
+
+  // Keep a small margin so text at the very edge survives
+  const padX = Math.round(width * 0.01), padY = Math.round(height * 0.01);
+  const x = Math.max(0, best.minX - padX), y = Math.max(0, best.minY - padY);
+  return {
+    x,
+    y,
+    width: Math.min(width, best.maxX + 1 + padX) - x,
+    height: Math.min(height, best.maxY + 1 + padY) - y,
+  };
+};
+
+// Projection-profile skew estimate: text lines produce the sharpest row
+// histogram when projected at their own angle. Returns degrees, clockwise.
+const estimateSkew = (gray: Uint8Array, width: number, height: number): number => {
+  const threshold = otsuThreshold(gray);
+  const xs: number[] = [], ys: number[] = [];
+  for (let i = 0; i < gray.length; i++) {
+    if (gray[i] < threshold) {
+      xs.push(i % width);
+      ys.push(Math.floor(i / width));
+    }
+  }
+  // Blank pages and photos without text give no usable signal
+  if (xs.length < 200 || xs.length > gray.length * 0.5) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const histogram = new Float64Array(diagonal * 2 + 1);
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians), cos = Math.cos(radians);
+    histogram.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      histogram[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++;
+    }
+    let total = 0;
+    for (let i = 0; i < histogram.length; i++) total += histogram[i] * histogram[i];
+    return total;
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let bestAngle = 0, bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const s = score(angle);
+      if (s > bestScore) {
+        bestScore = s;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+  return Math.round(search(coarse - 0.5, coarse + 0.5, 0.1) * 10) / 10;
+};
+
+// --- TRANSFORMS ---
+
+const crop = (canvas: HTMLCanvasElement, rect: Rect): HTMLCanvasElement => {
+  const out = createCanvas(rect.width, rect.height);
+  context(out).drawImage(canvas, rect.x, rect.y, rect.width, rect.height, 0, 0, out.width, out.height);
+  return out;
+};
+
+// Rotates counter to the measured skew onto a white canvas large enough to keep the corners
+const rotate = (canvas: HTMLCanvasElement, degrees: number): HTMLCanvasElement => {
+  const radians = (-degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians)), cos = Math.abs(Math.cos(radians));
+  const out = createCanvas(canvas.width * cos + canvas.height * sin, canvas.width * sin + canvas.height * cos);
+  const ctx = context(out);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, out.width, out.height);
+  ctx.translate(out.width / 2, out.height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return out;
+};
+
+// Grayscale, optionally stretched so the darkest 1% is black and the lightest 1% white
+const applyColorMode = (canvas: HTMLCanvasElement, highContrast: boolean) => {
+  const ctx = context(canvas);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const pixels = data.length / 4;
+  const gray = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+
+  let low = 0, high = 255;
+  if (highContrast) {
+    const histogram = new Array(256).fill(0);
+    gray.forEach(value => histogram[value]++);
+    let seen = 0;
+    for (low = 0; low < 255 && (seen += histogram[low]) < pixels * 0.01; low++);
+    seen = 0;
+    for (high = 255; high > low + 1 && (seen += histogram[high]) < pixels * 0.01; high--);
+  }
+  const range = Math.max(1, high - low);
+
+  for (let i = 0; i < pixels; i++) {
+    const value = highContrast ? Math.min(255, Math.max(0, ((gray[i] - low) * 255) / range)) : gray[i];
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = value;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+// Re-encodes as JPEG, lowering quality and then resolution until it fits the budget
+const encodeWithinBudget = async (canvas: HTMLCanvasElement, maxBytes: number): Promise<Blob> => {
+  let current = canvas;
+  for (;;) {
+    for (const quality of [0.9, 0.8, 0.7, 0.6]) {
+      const blob = await toBlob(current, "image/jpeg", quality);
+      if (blob.size <= maxBytes) return blob;
+    }
+    if (Math.max(current.width, current.height) * 0.8 < MIN_OUTPUT_DIMENSION) {
+      // Legibility beats the budget
+      return toBlob(current, "image/jpeg", 0.6);
+    }
+    current = scaled(current, current.width, current.height, 0.8);
+  }
+};
+
+const renamed = (fileName: string, extension: string) => fileName.replace(/\.[^./\\]+$/, "") + extension;
+
+// --- PIPELINE ---
+
+export const preprocessFile = async (file: File, options: ImagePreprocessingOptions): Promise<PreprocessResult> => {
+  const format = detectFormat(file);
+  const maxBytes = options.max_kb * 1024;
+  if (!options.enabled || format === "pdf" || format === "other") {
+    return { original: file, file, steps: [], error: null };
+  }
+
+  try {
+    const steps: string[] = [];
+    const decoded = await decodeImage(file, format, steps);
+    const width = decoded.width, height = decoded.height;
+    const scale = Math.min(1, MAX_WORKING_DIMENSION / Math.max(width, height));
+    let canvas = createCanvas(width * scale, height * scale);
+    const ctx = context(canvas);
+    // JPEG has no transparency, so transparent PNG areas become paper rather than black
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(decoded, 0, 0, canvas.width, canvas.height);
+    if ("close" in decoded) decoded.close();
+
+    if (options.auto_crop) {
+      const thumb = grayscaleThumbnail(canvas, CROP_ANALYSIS_SIZE);
+      const bounds = detectDocumentBounds(thumb.gray, thumb.width, thumb.height);
+      if (bounds) {
+        canvas = crop(canvas, {
+          x: bounds.x / thumb.scale,
+          y: bounds.y / thumb.scale,
+          width: bounds.width / thumb.scale,
+          height: bounds.height / thumb.scale,
+        });
+        steps.push("Cropped to document edges");
+      }
+    }
+
+    if (options.deskew) {
+      const thumb = grayscaleThumbnail(canvas, SKEW_ANALYSIS_SIZE);
+      const skew = estimateSkew(thumb.gray, thumb.width, thumb.height);
+      if (Math.abs(skew) >= MIN_SKEW_DEGREES) {
+        canvas = rotate(canvas, skew);
+        steps.push(`Straightened by ${Math.abs(skew).toFixed(1)}°`);
+      }
+    }
+
+    const longest = Math.max(canvas.width, canvas.height);
+    if (longest > options.max_dimension) {
+      canvas = scaled(canvas, canvas.width, canvas.height, options.max_dimension / longest);
+      steps.push(`Resized to ${canvas.width}×${canvas.height}`);
+    }
+
+    if (options.color_mode !== "color") {
+      applyColorMode(canvas, options.color_mode === "high_contrast");
+      steps.push(options.color_mode === "high_contrast" ? "High contrast" : "Grayscale");
+    }
+
+    // A small, already-upright JPEG or PNG is better sent as it is
+    if (steps.length === 0 && file.size <= maxBytes) {
+      return { original: file, file, steps: [], error: null };
+    }
+
+    const blob = await encodeWithinBudget(canvas, maxBytes);
+    steps.push(`${formatKb(file.size)} → ${formatKb(blob.size)}`);
+    const output = new File([blob], renamed(file.name, ".jpg"), { type: "image/jpeg", lastModified: file.lastModified });
+    return { original: file, file: output, steps, error: null };
+  } catch (e) {
+    console.error("Image preprocessing failed", e);
+    // HEIC and TIFF can't be read by the model as they are, so those fail outright
+    const usable = format === "jpeg" || format === "png" || format === "webp";
+    if (!usable) throw new Error(`Could not convert ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    return { original: file, file, steps: [], error: e instanceof Error ? e.message : String(e) };
+  }
+};
@@ -0,0 +1,85 @@
+import { DocumentClass, DocumentClassification, InvoiceDocumentType } from "../types";
+
+// The inbox takes any mix of uploads, asks the model what each one is, and
+// hands the supported ones to the tab that extracts that kind of document.
+
+export type InboxDestination = "invoices" | "cards";
+
+// Credit notes and receipts are read by the invoice extractor; "other" is rejected
+export const DOCUMENT_CLASSES: { id: DocumentClass; label: string; destination: InboxDestination | null }[] = [
+  { id: "invoice", label: "Invoice", destination: "invoices" },
+  { id: "credit_note", label: "Credit note", destination: "invoices" },
+  { id: "receipt", label: "Receipt", destination: "invoices" },
+  { id: "business_card", label: "Business card", destination: "cards" },
+  { id: "other", label: "Other / unsupported", destination: null },
+];
+
+export const DESTINATION_LABELS: Record<InboxDestination, string> = {
+  invoices: "Invoices",
+  cards: "Business Cards",
+};
+
+const CLASS_IDS = DOCUMENT_CLASSES.map(c => c.id);
+
+// Below this the user is asked to confirm the type before the file is sent on
+export const CONFIRM_BELOW_CONFIDENCE = 0.6;
+
+export const documentClassLabel = (id: DocumentClass): string =>
+  DOCUMENT_CLASSES.find(c => c.id === id)?.label ?? id;
+
+export const destinationFor = (id: DocumentClass): InboxDestination | null =>
+  DOCUMENT_CLASSES.find(c => c.id === id)?.destination ?? null;
+
+// Model output with an unknown class or a missing confidence is treated as unsupported
+export const toClassification = (raw: unknown): DocumentClassification => {
+  const parsed = (raw && typeof raw === "object" ? raw : {}) as Partial<Record<keyof DocumentClassification, unknown>>;
+  const known = CLASS_IDS.includes(parsed.document_class as DocumentClass);
+  const confidence = typeof parsed.confidence === "number" ? Math.min(1, Math.max(0, parsed.confidence)) : 0;
+  return {
+    document_class: known ? (parsed.document_class as DocumentClass) : "other",
+    confidence: known ? confidence : 0,
+    reason: typeof parsed.reason === "string" ? parsed.reason.trim() : "",
+  };
+};
+
+export interface InboxItem {
+  id: string;
+  file: File;
+  classification: DocumentClassification;
+  override: DocumentClass | null; // Set when the user picks or confirms the type
+}
+
+export const effectiveClass = (item: InboxItem): DocumentClass =>
+  item.override ?? item.classification.document_class;
+
+export const needsConfirmation = (item: InboxItem): boolean =>
+  item.override === null && item.classification.confidence < CONFIRM_BELOW_CONFIDENCE;
+
+// A sorted file with the type the inbox settled on, including any correction by the user
+export interface RoutedFile {
+  file: File;
+  documentClass: DocumentClass;
+}
+
+// Files ready to send, grouped by the tab that will extract them
+export const routeItems = (items: InboxItem[]): Record<InboxDestination, RoutedFile[]> => {
+  const routed: Record<InboxDestination, RoutedFile[]> = { invoices: [], cards: [] };
+  for (const item of items) {
+    const documentClass = effectiveClass(item);
+    const destination = destinationFor(documentClass);
+    if (destination && !needsConfirmation(item)) routed[destination].push({ file: item.file, documentClass });
+  }
+  return routed;
+};
+
+// The routed class decides the document type of invoices extracted from the
+// file, so a credit note the model reads as an invoice still gets its sign.
+// The inbox has no pro forma class, so an invoice keeps a pro forma the model read.
+export const routedDocumentType = (
+  documentClass: DocumentClass,
+  extracted: InvoiceDocumentType | undefined,
+): InvoiceDocumentType | undefined => {
+  if (documentClass === "credit_note" || documentClass === "receipt") return documentClass;
+  if (documentClass === "invoice") return extracted === "pro_forma" ? extracted : "invoice";
+  return extracted;
+};
@@ -0,0 +1,262 @@
+import { InvoiceData, ValidationIssue } from "../types";
+import { toCsv, CsvValue } from "./csv";
+import { formatIssues, parseInvoiceDate } from "./invoiceValidation";
+import { formatAmount, roundMoney } from "./currency";
+import { convertInvoice, FxSettings } from "./fxRates";
+import { formatTaxLines } from "./taxReport";
+import { accountFor, invoiceCategories, lineCategory, LedgerSettings } from "./categorization";
+import { countsTowardsTotals, documentTypeLabel } from "./invoiceTypes";
+import { formatBankDetails } from "./bankDetails";
+import { dueDateFor, payableStatusLabel } from "./payables";
+
+export type InvoiceExportFormat = "csv" | "line_items_csv" | "quickbooks_iif" | "xero_csv" | "json";
+
+export const INVOICE_EXPORT_FORMATS: { id: InvoiceExportFormat; label: string; description: string }[] = [
+  { id: "csv", label: "Invoices CSV", description: "One row per invoice" },
+  { id: "line_items_csv", label: "Line items CSV", description: "One row per line item with its invoice details" },
+  { id: "quickbooks_iif", label: "QuickBooks IIF", description: "Bills for QuickBooks Desktop import" },
+  { id: "xero_csv", label: "Xero bills CSV", description: "Xero purchase bill import template" },
+  { id: "json", label: "JSON", description: "Every extracted field, for other tools" },
+];
+
+export interface ExportFile {
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+export type IssuesById = Record<string, ValidationIssue[]>;
+
+// Reformats an ISO invoice date; unparseable dates are passed through as-is
+const formatDate = (value: string | null, order: "MDY" | "DMY"): string => {
+  if (!value) return "";
+  const date = parseInvoiceDate(value);
+  if (!date) return value;
+  const dd = String(date.getDate()).padStart(2, "0");
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  return order === "MDY" ? `${mm}/${dd}/${date.getFullYear()}` : `${dd}/${mm}/${date.getFullYear()}`;
+};
+
+// --- CSV ---
+
+const INVOICE_HEADERS = [
+  "Invoice #", "Document Type", "Original Invoice #", "Date", "Supplier", "Tax ID", "Total", "Currency", "Net", "Tax",
+  "Tax Breakdown", "Reverse Charge", "Base Currency", "Total (Base)", "Tax (Base)", "FX Rate", "FX Rate Date", "Category",
+  "Account", "Due Date", "Payment Terms", "Payment Method", "Amount Paid", "Balance Due", "Supplier Bank Details",
+  "Payment Status", "Payment Date", "Payment Reference", "Line Items Count", "Validation",
+];
+
+// Account code for a category, or empty when it isn't mapped
+const accountCode = (category: string | null, ledger: LedgerSettings): string => accountFor(category, ledger)?.code ?? "";
+
+// Base-currency columns stay empty when no rate is available. Invoices whose
+// lines fall into several categories list each of them.
+const invoiceColumns = (inv: InvoiceData, issues: ValidationIssue[], fx: FxSettings, ledger: LedgerSettings): CsvValue[] => {
+  const conversion = convertInvoice(inv, fx);
+  const categories = invoiceCategories(inv);
+  return [
+    inv.invoice_number,
+    documentTypeLabel(inv.document_type),
+    inv.original_invoice_number,
+    inv.invoice_date,
+    inv.supplier_name,
+    inv.supplier_tax_id,
+    formatAmount(inv.total_amount, inv.currency),
+    inv.currency,
+    formatAmount(inv.net_amount, inv.currency),
+    formatAmount(inv.tax_amount, inv.currency),
+    formatTaxLines(inv),
+    inv.reverse_charge ? "Yes" : "No",
+    fx.base_currency,
+    formatAmount(conversion?.total_amount, fx.base_currency),
+    formatAmount(conversion?.tax_amount, fx.base_currency),
+    conversion?.rate,
+    conversion?.rate_date,
+    categories.join("; "),
+    [...new Set(categories.map(c => accountCode(c, ledger)).filter(Boolean))].join("; "),
+    dueDateFor(inv)?.date,
+    inv.payment_terms,
+    inv.payment_method,
+    formatAmount(inv.amount_paid, inv.currency),
+    formatAmount(inv.balance_due, inv.currency),
+    formatBankDetails(inv.supplier_bank),
+    payableStatusLabel(inv.payable_status),
+    inv.payment_date,
+    inv.payment_reference,
+    inv.line_items.length,
+    formatIssues(issues),
+  ];
+};
+
+const invoicesCsv = (invoices: InvoiceData[], issuesById: IssuesById, fx: FxSettings, ledger: LedgerSettings): string =>
+  toCsv([INVOICE_HEADERS, ...invoices.map(inv => invoiceColumns(inv, issuesById[inv.id] ?? [], fx, ledger))]);
+
+const LINE_ITEM_HEADERS = ["Line #", "Description", "Quantity", "Unit Price", "Tax Rate", "Line Total", "Line Category", "Line Account"];
+
+// Invoices without line items still get one row so no invoice disappears
+const lineItemsCsv = (invoices: InvoiceData[], issuesById: IssuesById, fx: FxSettings, ledger: LedgerSettings): string => {
+  const rows: CsvValue[][] = [[...INVOICE_HEADERS, ...LINE_ITEM_HEADERS]];
+  for (const inv of invoices) {
+    const parent = invoiceColumns(inv, issuesById[inv.id] ?? [], fx, ledger);
+    if (inv.line_items.length === 0) {
+      rows.push([...parent, "", "", "", "", "", "", inv.category, accountCode(inv.category, ledger)]);
+    }
+    inv.line_items.forEach((item, idx) => {
+      const category = lineCategory(inv, item);
+      rows.push([
+        ...parent, idx + 1, item.description, item.quantity, formatAmount(item.unit_price, inv.currency), item.tax_rate,
+        formatAmount(item.line_total, inv.currency), category, accountCode(category, ledger),
+      ]);
+    });
+  }
+  return toCsv(rows);
+};
+
+// --- QUICKBOOKS IIF ---
+
+// Default QuickBooks Desktop account names; bills credit A/P and debit expenses.
+// Lines in a mapped category are booked to that account's name instead.
+const QB_ACCOUNTS = {
+  payable: "Accounts Payable",
+  expense: "Uncategorized Expenses",
+  tax: "Purchase Tax",
+};
+
+// IIF is tab-separated with no quoting, so tabs and line breaks must go
+const iifField = (value: CsvValue): string =>
+  value === null || value === undefined ? "" : String(value).replace(/[\t\r\n]+/g, " ").trim();
+
+const iifRow = (values: CsvValue[]) => values.map(iifField).join("\t");
+
+// Credit notes are already negative, so the same rows book them as bill credits.
+// Pro formas aren't bills and are left out.
+const quickbooksIif = (invoices: InvoiceData[], ledger: LedgerSettings): string => {
+  const lines = [
+    iifRow(["!TRNS", "TRNSID", "TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"]),
+    iifRow(["!SPL", "SPLID", "TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"]),
+    iifRow(["!ENDTRNS"]),
+  ];
+
+  for (const inv of invoices.filter(countsTowardsTotals)) {
+    const type = inv.document_type === "credit_note" ? "BILL CREDIT" : "BILL";
+    const date = formatDate(inv.invoice_date, "MDY");
+    const vendor = inv.supplier_name ?? "";
+    const total = inv.total_amount ?? 0;
+    const tax = inv.tax_amount ?? 0;
+    const expenseAccount = (category: string | null) => accountFor(category, ledger)?.name ?? QB_ACCOUNTS.expense;
+    const splits: { account: string; amount: number; memo: string }[] = inv.line_items.map(item => ({
+      account: expenseAccount(lineCategory(inv, item)),
+      amount: item.line_total,
+      memo: item.description,
+    }));
+    if (tax !== 0) splits.push({ account: QB_ACCOUNTS.tax, amount: tax, memo: "Tax" });
+
+    // QuickBooks rejects transactions that don't balance, so book any
+    // difference between the lines and the total to the expense account
+    const remainder = roundMoney(total - splits.reduce((sum, s) => sum + s.amount, 0), inv.currency);
+    if (remainder !== 0) splits.push({ account: expenseAccount(inv.category), amount: remainder, memo: "Unallocated" });
+
+    const money = (value: number) => formatAmount(value, inv.currency);
+    lines.push(iifRow(["TRNS", "", type, date, QB_ACCOUNTS.payable, vendor, money(-total), inv.invoice_number, inv.fileName]));
+    for (const split of splits) {
+      lines.push(iifRow(["SPL", "", type, date, split.account, vendor, money(split.amount), inv.invoice_number, split.memo]));
+    }
+    lines.push(iifRow(["ENDTRNS"]));
+  }
+
+  return lines.join("\r\n") + "\r\n";
+};
+
+// --- XERO ---
+
+// Column layout of Xero's purchase bill import template (* = required)
+const XERO_HEADERS = [
+  "*ContactName", "EmailAddress", "POAddressLine1", "POAddressLine2", "POAddressLine3", "POAddressLine4",
+  "POCity", "PORegion", "POPostalCode", "POCountry", "*InvoiceNumber", "*InvoiceDate", "*DueDate",
+  "InventoryItemCode", "Description", "*Quantity", "*UnitAmount", "*AccountCode", "*TaxType", "TaxAmount",
+  "TrackingName1", "TrackingOption1", "TrackingName2", "TrackingOption2", "Currency",
+];
+
+// "General Expenses" in Xero's default chart of accounts
+const XERO_DEFAULT_ACCOUNT_CODE = "429";
+
+// Xero multiplies quantity by unit amount, so a unit price that was missing
+// (extracted as 0) or doesn't multiply out falls back to the line total's share
+const xeroUnitAmount = (item: { quantity: number; unit_price: number; line_total: number }, currency: string | null): number => {
+  if (!item.quantity) return item.line_total;
+  const multipliesOut = Math.abs(item.quantity * item.unit_price - item.line_total) <= 0.01;
+  return item.unit_price !== 0 && multipliesOut ? item.unit_price : roundMoney(item.line_total / item.quantity, currency);
+};
+
+// Xero imports a bill with a negative total as a credit note; pro formas are left out
+const xeroCsv = (invoices: InvoiceData[], ledger: LedgerSettings): string => {
+  const rows: CsvValue[][] = [XERO_HEADERS];
+
+  for (const inv of invoices.filter(countsTowardsTotals)) {
+    // Xero reads dates in the organisation's regional format; DD/MM/YYYY is the template default
+    const date = formatDate(inv.invoice_date, "DMY");
+    const due = dueDateFor(inv);
+    const dueDate = due ? formatDate(due.date, "DMY") : date;
+    const taxType = inv.tax_amount ? "Tax on Purchases" : "Tax Exempt";
+    const net = inv.net_amount ?? (inv.total_amount ?? 0) - (inv.tax_amount ?? 0);
+    const lines = inv.line_items.length > 0
+      ? inv.line_items
+      : [{ description: `Invoice ${inv.invoice_number ?? ""}`.trim(), quantity: 1, unit_price: net, line_total: net, category: inv.category }];
+
+    lines.forEach((item, idx) => {
+      // TaxAmount is per line in Xero but extracted per invoice, so it all goes on the first line
+      const taxAmount = idx === 0 ? formatAmount(inv.tax_amount, inv.currency) : "";
+      const quantity = item.quantity || 1;
+      const unitAmount = xeroUnitAmount(item, inv.currency);
+      const account = accountCode(lineCategory(inv, item), ledger) || XERO_DEFAULT_ACCOUNT_CODE;
+      rows.push([
+        inv.supplier_name, "", "", "", "", "", "", "", "", "",
+        inv.invoice_number, date, dueDate,
+        "", item.description, quantity, formatAmount(unitAmount, inv.currency), account, taxType, taxAmount,
+        "", "", "", "", inv.currency,
+      ]);
+    });
+  }
+
+  return toCsv(rows);
+};
+
+// --- JSON ---
+
+const invoicesJson = (invoices: InvoiceData[], issuesById: IssuesById, fx: FxSettings, ledger: LedgerSettings): string =>
+  JSON.stringify(
+    {
+      exported_at: new Date().toISOString(),
+      base_currency: fx.base_currency,
+      invoices: invoices.map(inv => ({
+        ...inv,
+        account_code: accountFor(inv.category, ledger)?.code ?? null,
+        line_items: inv.line_items.map(item => ({ ...item, account_code: accountFor(lineCategory(inv, item), ledger)?.code ?? null })),
+        base_currency_amounts: convertInvoice(inv, fx),
+        validation_issues: issuesById[inv.id] ?? [],
+      })),
+    },
+    null,
+    2,
+  );
+
+export const exportInvoices = (
+  format: InvoiceExportFormat,
+  invoices: InvoiceData[],
+  issuesById: IssuesById,
+  fx: FxSettings,
+  ledger: LedgerSettings,
+): ExportFile => {
+  switch (format) {
+    case "csv":
+      return { content: invoicesCsv(invoices, issuesById, fx, ledger), fileName: "extracted_invoices.csv", mimeType: "text/csv;charset=utf-8" };
+    case "line_items_csv":
+      return { content: lineItemsCsv(invoices, issuesById, fx, ledger), fileName: "invoice_line_items.csv", mimeType: "text/csv;charset=utf-8" };
+    case "quickbooks_iif":
+      return { content: quickbooksIif(invoices, ledger), fileName: "invoices.iif", mimeType: "text/plain;charset=utf-8" };
+    case "xero_csv":
+      return { content: xeroCsv(invoices, ledger), fileName: "xero_bills.csv", mimeType: "text/csv;charset=utf-8" };
+    case "json":
+      return { content: invoicesJson(invoices, issuesById, fx, ledger), fileName: "invoices.json", mimeType: "application/json" };
+  }
+};
@@ -0,0 +1,66 @@
+import { InvoiceData, InvoiceDocumentType } from "../types";
+
+// Invoice-like documents differ in how their amounts count: credit notes are
+// stored negative so every sum nets them off, whatever sign they were printed
+// with, and pro formas are kept out of tax and spending figures.
+
+export const INVOICE_DOCUMENT_TYPES: { id: InvoiceDocumentType; label: string }[] = [
+  { id: "invoice", label: "Invoice" },
+  { id: "credit_note", label: "Credit note" },
+  { id: "receipt", label: "Receipt" },
+  { id: "pro_forma", label: "Pro forma" },
+];
+
+export const documentTypeLabel = (type: InvoiceDocumentType): string =>
+  INVOICE_DOCUMENT_TYPES.find(t => t.id === type)?.label ?? type;
+
+export const isInvoiceDocumentType = (value: unknown): value is InvoiceDocumentType =>
+  INVOICE_DOCUMENT_TYPES.some(t => t.id === value);
+
+// Pro formas ask for payment up front; the real invoice that follows is the one to count
+export const countsTowardsTotals = (invoice: Pick<InvoiceData, "document_type">): boolean =>
+  invoice.document_type !== "pro_forma";
+
+type SignedAmounts = Pick<
+  InvoiceData,
+  "total_amount" | "tax_amount" | "net_amount" | "tax_lines" | "line_items" | "amount_paid" | "balance_due"
+>;
+
+const mapAmounts = <T extends Partial<SignedAmounts>>(data: T, fn: (n: number) => number): T => {
+  const map = (n: number | null | undefined) => (n === null || n === undefined ? n : fn(n));
+  return {
+    ...data,
+    total_amount: map(data.total_amount),
+    tax_amount: map(data.tax_amount),
+    net_amount: map(data.net_amount),
+    amount_paid: map(data.amount_paid),
+    balance_due: map(data.balance_due),
+    tax_lines: data.tax_lines?.map(line => ({ ...line, taxable_base: map(line.taxable_base) ?? null, tax_amount: fn(line.tax_amount) })),
+    line_items: data.line_items?.map(item => ({ ...item, line_total: fn(item.line_total), unit_price: fn(item.unit_price) })),
+  };
+};
+
+const negative = (n: number) => -Math.abs(n);
+
+// Credit notes print their amounts either way round; makes them all negative.
+// Unit prices follow so quantity × price still gives the line total.
+export const withDocumentSign = <T extends Partial<InvoiceData>>(data: T): T => {
+  if (data.document_type !== "credit_note") return data;
+  const signed = mapAmounts(data, negative);
+  return {
+    ...signed,
+    line_items: signed.line_items?.map(item => ({
+      ...item,
+      unit_price: item.quantity < 0 ? Math.abs(item.unit_price) : negative(item.unit_price),
+    })),
+  };
+};
+
+// Switching to or from a credit note flips every amount, so an edited
+// document type never leaves the totals with the wrong sign
+export const setDocumentType = (invoice: InvoiceData, document_type: InvoiceDocumentType): InvoiceData => {
+  const wasCredit = invoice.document_type === "credit_note";
+  const isCredit = document_type === "credit_note";
+  const updated = { ...invoice, document_type };
+  return wasCredit === isCredit ? updated : mapAmounts(updated, n => -n);
+};
@@ -0,0 +1,268 @@
+import { InvoiceData, ValidationIssue, TaxRateBand } from "../types";
+import { isValidIban } from "./bankDetails";
+
+export interface ValidationOptions {
+  tax_rate_bands: TaxRateBand[];
+  today?: Date; // Injectable for deterministic checks
+}
+
+// Amounts on invoices are rounded per line, so allow a cent per line of drift
+const AMOUNT_TOLERANCE = 0.01;
+// Rates computed from rounded amounts are only approximately right
+const RATE_TOLERANCE = 0.5;
+
+const amountsMatch = (a: number, b: number, lines = 1) =>
+  Math.abs(a - b) <= AMOUNT_TOLERANCE * Math.max(lines, 1) + 1e-9;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Returns null when the string is not a real calendar date in YYYY-MM-DD form
+export const parseInvoiceDate = (value: string): Date | null => {
+  const match = ISO_DATE.exec(value.trim());
+  if (!match) return null;
+  const [, y, m, d] = match.map(Number);
+  const date = new Date(y, m - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return date;
+};
+
+// Country-specific formats, keyed by prefix; anything else gets a generic check
+const TAX_ID_FORMATS: { pattern: RegExp; name: string }[] = [
+  { pattern: /^GB(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/, name: "UK VAT" },
+  { pattern: /^DE\d{9}$/, name: "German VAT" },
+  { pattern: /^FR[0-9A-HJ-NP-Z]{2}\d{9}$/, name: "French VAT" },
+  { pattern: /^NL\d{9}B\d{2}$/, name: "Dutch VAT" },
+  { pattern: /^IT\d{11}$/, name: "Italian VAT" },
+  { pattern: /^ES[0-9A-Z]\d{7}[0-9A-Z]$/, name: "Spanish VAT" },
+  { pattern: /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, name: "Indian GSTIN" },
+  { pattern: /^\d{2}-\d{7}$/, name: "US EIN" },
+];
+
+const TAX_ID_PREFIXES: Record<string, string> = {
+  GB: "UK VAT", DE: "German VAT", FR: "French VAT", NL: "Dutch VAT", IT: "Italian VAT", ES: "Spanish VAT",
+};
+
+export const isPlausibleTaxId = (raw: string): boolean => {
+  const value = raw.toUpperCase().replace(/[\s.]/g, "");
+  if (TAX_ID_FORMATS.some(({ pattern }) => pattern.test(value))) return true;
+
+  // A known VAT prefix must match its country format exactly
+  if (TAX_ID_PREFIXES[value.slice(0, 2)]) return false;
+
+  const compact = value.replace(/[-/]/g, "");
+  return /^[A-Z0-9]{5,20}$/.test(compact) && /\d{4,}/.test(compact);
+};
+
+export const validateInvoice = (invoice: InvoiceData, options: ValidationOptions): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const { total_amount, tax_amount, line_items } = invoice;
+  const isCredit = invoice.document_type === "credit_note";
+
+  // Credit notes are stored negative; anything else should be positive
+  if (total_amount === null) {
+    issues.push({ code: "missing_total", severity: "error", field: "total_amount", message: "Total amount is missing" });
+  } else if (isCredit && total_amount > 0) {
+    issues.push({ code: "credit_note_sign", severity: "error", field: "total_amount", message: `Credit note total is positive (${total_amount.toFixed(2)})` });
+  } else if (!isCredit && total_amount < 0) {
+    issues.push({ code: "negative_total", severity: "error", field: "total_amount", message: `Total amount is negative (${total_amount.toFixed(2)})` });
+  }
+
+  if (tax_amount !== null && isCredit && tax_amount > 0) {
+    issues.push({ code: "credit_note_sign", severity: "error", field: "tax_amount", message: `Credit note tax is positive (${tax_amount.toFixed(2)})` });
+  } else if (tax_amount !== null && !isCredit && tax_amount < 0) {
+    issues.push({ code: "negative_total", severity: "error", field: "tax_amount", message: `Tax amount is negative (${tax_amount.toFixed(2)})` });
+  }
+
+  if (!invoice.invoice_number?.trim()) {
+    issues.push({ code: "missing_invoice_number", severity: "warning", field: "invoice_number", message: "Invoice number is missing" });
+  }
+
+  if (isCredit && !invoice.original_invoice_number?.trim()) {
+    issues.push({
+      code: "missing_original_invoice",
+      severity: "warning",
+      field: "original_invoice_number",
+      message: "Credit note does not say which invoice it corrects",
+    });
+  }
+
+  line_items.forEach((item, index) => {
+    if (item.quantity == null || item.unit_price == null) return;
+    const expected = item.quantity * item.unit_price;
+    if (!amountsMatch(expected, item.line_total)) {
+      issues.push({
+        code: "line_total_mismatch",
+        severity: "warning",
+        field: "line_items",
+        line_index: index,
+        message: `Line ${index + 1}: ${item.quantity} × ${item.unit_price.toFixed(2)} = ${expected.toFixed(2)}, not ${item.line_total.toFixed(2)}`,
+      });
+    }
+  });
+
+  // Line items may be listed net or gross of tax; unless the invoice says which, accept either total
+  if (line_items.length > 0 && total_amount !== null) {
+    const sum = line_items.reduce((acc, item) => acc + (item.line_total ?? 0), 0);
+    const net = total_amount - (tax_amount ?? 0);
+    const matchesNet = invoice.prices_include_tax !== true && amountsMatch(sum, net, line_items.length);
+    const matchesGross = invoice.prices_include_tax !== false && amountsMatch(sum, total_amount, line_items.length);
+    if (!matchesNet && !matchesGross) {
+      issues.push({
+        code: "line_items_sum_mismatch",
+        severity: "error",
+        field: "line_items",
+        message: invoice.prices_include_tax
+          ? `Line items sum to ${sum.toFixed(2)} but the invoice total is ${total_amount.toFixed(2)}`
+          : `Line items sum to ${sum.toFixed(2)} but the invoice net total is ${net.toFixed(2)}`,
+      });
+    }
+  }
+
+  if (invoice.net_amount !== null && total_amount !== null && tax_amount !== null
+      && !amountsMatch(invoice.net_amount + tax_amount, total_amount)) {
+    issues.push({
+      code: "net_total_mismatch",
+      severity: "error",
+      field: "net_amount",
+      message: `Net ${invoice.net_amount.toFixed(2)} + tax ${tax_amount.toFixed(2)} does not equal the total ${total_amount.toFixed(2)}`,
+    });
+  }
+
+  const { tax_lines } = invoice;
+  if (tax_lines.length > 0) {
+    const taxSum = tax_lines.reduce((acc, line) => acc + line.tax_amount, 0);
+    if (tax_amount !== null && !amountsMatch(taxSum, tax_amount, tax_lines.length)) {
+      issues.push({
+        code: "tax_breakdown_mismatch",
+        severity: "warning",
+        field: "tax_lines",
+        message: `Tax summary adds up to ${taxSum.toFixed(2)} but the tax total is ${tax_amount.toFixed(2)}`,
+      });
+    }
+    tax_lines.forEach(line => {
+      if (line.rate === null || line.taxable_base === null) return;
+      const expected = (line.taxable_base * line.rate) / 100;
+      if (!amountsMatch(expected, line.tax_amount)) {
+        issues.push({
+          code: "tax_breakdown_mismatch",
+          severity: "warning",
+          field: "tax_lines",
+          message: `${line.rate}% of ${line.taxable_base.toFixed(2)} is ${expected.toFixed(2)}, not ${line.tax_amount.toFixed(2)}`,
+        });
+      }
+    });
+  }
+
+  if (invoice.reverse_charge && tax_amount !== null && tax_amount !== 0) {
+    issues.push({
+      code: "reverse_charge_with_tax",
+      severity: "warning",
+      field: "tax_amount",
+      message: `Reverse-charge invoice still charges ${Math.abs(tax_amount).toFixed(2)} tax`,
+    });
+  }
+
+  // Printed rates are checked individually; otherwise the effective rate is
+  // derived from the totals, which only works for single-rate invoices
+  const printedRates = tax_lines.map(line => line.rate).filter((rate): rate is number => rate !== null);
+  const inAnyBand = (rate: number) => options.tax_rate_bands.some(
+    band => rate >= band.min - RATE_TOLERANCE && rate <= band.max + RATE_TOLERANCE,
+  );
+  if (!invoice.reverse_charge && printedRates.length > 0 && options.tax_rate_bands.length > 0) {
+    printedRates.filter(rate => !inAnyBand(rate)).forEach(rate => {
+      issues.push({
+        code: "tax_rate_out_of_band",
+        severity: "warning",
+        field: "tax_lines",
+        message: `Tax rate ${rate}% is outside the configured bands`,
+      });
+    });
+  } else if (!invoice.reverse_charge && total_amount !== null && tax_amount !== null && options.tax_rate_bands.length > 0) {
+    const net = total_amount - tax_amount;
+    // A credit note's net and tax are both negative, which gives the same rate
+    if (net !== 0 && Math.sign(net) !== -Math.sign(tax_amount)) {
+      const rate = (tax_amount / net) * 100;
+      if (!inAnyBand(rate)) {
+        issues.push({
+          code: "tax_rate_out_of_band",
+          severity: "warning",
+          field: "tax_amount",
+          message: `Effective tax rate ${rate.toFixed(1)}% is outside the configured bands`,
+        });
+      }
+    }
+  }
+
+  if (invoice.invoice_date) {
+    const date = parseInvoiceDate(invoice.invoice_date);
+    if (!date) {
+      issues.push({
+        code: "unparseable_invoice_date",
+        severity: "error",
+        field: "invoice_date",
+        message: `Invoice date "${invoice.invoice_date}" is not a valid YYYY-MM-DD date`,
+      });
+    } else if (date > (options.today ?? new Date())) {
+      issues.push({
+        code: "future_invoice_date",
+        severity: "warning",
+        field: "invoice_date",
+        message: `Invoice date ${invoice.invoice_date} is in the future`,
+      });
+    }
+  }
+
+  if (invoice.due_date) {
+    const due = parseInvoiceDate(invoice.due_date);
+    const issued = invoice.invoice_date ? parseInvoiceDate(invoice.invoice_date) : null;
+    if (!due) {
+      issues.push({
+        code: "unparseable_due_date",
+        severity: "warning",
+        field: "due_date",
+        message: `Due date "${invoice.due_date}" is not a valid YYYY-MM-DD date`,
+      });
+    } else if (issued && due < issued) {
+      issues.push({
+        code: "due_before_invoice_date",
+        severity: "warning",
+        field: "due_date",
+        message: `Due date ${invoice.due_date} is before the invoice date ${invoice.invoice_date}`,
+      });
+    }
+  }
+
+  if (total_amount !== null && invoice.balance_due !== null && invoice.amount_paid !== null
+      && !amountsMatch(total_amount - invoice.amount_paid, invoice.balance_due)) {
+    issues.push({
+      code: "balance_mismatch",
+      severity: "warning",
+      field: "balance_due",
+      message: `Total ${total_amount.toFixed(2)} less ${invoice.amount_paid.toFixed(2)} paid leaves ${(total_amount - invoice.amount_paid).toFixed(2)}, not the ${invoice.balance_due.toFixed(2)} balance due`,
+    });
+  }
+
+  if (invoice.supplier_bank?.iban && !isValidIban(invoice.supplier_bank.iban)) {
+    issues.push({
+      code: "invalid_iban",
+      severity: "error",
+      field: "supplier_bank",
+      message: `IBAN "${invoice.supplier_bank.iban}" fails its checksum; check it before paying`,
+    });
+  }
+
+  if (invoice.supplier_tax_id && !isPlausibleTaxId(invoice.supplier_tax_id)) {
+    issues.push({
+      code: "malformed_tax_id",
+      severity: "warning",
+      field: "supplier_tax_id",
+      message: `Supplier tax ID "${invoice.supplier_tax_id}" does not match a known format`,
+    });
+  }
+
+  return issues;
+};
+
+// One-line summary for exports and tooltips
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map(issue => `${issue.severity.toUpperCase()}: ${issue.message}`).join(" | ");
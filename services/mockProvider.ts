@@ -0,0 +1,336 @@
+import {
+  InvoiceData, BusinessCardData, InvoiceField, BusinessCardField, FieldSource,
+  CustomFieldDefinition, CustomFieldValue, CustomScalarValue, DocumentTypeDefinition, DocumentClassification,
+} from "../types";
+import { ExtractionProvider } from "./extractionService";
+import { hashFile } from "./fileHash";
+import { InvoiceSegment, mergeInvoiceSegments } from "./documentSplitting";
+import { CategorySuggestionRequest } from "./categorization";
+
+// Offline provider for demos, local development and tests. Every file maps to
+// the same canned result on every run: either a fixture registered for its
+// SHA-256 hash, or one of the samples below picked from the hash.
+
+const invoiceFixtures = new Map<string, Partial<InvoiceData>>();
+const invoiceDocumentFixtures = new Map<string, InvoiceSegment[]>();
+const businessCardFixtures = new Map<string, Partial<BusinessCardData>>();
+const classificationFixtures = new Map<string, DocumentClassification>();
+
+export const registerInvoiceFixture = (fileHash: string, data: Partial<InvoiceData>) => {
+  invoiceFixtures.set(fileHash, data);
+};
+
+// Page segments for a multi-invoice document, merged the same way as model output
+export const registerInvoiceDocumentFixture = (fileHash: string, segments: InvoiceSegment[]) => {
+  invoiceDocumentFixtures.set(fileHash, segments);
+};
+
+export const registerBusinessCardFixture = (fileHash: string, data: Partial<BusinessCardData>) => {
+  businessCardFixtures.set(fileHash, data);
+};
+
+export const registerClassificationFixture = (fileHash: string, classification: DocumentClassification) => {
+  classificationFixtures.set(fileHash, classification);
+};
+
+export const clearFixtures = () => {
+  classificationFixtures.clear();
+  invoiceFixtures.clear();
+  invoiceDocumentFixtures.clear();
+  businessCardFixtures.clear();
+};
+
+const SAMPLE_INVOICES: Partial<InvoiceData>[] = [
+  {
+    document_type: "invoice",
+    invoice_number: "INV-2024-0117",
+    invoice_date: "2024-03-14",
+    supplier_name: "Acme Office Supplies Ltd",
+    supplier_tax_id: "GB123456789",
+    total_amount: 150.0,
+    currency: "GBP",
+    tax_amount: 25.0,
+    net_amount: 125.0,
+    tax_lines: [{ tax_type: "vat", rate: 20, taxable_base: 125.0, tax_amount: 25.0 }],
+    prices_include_tax: false,
+    reverse_charge: false,
+    line_items: [
+      { description: "A4 copier paper (box of 5 reams)", quantity: 3, unit_price: 25.0, line_total: 75.0 },
+      { description: "Black toner cartridge", quantity: 1, unit_price: 50.0, line_total: 50.0 },
+    ],
+    due_date: "2024-04-13",
+    payment_terms: "30 days net",
+    payment_method: "Bank transfer",
+    amount_paid: null,
+    balance_due: 150.0,
+    supplier_bank: { bank_name: "Barclays", iban: "GB33BUKB20201555555555", bic: "BUKBGB22", account_number: null, routing_code: null },
+  },
+  {
+    document_type: "invoice",
+    invoice_number: "2024/883",
+    invoice_date: "2024-05-02",
+    supplier_name: "Nordlicht Software GmbH",
+    supplier_tax_id: "DE811907980",
+    total_amount: 357.0,
+    currency: "EUR",
+    tax_amount: 57.0,
+    net_amount: 300.0,
+    tax_lines: [{ tax_type: "vat", rate: 19, taxable_base: 300.0, tax_amount: 57.0 }],
+    prices_include_tax: false,
+    reverse_charge: false,
+    line_items: [
+      { description: "Annual licence - Team plan", quantity: 1, unit_price: 300.0, line_total: 300.0 },
+    ],
+    due_date: null,
+    payment_terms: "Zahlbar innerhalb von 14 Tagen ohne Abzug",
+    payment_method: "Bank transfer",
+    amount_paid: null,
+    balance_due: null,
+    supplier_bank: { bank_name: "Commerzbank", iban: "DE89370400440532013000", bic: "COBADEFFXXX", account_number: null, routing_code: null },
+  },
+  {
+    document_type: "invoice",
+    invoice_number: "C-55102",
+    invoice_date: "2024-06-21",
+    supplier_name: "Bayside Catering Co.",
+    supplier_tax_id: null,
+    total_amount: 412.5,
+    currency: "USD",
+    tax_amount: 37.5,
+    net_amount: 375.0,
+    tax_lines: [{ tax_type: "sales_tax", rate: 10, taxable_base: 375.0, tax_amount: 37.5 }],
+    prices_include_tax: false,
+    reverse_charge: false,
+    line_items: [
+      { description: "Lunch buffet (per head)", quantity: 25, unit_price: 12.0, line_total: 300.0 },
+      { description: "Coffee service", quantity: 1, unit_price: 75.0, line_total: 75.0 },
+    ],
+    due_date: "2024-06-21",
+    payment_terms: "50% deposit, balance due on delivery",
+    payment_method: "ACH",
+    amount_paid: 206.25,
+    balance_due: 206.25,
+    supplier_bank: { bank_name: "First Bay Bank", iban: null, bic: null, account_number: "000123456789", routing_code: "121000358" },
+  },
+  {
+    document_type: "credit_note",
+    invoice_number: "CN-2024-0009",
+    original_invoice_number: "INV-2024-0117",
+    invoice_date: "2024-03-28",
+    supplier_name: "Acme Office Supplies Ltd",
+    supplier_tax_id: "GB123456789",
+    total_amount: 60.0,
+    currency: "GBP",
+    tax_amount: 10.0,
+    net_amount: 50.0,
+    tax_lines: [{ tax_type: "vat", rate: 20, taxable_base: 50.0, tax_amount: 10.0 }],
+    prices_include_tax: false,
+    reverse_charge: false,
+    line_items: [
+      { description: "Black toner cartridge - returned damaged", quantity: 1, unit_price: 50.0, line_total: 50.0 },
+    ],
+    due_date: null,
+    payment_terms: "Credit will be offset against your next invoice",
+    payment_method: null,
+    amount_paid: null,
+    balance_due: null,
+    supplier_bank: null,
+  },
+];
+
+const SAMPLE_BUSINESS_CARDS: Partial<BusinessCardData>[] = [
+  {
+    full_name: "Maria Jensen",
+    company: "Acme Office Supplies Ltd",
+    job_title: "Account Manager",
+    emails: [{ type: "work", address: "maria.jensen@acme-supplies.example" }],
+    phones: [
+      { type: "work", number: "+44 20 7946 0958", e164: null },
+      { type: "mobile", number: "+44 7700 900123", e164: null },
+    ],
+    website: "https://acme-supplies.example",
+    social_profiles: [{ network: "linkedin", url: "https://www.linkedin.com/in/maria-jensen-example" }],
+    address: { street: "12 Harbour Street", city: "London", region: null, postal_code: "E1 6AN", country: "United Kingdom" },
+  },
+  {
+    full_name: "Kenji Watanabe",
+    company: "Nordlicht Software GmbH",
+    job_title: "Head of Partnerships",
+    emails: [
+      { type: "work", address: "k.watanabe@nordlicht.example" },
+      { type: "work", address: "partners@nordlicht.example" },
+    ],
+    phones: [
+      { type: "work", number: "+49 30 901820", e164: null },
+      { type: "fax", number: "+49 30 901829", e164: null },
+    ],
+    website: "https://nordlicht.example",
+    social_profiles: [],
+    address: { street: "Friedrichstr. 68", city: "Berlin", region: null, postal_code: "10117", country: "Germany" },
+  },
+  {
+    full_name: "Priya Raman",
+    company: "Bayside Catering Co.",
+    job_title: "Founder",
+    emails: [{ type: "work", address: "priya@bayside-catering.example" }],
+    phones: [{ type: "mobile", number: "(415) 555-0142", e164: null }],
+    website: null,
+    social_profiles: [
+      { network: "instagram", url: "@baysidecatering" },
+      { network: "x", url: "x.com/baysidecater" },
+    ],
+    address: { street: "500 Embarcadero", city: "San Francisco", region: "CA", postal_code: "94111", country: null },
+  },
+];
+
+// Where each field typically sits on the page, in the model's 0-1000 box coordinates
+const INVOICE_LAYOUT: Record<InvoiceField, FieldSource["box"]> = {
+  supplier_name: [40, 60, 90, 500],
+  supplier_tax_id: [95, 60, 125, 400],
+  invoice_number: [60, 650, 90, 940],
+  invoice_date: [95, 650, 125, 940],
+  line_items: [300, 60, 650, 940],
+  net_amount: [665, 650, 695, 940],
+  tax_lines: [665, 60, 730, 600],
+  tax_amount: [700, 650, 730, 940],
+  currency: [740, 560, 780, 640],
+  total_amount: [740, 650, 780, 940],
+  document_type: [20, 650, 55, 940],
+  original_invoice_number: [130, 650, 160, 940],
+  due_date: [165, 650, 195, 940],
+  payment_terms: [790, 60, 820, 600],
+  payment_method: [825, 60, 855, 600],
+  amount_paid: [790, 650, 820, 940],
+  balance_due: [825, 650, 860, 940],
+  supplier_bank: [880, 60, 950, 700],
+};
+
+const BUSINESS_CARD_LAYOUT: Record<BusinessCardField, FieldSource["box"]> = {
+  full_name: [120, 80, 220, 600],
+  job_title: [230, 80, 290, 600],
+  company: [400, 80, 480, 700],
+  phones: [560, 80, 680, 500],
+  emails: [690, 80, 750, 700],
+  website: [760, 80, 800, 600],
+  social_profiles: [560, 550, 680, 940],
+  address: [830, 80, 920, 900],
+};
+
+// Samples flag one field as uncertain so low-confidence highlighting can be demoed
+const LOW_CONFIDENCE_FIELDS = ["supplier_tax_id", "tax_amount", "invoice_date", "due_date", "phones", "address", "job_title"];
+
+const withSources = <F extends string, T extends Partial<Record<F, unknown>>>(
+  data: T,
+  layout: Record<F, FieldSource["box"]>,
+  fileHash: string,
+): T & { field_sources: Partial<Record<F, FieldSource>> } => {
+  const uncertain = pickSample(LOW_CONFIDENCE_FIELDS, fileHash.slice(8));
+  const field_sources: Partial<Record<F, FieldSource>> = {};
+  for (const field of Object.keys(layout) as F[]) {
+    if (data[field] == null) continue;
+    field_sources[field] = { confidence: field === uncertain ? 0.55 : 0.97, page: 1, box: layout[field] };
+  }
+  return { ...data, field_sources };
+};
+
+// Picks a sample deterministically from the leading bits of the file hash
+const pickSample = <T>(samples: T[], fileHash: string): T =>
+  samples[parseInt(fileHash.slice(0, 8), 16) % samples.length];
+
+// Deep copy so callers can mutate results without touching the fixtures
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Without a fixture the file name decides, so demos can exercise every route
+const CLASSIFICATION_HINTS: [RegExp, DocumentClassification][] = [
+  [/credit|gutschrift|avoir/i, { document_class: "credit_note", confidence: 0.93, reason: "Titled as a credit note" }],
+  [/receipt|ticket/i, { document_class: "receipt", confidence: 0.9, reason: "Looks like a till receipt" }],
+  [/card|contact/i, { document_class: "business_card", confidence: 0.95, reason: "A name, title and contact details on a card" }],
+  [/scan|photo|img/i, { document_class: "invoice", confidence: 0.5, reason: "Has amounts, but the layout is unclear" }],
+  [/letter|contract|statement|quote/i, { document_class: "other", confidence: 0.88, reason: "Correspondence rather than a bill or card" }],
+];
+
+const classifyDocument = async (file: File, signal?: AbortSignal): Promise<DocumentClassification> => {
+  const fileHash = await hashFile(file);
+  signal?.throwIfAborted();
+  const hint = CLASSIFICATION_HINTS.find(([pattern]) => pattern.test(file.name))?.[1];
+  return clone(classificationFixtures.get(fileHash) ?? hint ?? { document_class: "invoice", confidence: 0.97, reason: "Supplier details, totals and an invoice number" });
+};
+
+const extractInvoiceData = async (file: File, signal?: AbortSignal): Promise<Partial<InvoiceData>> => {
+  const fileHash = await hashFile(file);
+  signal?.throwIfAborted();
+  return clone(invoiceFixtures.get(fileHash) ?? withSources(pickSample(SAMPLE_INVOICES, fileHash), INVOICE_LAYOUT, fileHash));
+};
+
+// Without a document fixture, every file is a single one-page invoice
+const extractInvoiceDocuments = async (file: File, signal?: AbortSignal): Promise<Partial<InvoiceData>[]> => {
+  const fileHash = await hashFile(file);
+  signal?.throwIfAborted();
+  const segments = invoiceDocumentFixtures.get(fileHash);
+  if (segments) return mergeInvoiceSegments(clone(segments));
+  return [{ ...(await extractInvoiceData(file, signal)), page_range: { start: 1, end: 1 } }];
+};
+
+const extractBusinessCardData = async (file: File, signal?: AbortSignal): Promise<Partial<BusinessCardData>> => {
+  const fileHash = await hashFile(file);
+  signal?.throwIfAborted();
+  return clone(businessCardFixtures.get(fileHash) ?? withSources(pickSample(SAMPLE_BUSINESS_CARDS, fileHash), BUSINESS_CARD_LAYOUT, fileHash));
+};
+
+// Placeholder values derived from the field definitions, so any document type can be demoed
+const placeholderValue = (field: CustomFieldDefinition, fileHash: string): CustomScalarValue => {
+  const n = parseInt(fileHash.slice(0, 4), 16);
+  switch (field.type) {
+    case "number":
+      return Math.round(n / 10) / 10 + 10;
+    case "integer":
+      return (n % 20) + 1;
+    case "boolean":
+      return n % 2 === 0;
+    case "date":
+      return `2024-${String((n % 12) + 1).padStart(2, "0")}-${String((n % 28) + 1).padStart(2, "0")}`;
+    default:
+      return `${field.label} ${fileHash.slice(0, 6).toUpperCase()}`;
+  }
+};
+
+const extractCustomDocument = async (
+  file: File,
+  definition: DocumentTypeDefinition,
+  signal?: AbortSignal,
+): Promise<Record<string, CustomFieldValue>> => {
+  const fileHash = await hashFile(file);
+  signal?.throwIfAborted();
+  const values: Record<string, CustomFieldValue> = {};
+  definition.fields.forEach((field, idx) => {
+    const seed = fileHash.slice(idx * 2);
+    values[field.key] = field.type === "array"
+      ? [0, 1].map(row => Object.fromEntries(field.fields.map((item, i) => [item.key, placeholderValue(item, seed.slice(row + i))])))
+      : placeholderValue(field, seed);
+  });
+  return values;
+};
+
+// Picks the first category whose name shares a word with the description
+const suggestCategories = async (
+  lines: CategorySuggestionRequest[],
+  categories: string[],
+  signal?: AbortSignal,
+): Promise<(string | null)[]> => {
+  signal?.throwIfAborted();
+  const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2);
+  return lines.map(line => {
+    const described = new Set(words(line.description));
+    return categories.find(category => words(category).some(word => described.has(word))) ?? null;
+  });
+};
+
+export const mockProvider: ExtractionProvider = {
+  name: "mock",
+  classifyDocument,
+  extractInvoiceData,
+  extractInvoiceDocuments,
+  extractBusinessCardData,
+  extractCustomDocument,
+  suggestCategories,
+};
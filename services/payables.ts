@@ -0,0 +1,338 @@
+import { InvoiceData, PayableStatus, Supplier } from "../types";
+import { toCsv } from "./csv";
+import { formatAmount, roundMoney } from "./currency";
+import { convertInvoice, FxSettings } from "./fxRates";
+import { parseInvoiceDate } from "./invoiceValidation";
+import { countsTowardsTotals, documentTypeLabel } from "./invoiceTypes";
+import { formatIban, isValidIban } from "./bankDetails";
+import { supplierKey, supplierLabel } from "./spendAnalytics";
+
+// Accounts payable: what is still owed on each invoice, when it falls due,
+// how overdue the open balance is per supplier, and which invoices go into
+// this week's payment run. Credit notes count as negative balances, so they
+// reduce what their supplier is owed. Pro formas are left out, as in every
+// other report: the invoice that follows one is the bill that gets aged and paid.
+
+export const PAYABLE_STATUSES: { id: PayableStatus; label: string }[] = [
+  { id: "unpaid", label: "Unpaid" },
+  { id: "scheduled", label: "Scheduled" },
+  { id: "paid", label: "Paid" },
+  { id: "disputed", label: "Disputed" },
+];
+
+export const payableStatusLabel = (status: PayableStatus): string =>
+  PAYABLE_STATUSES.find(s => s.id === status)?.label ?? status;
+
+// Receipts are proof of payment, and a printed zero balance means it was settled up front
+export const initialPayableStatus = (invoice: Pick<InvoiceData, "document_type" | "balance_due">): PayableStatus =>
+  invoice.document_type === "receipt" || invoice.balance_due === 0 ? "paid" : "unpaid";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Rounded so a daylight-saving change doesn't cost a day
+const daysBetween = (from: Date, to: Date): number => Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+export interface PaymentTerms {
+  days: number;
+  end_of_month: boolean; // Counted from the end of the invoice month, as in "30 days EOM"
+}
+
+// Reads the common ways terms are printed: "Net 30", "30 days", "2/10 net 30",
+// "Net 60 EOM", "Due on receipt". Anything else gives null.
+export const parsePaymentTerms = (terms: string | null | undefined): PaymentTerms | null => {
+  const text = (terms ?? "").toLowerCase();
+  if (!text.trim()) return null;
+  const end_of_month = /\beom\b|end of (the )?month/.test(text);
+  // The net period wins over an early-payment discount window
+  const match = /\bnet\s*(\d{1,3})\b/.exec(text) ?? /\b(\d{1,3})\s*(days?|d)\b/.exec(text);
+  if (match) return { days: Number(match[1]), end_of_month };
+  if (/\b(due )?(on|upon) receipt\b|\bimmediate(ly)?\b|\bcash on delivery\b|\bcod\b/.test(text)) return { days: 0, end_of_month: false };
+  if (end_of_month) return { days: 0, end_of_month };
+  return null;
+};
+
+export const addPaymentTerms = (invoiceDate: string, terms: PaymentTerms): string | null => {
+  const date = parseInvoiceDate(invoiceDate);
+  if (!date) return null;
+  const start = terms.end_of_month ? new Date(date.getFullYear(), date.getMonth() + 1, 0) : date;
+  return toIsoDate(new Date(start.getFullYear(), start.getMonth(), start.getDate() + terms.days));
+};
+
+// The printed due date, or one worked out from the invoice date and terms
+export const dueDateFor = (invoice: InvoiceData): { date: string; derived: boolean } | null => {
+  if (invoice.due_date && parseInvoiceDate(invoice.due_date)) return { date: invoice.due_date, derived: false };
+  const terms = parsePaymentTerms(invoice.payment_terms);
+  const derived = terms && invoice.invoice_date ? addPaymentTerms(invoice.invoice_date, terms) : null;
+  return derived ? { date: derived, derived: true } : null;
+};
+
+// What is left to pay in the invoice currency; null when the total is unknown
+export const outstandingAmount = (invoice: InvoiceData): number | null => {
+  if (invoice.payable_status === "paid") return 0;
+  if (invoice.balance_due !== null) return invoice.balance_due;
+  if (invoice.total_amount === null) return null;
+  return roundMoney(invoice.total_amount - (invoice.amount_paid ?? 0), invoice.currency);
+};
+
+// Negative before the due date
+export const daysOverdue = (invoice: InvoiceData, today: Date): number | null => {
+  const due = dueDateFor(invoice);
+  const date = due ? parseInvoiceDate(due.date) : null;
+  return date ? daysBetween(date, today) : null;
+};
+
+// Marking an invoice paid keeps an earlier payment date, otherwise it is paid today
+export const setPayableStatus = (invoice: InvoiceData, payable_status: PayableStatus, today = new Date()): InvoiceData => ({
+  ...invoice,
+  payable_status,
+  payment_date: payable_status === "paid" ? invoice.payment_date ?? toIsoDate(today) : payable_status === "scheduled" ? invoice.payment_date : null,
+  payment_reference: payable_status === "paid" || payable_status === "scheduled" ? invoice.payment_reference : null,
+});
+
+// --- AGING ---
+
+export type AgingBucket = "current" | "0_30" | "31_60" | "61_90" | "90_plus";
+
+export const AGING_BUCKETS: { id: AgingBucket; label: string }[] = [
+  { id: "current", label: "Not yet due" },
+  { id: "0_30", label: "0-30 days" },
+  { id: "31_60", label: "31-60 days" },
+  { id: "61_90", label: "61-90 days" },
+  { id: "90_plus", label: "90+ days" },
+];
+
+export const agingBucket = (overdue: number): AgingBucket =>
+  overdue < 0 ? "current" : overdue <= 30 ? "0_30" : overdue <= 60 ? "31_60" : overdue <= 90 ? "61_90" : "90_plus";
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ current: 0, "0_30": 0, "31_60": 0, "61_90": 0, "90_plus": 0 });
+
+export interface AgingRow {
+  key: string; // From `supplierKey`
+  supplier: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  invoice_count: number;
+}
+
+export interface AgingReport {
+  as_of: string;
+  currency: string; // The base currency every amount is converted into
+  rows: AgingRow[];
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  excluded: { invoice: InvoiceData; reason: string }[];
+}
+
+export interface AgingOptions {
+  fx: FxSettings;
+  today?: Date;
+  approvedOnly?: boolean;
+}
+
+// Open balances by supplier and how far past due they are. Invoices without a
+// due date or terms are aged from their invoice date, as if due on receipt.
+// Pro formas are skipped so a bill isn't counted again when its invoice arrives.
+export const buildAgingReport = (invoices: InvoiceData[], suppliers: Supplier[], options: AgingOptions): AgingReport => {
+  const base = options.fx.base_currency;
+  const today = options.today ?? new Date();
+  const rows = new Map<string, AgingRow>();
+  const excluded: AgingReport["excluded"] = [];
+
+  for (const invoice of invoices) {
+    if (!countsTowardsTotals(invoice) || (options.approvedOnly && !invoice.review.approved)) continue;
+    const outstanding = outstandingAmount(invoice);
+    if (outstanding === 0) continue;
+    if (outstanding === null) {
+      excluded.push({ invoice, reason: "No total amount" });
+      continue;
+    }
+    const invoiceDate = invoice.invoice_date ? parseInvoiceDate(invoice.invoice_date) : null;
+    const overdue = daysOverdue(invoice, today) ?? (invoiceDate ? daysBetween(invoiceDate, today) : null);
+    if (overdue === null) {
+      excluded.push({ invoice, reason: "No due date or invoice date" });
+      continue;
+    }
+    const conversion = convertInvoice(invoice, options.fx);
+    if (!conversion) {
+      excluded.push({ invoice, reason: `No ${invoice.currency} → ${base} rate` });
+      continue;
+    }
+
+    const amount = roundMoney(outstanding * conversion.rate, base);
+    const key = supplierKey(invoice);
+    const row = rows.get(key) ?? { key, supplier: supplierLabel(invoice, suppliers), buckets: emptyBuckets(), total: 0, invoice_count: 0 };
+    row.buckets[agingBucket(overdue)] += amount;
+    row.total += amount;
+    row.invoice_count += 1;
+    rows.set(key, row);
+  }
+
+  const round = (amount: number) => roundMoney(amount, base);
+  const sorted = [...rows.values()]
+    .map(row => ({
+      ...row,
+      total: round(row.total),
+      buckets: Object.fromEntries(Object.entries(row.buckets).map(([k, v]) => [k, round(v)])) as Record<AgingBucket, number>,
+    }))
+    .sort((a, b) => b.total - a.total);
+  const buckets = emptyBuckets();
+  for (const row of sorted) AGING_BUCKETS.forEach(({ id }) => { buckets[id] = round(buckets[id] + row.buckets[id]); });
+
+  return {
+    as_of: toIsoDate(today),
+    currency: base,
+    rows: sorted,
+    buckets,
+    total: round(sorted.reduce((sum, row) => sum + row.total, 0)),
+    excluded,
+  };
+};
+
+export const agingReportCsv = (report: AgingReport): string =>
+  toCsv([
+    ["As Of", "Supplier", "Invoices", ...AGING_BUCKETS.map(b => b.label), "Total", "Currency"],
+    ...report.rows.map(row => [
+      report.as_of,
+      row.supplier,
+      row.invoice_count,
+      ...AGING_BUCKETS.map(b => formatAmount(row.buckets[b.id], report.currency)),
+      formatAmount(row.total, report.currency),
+      report.currency,
+    ]),
+    [
+      report.as_of, "Total", report.rows.reduce((sum, row) => sum + row.invoice_count, 0),
+      ...AGING_BUCKETS.map(b => formatAmount(report.buckets[b.id], report.currency)),
+      formatAmount(report.total, report.currency), report.currency,
+    ],
+  ]);
+
+// --- PAYMENT RUN ---
+
+export interface PaymentRunLine {
+  invoice: InvoiceData;
+  supplier: string;
+  due_date: string | null;
+  days_overdue: number | null;
+  amount: number; // Outstanding, in the invoice currency
+}
+
+export interface PaymentRun {
+  through: string; // Last day of the week the run covers
+  lines: PaymentRunLine[];
+  totals: { currency: string; amount: number }[];
+  held: { invoice: InvoiceData; reason: string }[]; // Would be due but can't be paid as they are
+  carried_credits: PaymentRunLine[]; // Credit notes worth more than what is left to pay their supplier
+}
+
+// Sunday, taking Monday as the first day of the week
+export const endOfWeek = (today: Date): Date => {
+  const daysLeft = (7 - today.getDay()) % 7;
+  return new Date(today.getFullYear(), today.getMonth(), today.getDate() + daysLeft);
+};
+
+// Everything due by the end of this week, including anything overdue, plus
+// invoices scheduled for this week. Pro formas are skipped so a bill can't be
+// paid twice once its invoice arrives. Credit notes from a supplier in the run
+// are deducted from what that supplier is paid, oldest first, as long as whole
+// notes fit; the rest are carried to a later run so no payment goes negative.
+export const buildPaymentRun = (invoices: InvoiceData[], suppliers: Supplier[], today = new Date()): PaymentRun => {
+  const through = toIsoDate(endOfWeek(today));
+  const lines: PaymentRunLine[] = [];
+  const credits: PaymentRunLine[] = [];
+  const held: PaymentRun["held"] = [];
+
+  for (const invoice of invoices) {
+    if (!countsTowardsTotals(invoice)) continue;
+    if (invoice.payable_status !== "unpaid" && invoice.payable_status !== "scheduled" && invoice.payable_status !== "disputed") continue;
+    const amount = outstandingAmount(invoice);
+    if (amount === null || amount === 0) continue;
+    const due = dueDateFor(invoice);
+    const line: PaymentRunLine = {
+      invoice,
+      supplier: supplierLabel(invoice, suppliers),
+      due_date: due?.date ?? null,
+      days_overdue: daysOverdue(invoice, today),
+      amount,
+    };
+    if (amount < 0) {
+      if (invoice.payable_status !== "disputed") credits.push(line);
+      continue;
+    }
+
+    const scheduledDate = invoice.payable_status === "scheduled" ? invoice.payment_date : null;
+    const payBy = scheduledDate ?? due?.date ?? null;
+    if (payBy !== null && payBy > through) continue;
+    if (invoice.payable_status === "disputed") {
+      held.push({ invoice, reason: "Disputed" });
+    } else if (payBy === null) {
+      held.push({ invoice, reason: "No due date; set one or the payment terms" });
+    } else if (!invoice.review.approved) {
+      held.push({ invoice, reason: "Not approved yet" });
+    } else if (invoice.supplier_bank?.iban && !isValidIban(invoice.supplier_bank.iban)) {
+      held.push({ invoice, reason: "IBAN fails its checksum" });
+    } else {
+      lines.push(line);
+    }
+  }
+
+  // Only credits in the same currency can be set against a supplier's payment
+  const payeeKey = (line: PaymentRunLine) => `${supplierKey(line.invoice)}|${line.invoice.currency}`;
+  const remaining = new Map<string, number>();
+  for (const line of lines) remaining.set(payeeKey(line), (remaining.get(payeeKey(line)) ?? 0) + line.amount);
+  const carried_credits: PaymentRunLine[] = [];
+  const oldestFirst = (a: PaymentRunLine, b: PaymentRunLine) =>
+    (a.due_date ?? a.invoice.invoice_date ?? "").localeCompare(b.due_date ?? b.invoice.invoice_date ?? "");
+  for (const credit of credits.filter(line => line.invoice.review.approved).sort(oldestFirst)) {
+    const left = remaining.get(payeeKey(credit));
+    if (left === undefined) continue;
+    if (-credit.amount <= left + 1e-9) {
+      lines.push(credit);
+      remaining.set(payeeKey(credit), roundMoney(left + credit.amount, credit.invoice.currency));
+    } else {
+      carried_credits.push(credit);
+    }
+  }
+  lines.sort((a, b) => a.supplier.localeCompare(b.supplier) || (a.due_date ?? "").localeCompare(b.due_date ?? ""));
+
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    const currency = line.invoice.currency ?? "";
+    totals.set(currency, roundMoney((totals.get(currency) ?? 0) + line.amount, currency));
+  }
+
+  return { through, lines, totals: [...totals].map(([currency, amount]) => ({ currency, amount })), held, carried_credits };
+};
+
+export const paymentRunCsv = (run: PaymentRun): string =>
+  toCsv([
+    [
+      "Pay By", "Supplier", "Invoice #", "Document Type", "Invoice Date", "Due Date", "Days Overdue", "Status", "Scheduled For",
+      "Amount", "Currency", "Payment Method", "Bank", "IBAN", "BIC", "Account #", "Routing Code", "Reference",
+    ],
+    ...run.lines.map(({ invoice, supplier, due_date, days_overdue, amount }) => [
+      run.through,
+      supplier,
+      invoice.invoice_number,
+      documentTypeLabel(invoice.document_type),
+      invoice.invoice_date,
+      due_date,
+      days_overdue !== null && days_overdue > 0 ? days_overdue : "",
+      payableStatusLabel(invoice.payable_status),
+      invoice.payable_status === "scheduled" ? invoice.payment_date : "",
+      formatAmount(amount, invoice.currency),
+      invoice.currency,
+      invoice.payment_method,
+      invoice.supplier_bank?.bank_name,
+      invoice.supplier_bank?.iban ? formatIban(invoice.supplier_bank.iban) : "",
+      invoice.supplier_bank?.bic,
+      invoice.supplier_bank?.account_number,
+      invoice.supplier_bank?.routing_code,
+      // What the supplier sees on their statement
+      invoice.invoice_number,
+    ]),
+  ]);
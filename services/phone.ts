@@ -0,0 +1,69 @@
+// Phone numbers in E.164 form ("+442071234567"), so the same number printed
+// as "020 7123 4567", "+44 (0)20 7123-4567" or "0044 20 7123 4567" compares
+// equal. National numbers need a default country to say which code applies.
+
+interface CountryDialing {
+  code: string; // Country calling code without the "+"
+  trunk: string; // National prefix dropped when dialling from abroad
+}
+
+const COUNTRIES: Record<string, CountryDialing> = {
+  US: { code: "1", trunk: "1" }, CA: { code: "1", trunk: "1" },
+  GB: { code: "44", trunk: "0" }, IE: { code: "353", trunk: "0" },
+  DE: { code: "49", trunk: "0" }, AT: { code: "43", trunk: "0" }, CH: { code: "41", trunk: "0" },
+  FR: { code: "33", trunk: "0" }, BE: { code: "32", trunk: "0" }, NL: { code: "31", trunk: "0" },
+  LU: { code: "352", trunk: "" }, ES: { code: "34", trunk: "" }, PT: { code: "351", trunk: "" },
+  // Italian numbers keep their leading 0 after the country code
+  IT: { code: "39", trunk: "" },
+  DK: { code: "45", trunk: "" }, NO: { code: "47", trunk: "" }, SE: { code: "46", trunk: "0" },
+  FI: { code: "358", trunk: "0" }, PL: { code: "48", trunk: "" }, CZ: { code: "420", trunk: "" },
+  GR: { code: "30", trunk: "" }, HU: { code: "36", trunk: "06" }, RO: { code: "40", trunk: "0" },
+  TR: { code: "90", trunk: "0" }, RU: { code: "7", trunk: "8" }, IL: { code: "972", trunk: "0" },
+  AE: { code: "971", trunk: "0" }, SA: { code: "966", trunk: "0" }, ZA: { code: "27", trunk: "0" },
+  NG: { code: "234", trunk: "0" }, KE: { code: "254", trunk: "0" }, EG: { code: "20", trunk: "0" },
+  IN: { code: "91", trunk: "0" }, PK: { code: "92", trunk: "0" }, CN: { code: "86", trunk: "0" },
+  HK: { code: "852", trunk: "" }, SG: { code: "65", trunk: "" }, JP: { code: "81", trunk: "0" },
+  KR: { code: "82", trunk: "0" }, TW: { code: "886", trunk: "0" }, TH: { code: "66", trunk: "0" },
+  MY: { code: "60", trunk: "0" }, ID: { code: "62", trunk: "0" }, PH: { code: "63", trunk: "0" },
+  VN: { code: "84", trunk: "0" }, AU: { code: "61", trunk: "0" }, NZ: { code: "64", trunk: "0" },
+  BR: { code: "55", trunk: "0" }, MX: { code: "52", trunk: "" }, AR: { code: "54", trunk: "0" },
+  CL: { code: "56", trunk: "" }, CO: { code: "57", trunk: "" }, PE: { code: "51", trunk: "" },
+};
+
+export const PHONE_COUNTRIES = Object.keys(COUNTRIES).sort();
+
+// E.164 allows at most 15 digits; anything under 7 is an extension or a fragment
+const MIN_DIGITS = 7;
+const MAX_DIGITS = 15;
+
+// Extensions are not part of the number: "x204", "ext. 204", "#204"
+const EXTENSION = /\s*(?:ext\.?|extension|x|#)\s*\d+\s*$/i;
+
+// The number in E.164 form, or null when it can't be determined
+export const toE164 = (raw: string | null | undefined, defaultCountry: string | null): string | null => {
+  if (!raw) return null;
+  let text = raw.replace(EXTENSION, "").trim();
+  // "+44 (0)20…": the bracketed trunk prefix is only dialled from inside the country
+  text = text.replace(/^(\+\d{1,3})\s*\(0\)/, "$1");
+  const international = /^\s*(\+|00(?!0))/.test(text);
+  let digits = text.replace(/\D/g, "");
+  if (international) {
+    if (!text.trim().startsWith("+")) digits = digits.slice(2);
+  } else {
+    const country = defaultCountry ? COUNTRIES[defaultCountry.toUpperCase()] : undefined;
+    if (!country) return null;
+    if (country.trunk && digits.startsWith(country.trunk) && digits.length > MIN_DIGITS) {
+      digits = digits.slice(country.trunk.length);
+    }
+    digits = country.code + digits;
+  }
+  return digits.length >= MIN_DIGITS + 1 && digits.length <= MAX_DIGITS ? `+${digits}` : null;
+};
+
+// Digits only, without the country code or trunk prefix; used to compare numbers
+// when neither side can be put into E.164
+export const nationalDigits = (raw: string): string => {
+  const digits = raw.replace(EXTENSION, "").replace(/\D/g, "");
+  // The trailing nine digits identify a subscriber in almost every numbering plan
+  return digits.slice(-9);
+};
@@ -0,0 +1,56 @@
+import { InvoiceData, BusinessCardData, CustomFieldValue, DocumentClassification } from "../types";
+import { ExtractionProvider } from "./extractionService";
+import { CategorySuggestionRequest } from "./categorization";
+
+// Sends documents to our API server (see server/), which calls Gemini with a
+// key the browser never sees. Responses have the same shapes the Gemini
+// provider returns.
+
+const API_BASE = "/api";
+
+// Carries the HTTP status so the extraction queue can tell rate limits and
+// server errors, which are worth retrying, from bad uploads
+const requestError = (status: number, message: string): Error => Object.assign(new Error(message), { status });
+
+const send = async <T>(path: string, init: RequestInit): Promise<T> => {
+  const response = await fetch(`${API_BASE}${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw requestError(response.status, body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+// The file is the request body; its name travels in a header
+const postFile = <T>(path: string, file: File, signal?: AbortSignal): Promise<T> =>
+  send<T>(path, {
+    method: "POST",
+    body: file,
+    headers: {
+      "Content-Type": file.type || "application/octet-stream",
+      "X-File-Name": encodeURIComponent(file.name),
+    },
+    signal,
+  });
+
+export const proxyProvider: ExtractionProvider = {
+  name: "proxy",
+  classifyDocument: (file, signal) => postFile<DocumentClassification>("/classify", file, signal),
+  extractInvoiceData: (file, signal) => postFile<Partial<InvoiceData>>("/extract/invoice", file, signal),
+  extractInvoiceDocuments: (file, signal) => postFile<Partial<InvoiceData>[]>("/extract/invoice-documents", file, signal),
+  extractBusinessCardData: (file, signal) => postFile<Partial<BusinessCardData>>("/extract/card", file, signal),
+  // The definition travels with the file, so the server needs no copy of the user's types
+  extractCustomDocument: (file, definition, signal) => {
+    const body = new FormData();
+    body.append("file", file, file.name);
+    body.append("definition", JSON.stringify(definition));
+    return send<Record<string, CustomFieldValue>>("/extract/custom", { method: "POST", body, signal });
+  },
+  suggestCategories: (lines: CategorySuggestionRequest[], categories: string[], signal?: AbortSignal) =>
+    send<(string | null)[]>("/categories/suggest", {
+      method: "POST",
+      body: JSON.stringify({ lines, categories }),
+      headers: { "Content-Type": "application/json" },
+      signal,
+    }),
+};
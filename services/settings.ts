@@ -0,0 +1,94 @@
+import {
+  TaxRateBand, ImagePreprocessingOptions, FxRate, LedgerAccount, ExpenseCategory, CategoryRule, DocumentTypeDefinition,
+} from "../types";
+
+export interface AppSettings {
+  tax_rate_bands: TaxRateBand[];
+  extraction_concurrency: number; // Files sent to the model at the same time
+  extraction_max_retries: number; // Retries for rate limits and server errors
+  split_multi_invoice_documents: boolean; // Look for several invoices in each uploaded file
+  max_upload_mb: number; // Larger files are rejected when added
+  image_preprocessing: ImagePreprocessingOptions;
+  base_currency: string; // ISO 4217; totals are also shown converted into it
+  fx_rates: FxRate[];
+  ledger_accounts: LedgerAccount[]; // Chart of accounts
+  expense_categories: ExpenseCategory[];
+  category_rules: CategoryRule[]; // Applied in order; the first match wins
+  suggest_categories: boolean; // Ask the model about lines no rule covers
+  default_phone_country: string | null; // ISO 3166 code for numbers printed without a country code
+  document_types: DocumentTypeDefinition[]; // User-defined types for the Other Documents tab
+}
+
+const STORAGE_KEY = "scanner.settings";
+
+// Covers zero-rated, reduced and standard VAT/GST rates in most jurisdictions
+export const DEFAULT_SETTINGS: AppSettings = {
+  tax_rate_bands: [
+    { label: "Zero-rated", min: 0, max: 0 },
+    { label: "Reduced", min: 4, max: 10 },
+    { label: "Standard", min: 12, max: 27 },
+  ],
+  extraction_concurrency: 2,
+  extraction_max_retries: 3,
+  split_multi_invoice_documents: false,
+  max_upload_mb: 20, // Gemini's limit for inline file data
+  // Around 2000px keeps receipt text legible while cutting phone photos to a fraction of their size
+  image_preprocessing: {
+    enabled: true,
+    auto_crop: true,
+    deskew: true,
+    color_mode: "color",
+    max_dimension: 2000,
+    max_kb: 1500,
+  },
+  base_currency: "USD",
+  fx_rates: [],
+  // A minimal expense chart; most users will replace it with their own
+  ledger_accounts: [
+    { code: "5000", name: "Cost of Goods Sold" },
+    { code: "6100", name: "Office Supplies" },
+    { code: "6200", name: "Software and Subscriptions" },
+    { code: "6300", name: "Travel" },
+    { code: "6400", name: "Meals and Entertainment" },
+    { code: "6500", name: "Professional Fees" },
+    { code: "6600", name: "Utilities and Telecoms" },
+    { code: "6700", name: "Rent" },
+    { code: "6900", name: "General Expenses" },
+  ],
+  expense_categories: [
+    { name: "Inventory", account_code: "5000" },
+    { name: "Office", account_code: "6100" },
+    { name: "Software", account_code: "6200" },
+    { name: "Travel", account_code: "6300" },
+    { name: "Meals", account_code: "6400" },
+    { name: "Professional services", account_code: "6500" },
+    { name: "Utilities", account_code: "6600" },
+    { name: "Rent", account_code: "6700" },
+    { name: "Other", account_code: "6900" },
+  ],
+  category_rules: [
+    { target: "description", pattern: "\\b(licen[cs]e|subscription|saas|hosting|cloud)\\b", is_regex: true, category: "Software" },
+    { target: "description", pattern: "\\b(hotel|flight|airfare|taxi|train|mileage)\\b", is_regex: true, category: "Travel" },
+    { target: "description", pattern: "\\b(paper|toner|stationery|printer)\\b", is_regex: true, category: "Office" },
+    { target: "description", pattern: "\\b(consulting|legal|audit|accounting)\\b", is_regex: true, category: "Professional services" },
+  ],
+  suggest_categories: false,
+  default_phone_country: null,
+  document_types: [],
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    // Merge so settings saved by older versions pick up newly added keys
+    return { ...DEFAULT_SETTINGS, ...(JSON.parse(raw) as Partial<AppSettings>) };
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,214 @@
+import { InvoiceData, Supplier } from "../types";
+import { toCsv } from "./csv";
+import { formatAmount, roundMoney } from "./currency";
+import { convertInvoice, FxSettings } from "./fxRates";
+import { parseInvoiceDate } from "./invoiceValidation";
+import { lineCategory } from "./categorization";
+import { countsTowardsTotals } from "./invoiceTypes";
+import { normalizeCompanyName } from "./textMatching";
+
+// Spending breakdowns for the dashboard. Every amount is converted into the
+// base currency at the invoice's own rate; invoices without a usable rate
+// are left out of the totals and listed separately. Credit notes net off
+// against the spend they correct, and pro formas are not counted at all.
+
+export interface SpendFilters {
+  from: string | null; // Inclusive YYYY-MM-DD
+  to: string | null;
+  supplier: string | null; // A key from `supplierKey`
+  approvedOnly: boolean;
+}
+
+export interface SpendBucket {
+  key: string;
+  label: string;
+  total: number; // Base currency, tax included
+  tax: number;
+  count: number; // Invoices contributing to the bucket
+}
+
+// Totals in the invoices' own currency alongside the base equivalent
+export interface CurrencyBucket extends SpendBucket {
+  native_total: number;
+}
+
+export interface TopItem {
+  description: string;
+  total: number; // Base currency
+  quantity: number;
+  count: number; // Lines it appeared on
+  suppliers: string[];
+}
+
+export interface SpendSummary {
+  currency: string; // The base currency
+  invoice_count: number;
+  total: number;
+  tax: number;
+  by_supplier: SpendBucket[];
+  by_month: SpendBucket[];
+  by_category: SpendBucket[];
+  by_currency: CurrencyBucket[];
+  tax_by_quarter: SpendBucket[];
+  top_items: TopItem[];
+  unconverted: InvoiceData[]; // Matched the filters but have no rate into the base currency
+}
+
+export const UNDATED_KEY = "undated";
+const UNCATEGORIZED_KEY = "uncategorized";
+
+// Registered suppliers group by id; the rest by normalized name so "ACME Ltd" and "Acme" land together
+export const supplierKey = (invoice: InvoiceData): string =>
+  invoice.supplier_id ? `id:${invoice.supplier_id}` : `name:${normalizeCompanyName(invoice.supplier_name ?? "")}`;
+
+export const supplierLabel = (invoice: InvoiceData, suppliers: Supplier[]): string =>
+  suppliers.find(s => s.id === invoice.supplier_id)?.name ?? invoice.supplier_name ?? "Unknown Supplier";
+
+const quarterOf = (date: string): string => `${date.slice(0, 4)}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3) + 1}`;
+
+export const matchesFilters = (invoice: InvoiceData, filters: SpendFilters): boolean => {
+  if (filters.approvedOnly && !invoice.review.approved) return false;
+  if (filters.supplier && supplierKey(invoice) !== filters.supplier) return false;
+  if (filters.from || filters.to) {
+    // A date range only makes sense for invoices with a date
+    const date = invoice.invoice_date;
+    if (!date || !parseInvoiceDate(date)) return false;
+    if (filters.from && date < filters.from) return false;
+    if (filters.to && date > filters.to) return false;
+  }
+  return true;
+};
+
+// Keyed buckets that count each invoice once per bucket, however many of its lines land there
+const createBuckets = <T extends SpendBucket>(create: (key: string, label: string) => T) => {
+  const buckets = new Map<string, T>();
+  const seen = new Set<string>();
+  return {
+    add: (invoiceId: string, key: string, label: string, total: number, tax: number): T => {
+      const bucket = buckets.get(key) ?? create(key, label);
+      bucket.total += total;
+      bucket.tax += tax;
+      if (!seen.has(`${invoiceId}|${key}`)) bucket.count += 1;
+      seen.add(`${invoiceId}|${key}`);
+      buckets.set(key, bucket);
+      return bucket;
+    },
+    values: (currency: string): T[] =>
+      [...buckets.values()].map(b => ({ ...b, total: roundMoney(b.total, currency), tax: roundMoney(b.tax, currency) })),
+  };
+};
+
+const emptyBucket = (key: string, label: string): SpendBucket => ({ key, label, total: 0, tax: 0, count: 0 });
+
+const byTotal = <T extends SpendBucket>(buckets: T[]) => buckets.sort((a, b) => b.total - a.total);
+// Chronological, with undated invoices last
+const byKey = <T extends SpendBucket>(buckets: T[]) =>
+  buckets.sort((a, b) => Number(a.key === UNDATED_KEY) - Number(b.key === UNDATED_KEY) || a.key.localeCompare(b.key));
+
+const describeItem = (description: string) => description.trim().replace(/\s+/g, " ");
+
+export const buildSpendSummary = (
+  invoices: InvoiceData[],
+  suppliers: Supplier[],
+  filters: SpendFilters,
+  fx: FxSettings,
+  topItemCount = 10,
+): SpendSummary => {
+  const base = fx.base_currency;
+  const bySupplier = createBuckets(emptyBucket);
+  const byMonth = createBuckets(emptyBucket);
+  const byCategory = createBuckets(emptyBucket);
+  const byQuarter = createBuckets(emptyBucket);
+  const byCurrency = createBuckets<CurrencyBucket>((key, label) => ({ ...emptyBucket(key, label), native_total: 0 }));
+  const items = new Map<string, TopItem>();
+  const unconverted: InvoiceData[] = [];
+  let total = 0;
+  let tax = 0;
+  let count = 0;
+
+  for (const invoice of invoices) {
+    if (!countsTowardsTotals(invoice) || !matchesFilters(invoice, filters) || invoice.total_amount === null) continue;
+    const conversion = convertInvoice(invoice, fx);
+    if (!conversion) {
+      unconverted.push(invoice);
+      continue;
+    }
+    const invoiceTotal = conversion.total_amount ?? 0;
+    const invoiceTax = conversion.tax_amount ?? 0;
+    const dated = invoice.invoice_date && parseInvoiceDate(invoice.invoice_date) ? invoice.invoice_date : null;
+    count += 1;
+    total += invoiceTotal;
+    tax += invoiceTax;
+
+    const supplier = supplierLabel(invoice, suppliers);
+    bySupplier.add(invoice.id, supplierKey(invoice), supplier, invoiceTotal, invoiceTax);
+    byMonth.add(invoice.id, dated ? dated.slice(0, 7) : UNDATED_KEY, dated ? dated.slice(0, 7) : "No date", invoiceTotal, invoiceTax);
+    if (dated) byQuarter.add(invoice.id, quarterOf(dated), quarterOf(dated), invoiceTotal, invoiceTax);
+    const currency = invoice.currency ?? base;
+    byCurrency.add(invoice.id, currency, currency, invoiceTotal, invoiceTax).native_total += invoice.total_amount;
+
+    // The total is shared across categories in proportion to the line amounts,
+    // so the category breakdown adds up to the same figure as the others
+    const lineSum = invoice.line_items.reduce((sum, item) => sum + item.line_total, 0);
+    if (invoice.line_items.length === 0 || lineSum === 0) {
+      byCategory.add(invoice.id, invoice.category ?? UNCATEGORIZED_KEY, invoice.category ?? "Uncategorized", invoiceTotal, invoiceTax);
+    } else {
+      for (const item of invoice.line_items) {
+        const share = item.line_total / lineSum;
+        const category = lineCategory(invoice, item);
+        byCategory.add(invoice.id, category ?? UNCATEGORIZED_KEY, category ?? "Uncategorized", invoiceTotal * share, invoiceTax * share);
+      }
+    }
+
+    for (const item of invoice.line_items) {
+      const description = describeItem(item.description);
+      if (!description) continue;
+      const key = description.toLowerCase();
+      const entry = items.get(key) ?? { description, total: 0, quantity: 0, count: 0, suppliers: [] };
+      entry.total += item.line_total * conversion.rate;
+      entry.quantity += item.quantity || 0;
+      entry.count += 1;
+      if (!entry.suppliers.includes(supplier)) entry.suppliers.push(supplier);
+      items.set(key, entry);
+    }
+  }
+
+  const currencies = byCurrency.values(base).map(bucket => ({
+    ...bucket,
+    native_total: roundMoney(bucket.native_total, bucket.key),
+  }));
+  return {
+    currency: base,
+    invoice_count: count,
+    total: roundMoney(total, base),
+    tax: roundMoney(tax, base),
+    by_supplier: byTotal(bySupplier.values(base)),
+    by_month: byKey(byMonth.values(base)),
+    by_category: byTotal(byCategory.values(base)),
+    by_currency: byTotal(currencies),
+    tax_by_quarter: byKey(byQuarter.values(base)),
+    top_items: [...items.values()]
+      .map(item => ({ ...item, total: roundMoney(item.total, base) }))
+      .sort((a, b) => b.total - a.total)
+      .slice(0, topItemCount),
+    unconverted,
+  };
+};
+
+// Every breakdown in one sheet, one section after another
+export const spendSummaryCsv = (summary: SpendSummary, filters: SpendFilters): string => {
+  const money = (amount: number) => formatAmount(amount, summary.currency);
+  const section = (name: string, buckets: SpendBucket[]) =>
+    buckets.map(b => [name, b.label, b.count, money(b.total), money(b.tax), summary.currency]);
+  return toCsv([
+    ["Section", "Group", "Invoices", "Total", "Tax", "Currency"],
+    ["Filter", `${filters.from ?? "any"} to ${filters.to ?? "any"}${filters.approvedOnly ? ", approved only" : ""}`, "", "", "", ""],
+    ["All invoices", "Total", summary.invoice_count, money(summary.total), money(summary.tax), summary.currency],
+    ...section("Supplier", summary.by_supplier),
+    ...section("Month", summary.by_month),
+    ...section("Category", summary.by_category),
+    ...section("Currency", summary.by_currency),
+    ...section("Tax by quarter", summary.tax_by_quarter),
+    ...summary.top_items.map(item => ["Top item", item.description, item.count, money(item.total), "", summary.currency]),
+  ]);
+};
@@ -0,0 +1,207 @@
+import { InvoiceData, BusinessCardData, BusinessCardField, FieldSource, Supplier, CustomDocument } from "../types";
+import { toE164 } from "./phone";
+import { initialPayableStatus } from "./payables";
+
+// IndexedDB persistence for extracted records and the files they came from.
+// Records are keyed by their UI id; original uploads are stored under the id
+// of the record extracted from them.
+
+const DB_NAME = "invoice-contact-scanner";
+const DB_VERSION = 3;
+
+type StoreName = "invoices" | "cards" | "files" | "suppliers" | "documents";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains("invoices")) db.createObjectStore("invoices", { keyPath: "id" });
+        if (!db.objectStoreNames.contains("cards")) db.createObjectStore("cards", { keyPath: "id" });
+        if (!db.objectStoreNames.contains("files")) db.createObjectStore("files");
+        if (!db.objectStoreNames.contains("suppliers")) db.createObjectStore("suppliers", { keyPath: "id" });
+        if (!db.objectStoreNames.contains("documents")) db.createObjectStore("documents", { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in a transaction and resolves once it has committed
+const withStores = async <T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T,
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+const getAll = <T>(store: StoreName): Promise<T[]> =>
+  withStores([store], "readonly", tx => promisify(tx.objectStore(store).getAll() as IDBRequest<T[]>));
+
+const putAll = <T>(store: StoreName, records: T[]): Promise<void> =>
+  withStores([store], "readwrite", tx => {
+    const objectStore = tx.objectStore(store);
+    records.forEach(record => objectStore.put(record));
+  });
+
+// Deletes records together with their stored source files
+const removeWithFiles = (store: StoreName, ids: string[]): Promise<void> =>
+  withStores([store, "files"], "readwrite", tx => {
+    ids.forEach(id => {
+      tx.objectStore(store).delete(id);
+      tx.objectStore("files").delete(id);
+    });
+  });
+
+const clearWithFiles = async (store: StoreName): Promise<void> => {
+  const ids = await withStores([store], "readonly", tx =>
+    promisify(tx.objectStore(store).getAllKeys()),
+  );
+  await removeWithFiles(store, ids as string[]);
+};
+
+const byExtractionTime = <T extends { extracted_at: string }>(records: T[]): T[] =>
+  [...records].sort((a, b) => a.extracted_at.localeCompare(b.extracted_at));
+
+// --- INVOICES ---
+
+// Records saved by earlier versions of the app may lack newer fields
+const withInvoiceDefaults = (invoice: InvoiceData): InvoiceData => ({
+  ...invoice,
+  file_hash: invoice.file_hash ?? null,
+  dismissed_duplicates: invoice.dismissed_duplicates ?? [],
+  field_sources: invoice.field_sources ?? {},
+  page_range: invoice.page_range ?? null,
+  supplier_id: invoice.supplier_id ?? null,
+  category: invoice.category ?? null,
+  category_source: invoice.category_source ?? null,
+  net_amount: invoice.net_amount ?? null,
+  tax_lines: invoice.tax_lines ?? [],
+  prices_include_tax: invoice.prices_include_tax ?? null,
+  reverse_charge: invoice.reverse_charge ?? false,
+  document_type: invoice.document_type ?? "invoice",
+  original_invoice_number: invoice.original_invoice_number ?? null,
+  due_date: invoice.due_date ?? null,
+  payment_terms: invoice.payment_terms ?? null,
+  payment_method: invoice.payment_method ?? null,
+  amount_paid: invoice.amount_paid ?? null,
+  balance_due: invoice.balance_due ?? null,
+  supplier_bank: invoice.supplier_bank ?? null,
+  payable_status: invoice.payable_status ?? initialPayableStatus({
+    document_type: invoice.document_type ?? "invoice",
+    balance_due: invoice.balance_due ?? null,
+  }),
+  payment_date: invoice.payment_date ?? null,
+  payment_reference: invoice.payment_reference ?? null,
+});
+
+export const loadInvoices = async (): Promise<InvoiceData[]> =>
+  byExtractionTime((await getAll<InvoiceData>("invoices")).map(withInvoiceDefaults));
+
+export const saveInvoices = (invoices: InvoiceData[]): Promise<void> => putAll("invoices", invoices);
+
+export const deleteInvoice = (id: string): Promise<void> => removeWithFiles("invoices", [id]);
+
+export const clearInvoices = (): Promise<void> => clearWithFiles("invoices");
+
+// --- BUSINESS CARDS ---
+
+// Cards saved before phones, emails and the address were structured
+type LegacyCard = Omit<BusinessCardData, "emails" | "phones" | "social_profiles" | "address" | "field_sources"> & {
+  emails?: BusinessCardData["emails"];
+  phones?: BusinessCardData["phones"];
+  social_profiles?: BusinessCardData["social_profiles"];
+  address?: BusinessCardData["address"] | string;
+  email?: string | null;
+  phone?: string | null;
+  field_sources?: Partial<Record<BusinessCardField | "email" | "phone", FieldSource>>;
+};
+
+const withCardDefaults = (stored: LegacyCard): BusinessCardData => {
+  const { email, phone, field_sources = {}, ...card } = stored;
+  const { email: emailSource, phone: phoneSource, ...sources } = field_sources;
+  return {
+    ...card,
+    emails: card.emails ?? (email ? [{ type: "work", address: email }] : []),
+    // Country-less numbers get their E.164 form once a default country is set
+    phones: card.phones ?? (phone ? [{ type: "work", number: phone, e164: toE164(phone, null) }] : []),
+    social_profiles: card.social_profiles ?? [],
+    // The old free-text address becomes the street; the printed lines are kept as they were
+    address: typeof card.address === "string" ? { street: card.address, city: null, region: null, postal_code: null, country: null } : card.address ?? null,
+    field_sources: {
+      ...sources,
+      ...(emailSource && !sources.emails ? { emails: emailSource } : {}),
+      ...(phoneSource && !sources.phones ? { phones: phoneSource } : {}),
+    },
+    dismissed_duplicates: card.dismissed_duplicates ?? [],
+  };
+};
+
+export const loadCards = async (): Promise<BusinessCardData[]> =>
+  byExtractionTime((await getAll<LegacyCard>("cards")).map(withCardDefaults));
+
+export const saveCards = (cards: BusinessCardData[]): Promise<void> => putAll("cards", cards);
+
+export const deleteCard = (id: string): Promise<void> => removeWithFiles("cards", [id]);
+
+export const clearCards = (): Promise<void> => clearWithFiles("cards");
+
+// --- SUPPLIERS ---
+
+export const loadSuppliers = async (): Promise<Supplier[]> =>
+  (await getAll<Supplier>("suppliers")).sort((a, b) => a.name.localeCompare(b.name));
+
+export const saveSuppliers = (suppliers: Supplier[]): Promise<void> => putAll("suppliers", suppliers);
+
+export const deleteSupplier = (id: string): Promise<void> =>
+  withStores(["suppliers"], "readwrite", tx => {
+    tx.objectStore("suppliers").delete(id);
+  });
+
+// --- CUSTOM DOCUMENTS ---
+
+// Documents of every user-defined type share one store; each records its type_id
+export const loadDocuments = async (): Promise<CustomDocument[]> =>
+  byExtractionTime(await getAll<CustomDocument>("documents"));
+
+export const saveDocuments = (documents: CustomDocument[]): Promise<void> => putAll("documents", documents);
+
+export const deleteDocuments = (ids: string[]): Promise<void> => removeWithFiles("documents", ids);
+
+// --- SOURCE FILES ---
+
+export const saveSourceFile = (recordId: string, file: Blob): Promise<void> =>
+  withStores(["files"], "readwrite", tx => {
+    tx.objectStore("files").put(file, recordId);
+  });
+
+export const loadSourceFile = async (recordId: string): Promise<Blob | null> => {
+  const result = await withStores(["files"], "readonly", tx =>
+    promisify(tx.objectStore("files").get(recordId) as IDBRequest<Blob | undefined>),
+  );
+  return result ?? null;
+};
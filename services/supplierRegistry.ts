@@ -0,0 +1,229 @@
+import { InvoiceData, Supplier } from "../types";
+import { parseCsv, toCsv } from "./csv";
+import { isKnownCurrency, normalizeCurrency } from "./currency";
+import { companyNameSimilarity, normalizeCompanyName, normalizeIdentifier } from "./textMatching";
+
+// The supplier registry reconciles the names the model reads ("ACME Ltd",
+// "Acme Limited", "ACME LTD.") into one canonical supplier. Invoices are
+// matched by tax ID first, since it is unambiguous, then by name.
+
+// Placeholder for invoices where the model found no supplier; never matched or registered
+export const UNKNOWN_SUPPLIER = "Unknown Supplier";
+
+// Same threshold duplicate detection uses to call two supplier names the same
+const NAME_MATCH_THRESHOLD = 0.85;
+
+export type SupplierMatchReason = "tax_id" | "name" | "alias" | "similar_name";
+
+export interface SupplierMatch {
+  supplier: Supplier;
+  reason: SupplierMatchReason;
+  score: number; // 1 for exact matches
+}
+
+export interface SupplierImportResult {
+  suppliers: Supplier[]; // The whole registry after the import
+  added: number;
+  updated: number;
+  errors: string[]; // One message per skipped row
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const isRegistrable = (name: string | null | undefined): name is string =>
+  !!name?.trim() && name.trim() !== UNKNOWN_SUPPLIER;
+
+export const createSupplier = (fields: Partial<Supplier> & { name: string }): Supplier => ({
+  id: newId(),
+  tax_id: null,
+  default_currency: null,
+  default_category: null,
+  aliases: [],
+  created_at: new Date().toISOString(),
+  ...fields,
+  name: fields.name.trim(),
+});
+
+export const supplierFromInvoice = (invoice: InvoiceData): Supplier =>
+  createSupplier({
+    name: invoice.supplier_name ?? UNKNOWN_SUPPLIER,
+    tax_id: invoice.supplier_tax_id,
+    default_currency: isKnownCurrency(invoice.currency) ? invoice.currency : null,
+  });
+
+export const matchSupplier = (
+  suppliers: Supplier[],
+  name: string | null | undefined,
+  taxId: string | null | undefined,
+): SupplierMatch | null => {
+  if (taxId?.trim()) {
+    const id = normalizeIdentifier(taxId);
+    const byTaxId = suppliers.find(s => s.tax_id && normalizeIdentifier(s.tax_id) === id);
+    if (byTaxId) return { supplier: byTaxId, reason: "tax_id", score: 1 };
+  }
+  if (!isRegistrable(name)) return null;
+
+  const normalized = normalizeCompanyName(name);
+  let best: SupplierMatch | null = null;
+  for (const supplier of suppliers) {
+    // A different tax ID on both sides means a different company, however similar the name
+    if (taxId && supplier.tax_id && normalizeIdentifier(taxId) !== normalizeIdentifier(supplier.tax_id)) continue;
+
+    if (normalizeCompanyName(supplier.name) === normalized) return { supplier, reason: "name", score: 1 };
+    if (supplier.aliases.some(alias => normalizeCompanyName(alias) === normalized)) {
+      best = { supplier, reason: "alias", score: 1 };
+      continue;
+    }
+    if (best?.score === 1) continue;
+    const score = Math.max(...[supplier.name, ...supplier.aliases].map(n => companyNameSimilarity(n, name)));
+    if (score >= NAME_MATCH_THRESHOLD && score > (best?.score ?? 0)) best = { supplier, reason: "similar_name", score };
+  }
+  return best;
+};
+
+// Records a spelling the supplier was read as, unless it is already known
+export const withAlias = (supplier: Supplier, name: string): Supplier => {
+  const spelling = name.trim();
+  const known = [supplier.name, ...supplier.aliases].some(n => n.toLowerCase() === spelling.toLowerCase());
+  return !spelling || known ? supplier : { ...supplier, aliases: [...supplier.aliases, spelling] };
+};
+
+// Applies aliases for several matched names at once; returns only the suppliers that changed
+export const learnAliases = (suppliers: Supplier[], names: { supplierId: string; name: string }[]): Supplier[] => {
+  const changed = new Map<string, Supplier>();
+  for (const { supplierId, name } of names) {
+    const current = changed.get(supplierId) ?? suppliers.find(s => s.id === supplierId);
+    if (!current) continue;
+    const next = withAlias(current, name);
+    if (next !== current) changed.set(supplierId, next);
+  }
+  return [...changed.values()];
+};
+
+// Links an invoice to a supplier and fills in what the registry knows. The
+// canonical name replaces the extracted one, except on approved invoices,
+// which keep exactly what the reviewer signed off.
+export const applySupplier = (invoice: InvoiceData, supplier: Supplier): InvoiceData => {
+  if (invoice.review.approved) return { ...invoice, supplier_id: supplier.id };
+  return {
+    ...invoice,
+    supplier_id: supplier.id,
+    supplier_name: supplier.name,
+    supplier_tax_id: invoice.supplier_tax_id ?? supplier.tax_id,
+  };
+};
+
+// Matches every unlinked invoice against the registry. Returns the invoices
+// and suppliers that changed, so callers can persist just those.
+export const linkInvoices = (
+  invoices: InvoiceData[],
+  suppliers: Supplier[],
+): { invoices: InvoiceData[]; suppliers: Supplier[] } => {
+  const linked: InvoiceData[] = [];
+  const names: { supplierId: string; name: string }[] = [];
+  for (const invoice of invoices) {
+    if (invoice.supplier_id) continue;
+    const match = matchSupplier(suppliers, invoice.supplier_name, invoice.supplier_tax_id);
+    if (!match) continue;
+    linked.push(applySupplier(invoice, match.supplier));
+    if (invoice.supplier_name) names.push({ supplierId: match.supplier.id, name: invoice.supplier_name });
+  }
+  return { invoices: linked, suppliers: learnAliases(suppliers, names) };
+};
+
+// Distinct supplier names on invoices the registry doesn't know yet, with how often each appears
+export const unregisteredSuppliers = (invoices: InvoiceData[]): { invoice: InvoiceData; count: number }[] => {
+  const byName = new Map<string, { invoice: InvoiceData; count: number }>();
+  for (const invoice of invoices) {
+    if (invoice.supplier_id || !isRegistrable(invoice.supplier_name)) continue;
+    const key = normalizeCompanyName(invoice.supplier_name);
+    const entry = byName.get(key);
+    if (entry) entry.count += 1;
+    else byName.set(key, { invoice, count: 1 });
+  }
+  return [...byName.values()].sort((a, b) => b.count - a.count);
+};
+
+// --- CSV ---
+
+const CSV_HEADERS = ["Name", "Tax ID", "Default Currency", "Default Category", "Aliases"];
+// Aliases share one column; semicolons rarely appear in company names
+const ALIAS_SEPARATOR = ";";
+
+export const suppliersCsv = (suppliers: Supplier[]): string =>
+  toCsv([
+    CSV_HEADERS,
+    ...suppliers.map(s => [s.name, s.tax_id, s.default_currency, s.default_category, s.aliases.join(`${ALIAS_SEPARATOR} `)]),
+  ]);
+
+const HEADER_NAMES = {
+  name: ["name", "supplier", "supplier name", "canonical name"],
+  taxId: ["tax id", "tax_id", "vat", "vat id", "vat number", "gstin"],
+  currency: ["default currency", "default_currency", "currency"],
+  category: ["default category", "default_category", "category"],
+  aliases: ["aliases", "alias", "also known as"],
+};
+
+// Reads rows in the layout `suppliersCsv` writes. Rows matching an existing
+// supplier (by tax ID, then name) update it; the rest are added.
+export const importSuppliersCsv = (text: string, existing: Supplier[]): SupplierImportResult => {
+  const rows = parseCsv(text);
+  const result: SupplierImportResult = { suppliers: [...existing], added: 0, updated: 0, errors: [] };
+  if (rows.length === 0) return result;
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.some(cell => HEADER_NAMES.name.includes(cell));
+  const column = (names: string[], fallback: number) => {
+    const index = hasHeader ? header.findIndex(cell => names.includes(cell)) : -1;
+    return hasHeader ? index : fallback;
+  };
+  const cols = {
+    name: column(HEADER_NAMES.name, 0),
+    taxId: column(HEADER_NAMES.taxId, 1),
+    currency: column(HEADER_NAMES.currency, 2),
+    category: column(HEADER_NAMES.category, 3),
+    aliases: column(HEADER_NAMES.aliases, 4),
+  };
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index]?.trim() ?? "" : "");
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, idx) => {
+    const line = idx + (hasHeader ? 2 : 1);
+    const name = cell(row, cols.name);
+    const rawCurrency = cell(row, cols.currency);
+    const currency = rawCurrency ? normalizeCurrency(rawCurrency) : null;
+    if (!name) {
+      result.errors.push(`Line ${line}: supplier name is missing`);
+      return;
+    }
+    if (rawCurrency && !currency) {
+      result.errors.push(`Line ${line}: unknown currency "${rawCurrency}"`);
+      return;
+    }
+    const fields = {
+      name,
+      tax_id: cell(row, cols.taxId) || null,
+      default_currency: currency,
+      default_category: cell(row, cols.category) || null,
+      aliases: cell(row, cols.aliases).split(ALIAS_SEPARATOR).map(a => a.trim()).filter(Boolean),
+    };
+
+    const match = matchSupplier(result.suppliers, fields.name, fields.tax_id);
+    if (match && match.score === 1) {
+      // Filled columns overwrite; empty ones keep what the registry had
+      let merged: Supplier = {
+        ...match.supplier,
+        name: fields.name,
+        tax_id: fields.tax_id ?? match.supplier.tax_id,
+        default_currency: fields.default_currency ?? match.supplier.default_currency,
+        default_category: fields.default_category ?? match.supplier.default_category,
+      };
+      merged = [match.supplier.name, ...fields.aliases].reduce(withAlias, merged);
+      result.suppliers = result.suppliers.map(s => (s.id === merged.id ? merged : s));
+      result.updated += 1;
+    } else {
+      result.suppliers.push(createSupplier(fields));
+      result.added += 1;
+    }
+  });
+  return result;
+};
@@ -0,0 +1,150 @@
+import { InvoiceData, TaxLine, TaxType } from "../types";
+import { toCsv } from "./csv";
+import { formatAmount, roundMoney } from "./currency";
+import { convertInvoice, FxSettings } from "./fxRates";
+import { parseInvoiceDate } from "./invoiceValidation";
+import { countsTowardsTotals } from "./invoiceTypes";
+
+// Input tax per rate for a filing period, in the base currency. Invoices that
+// print a tax summary are reported line by line; single-rate invoices without
+// one contribute a line derived from their totals.
+
+export const TAX_TYPE_LABELS: Record<TaxType, string> = {
+  vat: "VAT",
+  gst: "GST",
+  cgst: "CGST",
+  sgst: "SGST",
+  igst: "IGST",
+  sales_tax: "Sales tax",
+  other: "Other",
+};
+
+export interface VatReportRow {
+  tax_type: TaxType;
+  rate: number;
+  reverse_charge: boolean;
+  taxable_base: number;
+  tax_amount: number;
+  invoice_count: number;
+}
+
+export interface VatReport {
+  from: string;
+  to: string;
+  currency: string; // The base currency every amount is converted into
+  rows: VatReportRow[];
+  taxable_base: number;
+  tax_amount: number;
+  excluded: { invoice: InvoiceData; reason: string }[];
+}
+
+export interface VatReportOptions {
+  from: string; // Inclusive YYYY-MM-DD
+  to: string;
+  fx: FxSettings;
+  approvedOnly?: boolean;
+}
+
+// Printed tax lines, or one line derived from the totals when none were printed
+export const effectiveTaxLines = (invoice: InvoiceData): TaxLine[] => {
+  if (invoice.tax_lines.length > 0) return invoice.tax_lines;
+  const { total_amount, tax_amount } = invoice;
+  if (total_amount === null) return [];
+  const tax = tax_amount ?? 0;
+  const net = invoice.net_amount ?? total_amount - tax;
+  // One decimal place absorbs the rounding in the printed amounts
+  const rate = net !== 0 ? Math.round((tax / net) * 1000) / 10 : 0;
+  return [{ tax_type: "vat", rate, taxable_base: net, tax_amount: tax }];
+};
+
+export const buildVatReport = (invoices: InvoiceData[], options: VatReportOptions): VatReport => {
+  const { from, to, fx } = options;
+  const base = fx.base_currency;
+  const rows = new Map<string, VatReportRow>();
+  const excluded: VatReport["excluded"] = [];
+
+  for (const invoice of invoices) {
+    if (options.approvedOnly && !invoice.review.approved) continue;
+    if (!invoice.invoice_date || !parseInvoiceDate(invoice.invoice_date)) {
+      excluded.push({ invoice, reason: "No valid invoice date" });
+      continue;
+    }
+    if (invoice.invoice_date < from || invoice.invoice_date > to) continue;
+    if (!countsTowardsTotals(invoice)) {
+      excluded.push({ invoice, reason: "Pro forma; the tax is reclaimed on the invoice that follows" });
+      continue;
+    }
+
+    const conversion = convertInvoice(invoice, fx);
+    if (!conversion) {
+      excluded.push({ invoice, reason: `No ${invoice.currency} → ${base} rate` });
+      continue;
+    }
+    const lines = effectiveTaxLines(invoice);
+    if (lines.length === 0) {
+      excluded.push({ invoice, reason: "No total amount" });
+      continue;
+    }
+    if (lines.some(line => line.rate === null)) {
+      excluded.push({ invoice, reason: "Tax summary has a line without a rate" });
+      continue;
+    }
+
+    // Each invoice is counted once per row even if it prints the same rate twice
+    const touched = new Set<string>();
+    for (const line of lines) {
+      const rate = line.rate as number;
+      const key = `${line.tax_type}|${rate}|${invoice.reverse_charge}`;
+      const row = rows.get(key) ?? {
+        tax_type: line.tax_type, rate, reverse_charge: invoice.reverse_charge, taxable_base: 0, tax_amount: 0, invoice_count: 0,
+      };
+      // A printed base is missing when only the tax per rate is shown; back it out of the rate
+      const lineBase = line.taxable_base ?? (rate !== 0 ? (line.tax_amount * 100) / rate : 0);
+      row.taxable_base = roundMoney(row.taxable_base + lineBase * conversion.rate, base);
+      row.tax_amount = roundMoney(row.tax_amount + line.tax_amount * conversion.rate, base);
+      if (!touched.has(key)) row.invoice_count += 1;
+      touched.add(key);
+      rows.set(key, row);
+    }
+  }
+
+  const sorted = [...rows.values()].sort((a, b) =>
+    Number(a.reverse_charge) - Number(b.reverse_charge) || a.tax_type.localeCompare(b.tax_type) || b.rate - a.rate,
+  );
+  return {
+    from,
+    to,
+    currency: base,
+    rows: sorted,
+    taxable_base: roundMoney(sorted.reduce((sum, row) => sum + row.taxable_base, 0), base),
+    tax_amount: roundMoney(sorted.reduce((sum, row) => sum + row.tax_amount, 0), base),
+    excluded,
+  };
+};
+
+export const vatReportCsv = (report: VatReport): string =>
+  toCsv([
+    ["Period From", "Period To", "Tax Type", "Rate %", "Reverse Charge", "Invoices", "Taxable Base", "Tax", "Currency"],
+    ...report.rows.map(row => [
+      report.from,
+      report.to,
+      TAX_TYPE_LABELS[row.tax_type],
+      row.rate,
+      row.reverse_charge ? "Yes" : "No",
+      row.invoice_count,
+      formatAmount(row.taxable_base, report.currency),
+      formatAmount(row.tax_amount, report.currency),
+      report.currency,
+    ]),
+    [report.from, report.to, "Total", "", "", "", formatAmount(report.taxable_base, report.currency), formatAmount(report.tax_amount, report.currency), report.currency],
+  ]);
+
+// Summary like "VAT 20%: 100.00 on 500.00; VAT 5%: 2.50 on 50.00" for one-column exports
+export const formatTaxLines = (invoice: InvoiceData): string =>
+  invoice.tax_lines
+    .map(line => {
+      const label = `${TAX_TYPE_LABELS[line.tax_type]}${line.rate !== null ? ` ${line.rate}%` : ""}`;
+      const base = line.taxable_base !== null ? ` on ${formatAmount(line.taxable_base, invoice.currency)}` : "";
+      return `${label}: ${formatAmount(line.tax_amount, invoice.currency)}${base}`;
+    })
+    .join("; ");
@@ -0,0 +1,47 @@
+// Fuzzy string helpers shared by duplicate detection and record matching.
+
+// Legal-form suffixes that vary between copies of the same company name
+const COMPANY_SUFFIXES = new Set([
+  "ltd", "limited", "inc", "incorporated", "llc", "llp", "plc", "corp", "corporation",
+  "co", "company", "gmbh", "ag", "sa", "sarl", "srl", "spa", "bv", "nv", "oy", "ab", "as", "pty", "pvt", "private",
+]);
+
+export const normalizeCompanyName = (name: string): string =>
+  name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter(word => word && !COMPANY_SUFFIXES.has(word))
+    .join(" ");
+
+// Case, separators and leading zeros differ between scans of the same identifier
+export const normalizeIdentifier = (value: string): string =>
+  value.toUpperCase().replace(/[^A-Z0-9]/g, "").replace(/(^|\D)0+(?=\d)/g, "$1");
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for identical strings, 0 for entirely different ones
+export const similarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+export const companyNameSimilarity = (a: string, b: string): number =>
+  similarity(normalizeCompanyName(a), normalizeCompanyName(b));
@@ -3,31 +3,337 @@ export interface LineItem {
   quantity: number;
   unit_price: number;
   line_total: number;
+  tax_rate?: number | null; // Percent, when printed per line
+  category?: string | null; // Expense category name
+  category_source?: CategorySource | null;
+}
+
+// How a category was assigned; manual choices are never overwritten
+export type CategorySource = 'rule' | 'supplier' | 'model' | 'manual';
+
+// One account in the user's chart of accounts
+export interface LedgerAccount {
+  code: string;
+  name: string;
+}
+
+// An expense category and the account it is booked to
+export interface ExpenseCategory {
+  name: string;
+  account_code: string | null;
+}
+
+export type CategoryRuleTarget = 'description' | 'supplier';
+
+// Assigns `category` when `pattern` matches the line description or supplier name.
+// Plain patterns match as case-insensitive keywords.
+export interface CategoryRule {
+  target: CategoryRuleTarget;
+  pattern: string;
+  is_regex: boolean;
+  category: string;
+}
+
+// CGST and SGST are the central and state halves of Indian intra-state GST; IGST is inter-state
+export type TaxType = 'vat' | 'gst' | 'cgst' | 'sgst' | 'igst' | 'sales_tax' | 'other';
+
+// One row of an invoice's tax summary
+export interface TaxLine {
+  tax_type: TaxType;
+  rate: number | null; // Percent
+  taxable_base: number | null; // Net amount the rate applies to
+  tax_amount: number;
+}
+
+// Receipts are read like invoices. Credit notes carry negative amounts so
+// totals net off against the invoices they correct; pro formas request
+// payment up front and are replaced by a real invoice later.
+export type InvoiceDocumentType = 'invoice' | 'credit_note' | 'receipt' | 'pro_forma';
+
+// Where the supplier asks to be paid, as printed
+export interface BankDetails {
+  bank_name: string | null;
+  iban: string | null;
+  bic: string | null; // SWIFT code
+  account_number: string | null; // Domestic account number, when no IBAN is given
+  routing_code: string | null; // Sort code, ABA routing number, BSB and the like
+}
+
+// Where an invoice stands in accounts payable. Scheduled invoices are in a
+// payment run that hasn't gone out yet; disputed ones are held back from runs.
+export type PayableStatus = 'unpaid' | 'scheduled' | 'paid' | 'disputed';
+
+// Invoice fields a reviewer can edit and sign off individually
+export type InvoiceField =
+  | 'document_type'
+  | 'invoice_number'
+  | 'original_invoice_number'
+  | 'invoice_date'
+  | 'supplier_name'
+  | 'supplier_tax_id'
+  | 'total_amount'
+  | 'currency'
+  | 'tax_amount'
+  | 'net_amount'
+  | 'tax_lines'
+  | 'line_items'
+  | 'due_date'
+  | 'payment_terms'
+  | 'payment_method'
+  | 'amount_paid'
+  | 'balance_due'
+  | 'supplier_bank';
+
+// Where and how confidently the model read a field. `box` uses the model's
+// normalized 0-1000 coordinates as [ymin, xmin, ymax, xmax] on a 1-based `page`.
+export interface FieldSource {
+  confidence: number; // 0-1
+  page: number | null;
+  box: [number, number, number, number] | null;
+}
+
+// 1-based, inclusive
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+export interface InvoiceReviewState {
+  reviewed_fields: InvoiceField[];
+  approved: boolean; // Only approved invoices are exported
 }
 
 export interface InvoiceData {
   id: string; // Internal unique ID for the UI
   fileName: string;
+  extracted_at: string; // ISO timestamp, also used to keep stored records in upload order
+  document_type: InvoiceDocumentType;
   invoice_number: string | null;
+  original_invoice_number: string | null; // The invoice a credit note corrects
   invoice_date: string | null;
   supplier_name: string | null;
   supplier_tax_id: string | null;
+  supplier_id: string | null; // Registry entry the supplier was matched to, if any
   total_amount: number | null;
   currency: string | null;
   tax_amount: number | null;
+  net_amount: number | null; // Total before tax
+  tax_lines: TaxLine[]; // Tax summary by type and rate; empty when only a single tax total is printed
+  prices_include_tax: boolean | null; // Whether line totals are gross; null when the invoice doesn't say
+  reverse_charge: boolean; // Buyer accounts for the tax, so none is charged on the invoice
   line_items: LineItem[];
+  due_date: string | null;
+  payment_terms: string | null; // As printed, e.g. "Net 30" or "Due on receipt"
+  payment_method: string | null; // e.g. "Bank transfer", "Direct debit", "Card"
+  amount_paid: number | null; // Deposits and part payments already made
+  balance_due: number | null;
+  supplier_bank: BankDetails | null;
+  payable_status: PayableStatus;
+  payment_date: string | null; // YYYY-MM-DD it was paid, or is scheduled to be
+  payment_reference: string | null; // Bank or remittance reference of the payment
+  category: string | null; // Invoice-wide category; lines without their own fall back to it
+  category_source: CategorySource | null;
+  review: InvoiceReviewState;
+  file_hash: string | null; // SHA-256 of the uploaded file
+  dismissed_duplicates: string[]; // Ids of invoices the user confirmed are not duplicates of this one
+  field_sources: Partial<Record<InvoiceField, FieldSource>>;
+  page_range: PageRange | null; // Set when the invoice was split out of a multi-invoice document
+}
+
+// A supplier as recorded in the registry, with the spellings it appears under on invoices
+export interface Supplier {
+  id: string;
+  name: string; // Canonical name used on every matched invoice
+  tax_id: string | null;
+  default_currency: string | null; // ISO 4217, used when an invoice doesn't print one
+  default_category: string | null;
+  aliases: string[]; // Other names the supplier has been read as
+  created_at: string; // ISO timestamp
+}
+
+export type BusinessCardField =
+  | 'full_name'
+  | 'company'
+  | 'job_title'
+  | 'emails'
+  | 'phones'
+  | 'website'
+  | 'social_profiles'
+  | 'address';
+
+export type PhoneType = 'mobile' | 'work' | 'fax' | 'other';
+
+export interface ContactPhone {
+  type: PhoneType;
+  number: string; // As printed on the card
+  e164: string | null; // "+442071234567"; null when the country can't be told
+}
+
+export type EmailType = 'work' | 'personal' | 'other';
+
+export interface ContactEmail {
+  type: EmailType;
+  address: string;
+}
+
+export type SocialNetwork = 'linkedin' | 'x' | 'instagram' | 'facebook' | 'github' | 'other';
+
+export interface SocialProfile {
+  network: SocialNetwork;
+  url: string;
+}
+
+export interface PostalAddress {
+  street: string | null; // May span several lines
+  city: string | null;
+  region: string | null; // State, province or county
+  postal_code: string | null;
+  country: string | null;
 }
 
 export interface BusinessCardData {
   id: string; // Internal unique ID
   fileName: string;
+  extracted_at: string; // ISO timestamp
   full_name: string | null;
   company: string | null;
   job_title: string | null;
-  email: string | null;
-  phone: string | null;
+  emails: ContactEmail[];
+  phones: ContactPhone[];
   website: string | null;
-  address: string | null;
+  social_profiles: SocialProfile[];
+  address: PostalAddress | null;
+  field_sources: Partial<Record<BusinessCardField, FieldSource>>;
+  dismissed_duplicates: string[]; // Ids of contacts the user confirmed are different people
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCode =
+  | 'missing_total'
+  | 'negative_total'
+  | 'line_items_sum_mismatch'
+  | 'line_total_mismatch'
+  | 'missing_invoice_number'
+  | 'tax_rate_out_of_band'
+  | 'unparseable_invoice_date'
+  | 'future_invoice_date'
+  | 'malformed_tax_id'
+  | 'unknown_currency'
+  | 'missing_fx_rate'
+  | 'net_total_mismatch'
+  | 'tax_breakdown_mismatch'
+  | 'reverse_charge_with_tax'
+  | 'credit_note_sign'
+  | 'missing_original_invoice'
+  | 'balance_mismatch'
+  | 'unparseable_due_date'
+  | 'due_before_invoice_date'
+  | 'invalid_iban';
+
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  message: string;
+  field: InvoiceField;
+  line_index?: number; // Set for issues about a single line item
+}
+
+// A range of plausible tax rates, in percent of the net amount
+export interface TaxRateBand {
+  label: string;
+  min: number;
+  max: number;
+}
+
+// Value of one unit of `currency` in the base currency, from `date` onwards
+export interface FxRate {
+  date: string; // YYYY-MM-DD
+  currency: string; // ISO 4217
+  rate: number;
+}
+
+export type ImageColorMode = 'color' | 'grayscale' | 'high_contrast';
+
+// How photos and scans are cleaned up in the browser before upload
+export interface ImagePreprocessingOptions {
+  enabled: boolean;
+  auto_crop: boolean; // Crop to the document's edges when it stands out from the background
+  deskew: boolean;
+  color_mode: ImageColorMode;
+  max_dimension: number; // Longest side in pixels
+  max_kb: number; // Size budget per image
+}
+
+export type JobStatus = 'queued' | 'processing' | 'success' | 'error' | 'cancelled';
+
+// One file's progress through the extraction queue
+export interface ExtractionJob {
+  id: string;
+  file: File;
+  status: JobStatus;
+  attempts: number;
+  error: string | null;
+}
+
+// Two contacts that look like the same person
+export interface ContactMatch {
+  originalId: string;
+  duplicateId: string;
+  score: number; // 0-1
+  reasons: string[];
+}
+
+// A pair of invoices that probably describe the same bill. `duplicateId` is
+// the later upload, `originalId` the one extracted first.
+export interface DuplicateMatch {
+  originalId: string;
+  duplicateId: string;
+  exactFile: boolean;
+  score: number; // 0-1
+  reasons: string[];
+}
+
+// --- CUSTOM DOCUMENT TYPES ---
+
+export type CustomFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'array';
+
+// One field of a user-defined document type. Arrays hold objects described by
+// `fields`, e.g. the lines of a purchase order; they don't nest further.
+export interface CustomFieldDefinition {
+  key: string; // snake_case name used in the schema and exports
+  label: string;
+  type: CustomFieldType;
+  description: string; // Tells the model what to look for
+  required: boolean;
+  fields: CustomFieldDefinition[]; // Item fields when `type` is 'array', otherwise empty
+}
+
+export interface DocumentTypeDefinition {
+  id: string;
+  name: string; // e.g. "Delivery note"
+  description: string; // What the document is, for the extraction prompt
+  fields: CustomFieldDefinition[];
 }
 
-export type ExtractionStatus = 'idle' | 'processing' | 'success' | 'error';
+export type CustomScalarValue = string | number | boolean | null;
+export type CustomFieldValue = CustomScalarValue | Record<string, CustomScalarValue>[];
+
+export interface CustomDocument {
+  id: string; // Internal unique ID
+  fileName: string;
+  extracted_at: string; // ISO timestamp
+  type_id: string; // The DocumentTypeDefinition it was extracted with
+  values: Record<string, CustomFieldValue>;
+}
+
+// --- INBOX ---
+
+export type DocumentClass = 'invoice' | 'credit_note' | 'receipt' | 'business_card' | 'other';
+
+// What the inbox decided a file is, before it is sent to a tab for extraction
+export interface DocumentClassification {
+  document_class: DocumentClass;
+  confidence: number; // 0-1
+  reason: string; // Short explanation, shown when a file is uncertain or rejected
+}
@@ -4,15 +4,22 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays with the API server (server/index.ts); the app reaches it through /api
+    const api = {
+      '/api': `http://localhost:${env.SERVER_PORT || 3001}`,
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: api,
+      },
+      preview: {
+        proxy: api,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.EXTRACTION_PROVIDER': JSON.stringify(env.EXTRACTION_PROVIDER)
       },
       resolve: {
         alias: {